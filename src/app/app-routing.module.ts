@@ -4,14 +4,22 @@ import { DashboardComponent } from './components/dashboard/dashboard.component';
 import { VulnerabilitiesComponent } from './components/vulnerabilities/vulnerabilities.component';
 import { CompliancesComponent } from './components/compliances/compliances.component';
 import { PipelinesComponent } from './components/pipelines/pipelines.component';
+import { DependenciesComponent } from './components/dependencies/dependencies.component';
 import { RulesComponent } from './components/rules/rules.component';
+import { HistoryComponent } from './components/history/history.component';
+import { ScanDiffComponent } from './components/scan-diff/scan-diff.component';
+import { FindingDetailComponent } from './components/finding-detail/finding-detail.component';
 
 const routes: Routes = [
   { path: '', component: DashboardComponent },
   { path: 'vulnerabilities', component: VulnerabilitiesComponent },
+  { path: 'vulnerabilities/diff', component: ScanDiffComponent },
+  { path: 'vulnerabilities/:id', component: FindingDetailComponent },
   { path: 'compliances', component: CompliancesComponent },
   { path: 'pipelines', component: PipelinesComponent },
+  { path: 'dependencies', component: DependenciesComponent },
   { path: 'rules', component: RulesComponent },
+  { path: 'history', component: HistoryComponent },
   { path: '**', redirectTo: '' },
 ];
 
@@ -35,6 +35,7 @@ export class AppComponent {
   private findings = inject(FindingsService);
 
   hasSession = computed(() => !!this.scan.scanSession());
+  repo = computed(() => this.scan.scanSession()?.repo ?? '');
 
   constructor() {
     this.findings.initDevMockIfEnabled(); // 👈 seeds fake data for UI
@@ -53,6 +54,66 @@ export class AppComponent {
           snippet:
             '✅ build (4m14s)\n✅ test (3m25s)\n✅ deploy (2m20s)\nTotal duration: 9m54s',
         },
+        run: {
+          id: 'run-123',
+          source: 'harness',
+          pipelineId: 'build-test-scan-deploy',
+          pipelineName: 'build-test-scan-deploy',
+          runNumber: 123,
+          status: 'success',
+          durationMs: 594_000,
+          trigger: { type: 'webhook', branch: 'main' },
+          url: 'https://app.harness.io/org/default/projects/superagi/pipelines/build-test-scan-deploy/runs/123',
+          stages: [
+            {
+              id: 'build',
+              name: 'build',
+              type: 'CI',
+              status: 'success',
+              durationMs: 254_000,
+              steps: [
+                {
+                  id: 'install',
+                  name: 'install',
+                  type: 'Run',
+                  status: 'success',
+                  durationMs: 71_000,
+                },
+                {
+                  id: 'compile',
+                  name: 'compile',
+                  type: 'Run',
+                  status: 'success',
+                  durationMs: 118_000,
+                },
+                {
+                  id: 'push',
+                  name: 'push image',
+                  type: 'BuildAndPushDockerRegistry',
+                  status: 'success',
+                  durationMs: 65_000,
+                },
+              ],
+            },
+            {
+              id: 'test',
+              name: 'test',
+              type: 'CI',
+              status: 'success',
+              durationMs: 205_000,
+              steps: [],
+            },
+            {
+              id: 'deploy',
+              name: 'deploy',
+              type: 'Deployment',
+              status: 'success',
+              durationMs: 135_000,
+              steps: [],
+            },
+          ],
+          artifacts: [{ name: 'superagi/api', tag: '1.8.2', stage: 'build' }],
+        },
         aiExplanation:
           'The CI/CD pipeline ran successfully and all required quality gates passed.',
         aiRemediation:
@@ -79,6 +140,8 @@ export class AppComponent {
         ruleId: 'APRA-CPS-234',
         title: 'APRA CPS 234',
         message: '20.7% complete (6/29 controls)',
+        controlsDone: 6,
+        controlsTotal: 29,
         severity: 'info',
         aiExplanation:
           'Partial completion of APRA CPS 234 controls. Focus on security governance alignment.',
@@ -91,6 +154,8 @@ export class AppComponent {
         ruleId: 'AU-ESSENTIAL-8',
         title: 'Australian Essential 8',
         message: '75% complete (36/48 controls)',
+        controlsDone: 36,
+        controlsTotal: 48,
         severity: 'info',
         aiExplanation:
           'Strong progress toward full implementation of Essential 8 maturity model.',
@@ -103,6 +168,8 @@ export class AppComponent {
         ruleId: 'CIS-V8-1',
         title: 'CIS Critical Security Controls v8.1',
         message: '70.8% complete (92/130 controls)',
+        controlsDone: 92,
+        controlsTotal: 130,
         severity: 'info',
         aiExplanation:
           'CIS v8.1 controls largely implemented; maintain continuous review.',
@@ -115,6 +182,8 @@ export class AppComponent {
         ruleId: 'CMMC-2-0',
         title: 'CMMC 2.0',
         message: '5.1% complete (3/59 controls)',
+        controlsDone: 3,
+        controlsTotal: 59,
         severity: 'info',
         aiExplanation: 'Early-stage compliance with CMMC framework.',
         aiRemediation: '- Establish documentation for Level 2 practices',
@@ -125,6 +194,8 @@ export class AppComponent {
         ruleId: 'DORA',
         title: 'Digital Operational Resilience Act (DORA)',
         message: '31.7% complete (33/104 controls)',
+        controlsDone: 33,
+        controlsTotal: 104,
         severity: 'info',
         aiExplanation: 'Moderate implementation of DORA resilience controls.',
         aiRemediation: '- Expand incident response and ICT continuity planning',
@@ -135,6 +206,8 @@ export class AppComponent {
         ruleId: 'EU-AI-ACT',
         title: 'EU AI ACT',
         message: '5.1% complete (8/157 controls)',
+        controlsDone: 8,
+        controlsTotal: 157,
         severity: 'info',
         aiExplanation: 'Minimal progress toward AI Act readiness.',
         aiRemediation:
@@ -146,6 +219,8 @@ export class AppComponent {
         ruleId: 'FEDRAMP-5',
         title: 'FedRAMP Rev. 5',
         message: '2.8% complete (9/323 controls)',
+        controlsDone: 9,
+        controlsTotal: 323,
         severity: 'info',
         aiExplanation: 'Initial assessment complete; significant work remains.',
         aiRemediation: '- Build SSP and control evidence for FedRAMP baseline',
@@ -156,6 +231,8 @@ export class AppComponent {
         ruleId: 'GDPR',
         title: 'GDPR',
         message: '54.7% complete (41/75 controls)',
+        controlsDone: 41,
+        controlsTotal: 75,
         severity: 'info',
         aiExplanation: 'GDPR compliance at mid-level progress.',
         aiRemediation: '- Finalize data retention and subject access workflows',
@@ -166,6 +243,8 @@ export class AppComponent {
         ruleId: 'HIPAA',
         title: 'HIPAA',
         message: '9.6% complete (7/73 controls)',
+        controlsDone: 7,
+        controlsTotal: 73,
         severity: 'info',
         aiExplanation: 'HIPAA compliance at early maturity.',
         aiRemediation:
@@ -177,6 +256,8 @@ export class AppComponent {
         ruleId: 'HITRUST',
         title: 'HITRUST',
         message: '70.3% complete (377/536 controls)',
+        controlsDone: 377,
+        controlsTotal: 536,
         severity: 'info',
         aiExplanation: 'Substantial HITRUST control coverage achieved.',
         aiRemediation:
@@ -188,6 +269,35 @@ export class AppComponent {
         ruleId: 'ISO-27001',
         title: 'ISO 27001:2022',
         message: '21.8% complete (26/119 controls)',
+        controlsDone: 26,
+        controlsTotal: 119,
+        controls: [
+          {
+            id: 'A.5.17',
+            name: 'Authentication information',
+            status: 'passing',
+            owner: 'IT Operations',
+          },
+          {
+            id: 'A.8.24',
+            name: 'Use of cryptography',
+            status: 'failing',
+            owner: 'Platform Security',
+            dueDate: '2025-12-01',
+          },
+          {
+            id: 'A.8.28',
+            name: 'Secure coding',
+            status: 'in_progress',
+            owner: 'AppSec',
+            evidence: [{ name: 'Secure coding standard' }],
+          },
+          {
+            id: 'A.8.32',
+            name: 'Change management',
+            status: 'not_started',
+          },
+        ],
         severity: 'info',
         aiExplanation: 'Initial ISMS documentation in progress.',
         aiRemediation:
@@ -199,6 +309,8 @@ export class AppComponent {
         ruleId: 'ISO-42001',
         title: 'ISO/IEC 42001:2023',
         message: '42.3% complete (30/71 controls)',
+        controlsDone: 30,
+        controlsTotal: 71,
         severity: 'info',
         aiExplanation: 'AI management system partially implemented.',
         aiRemediation:
@@ -210,6 +322,8 @@ export class AppComponent {
         ruleId: 'ISO-9001',
         title: 'ISO/IEC 9001:2015',
         message: '43.1% complete (28/65 controls)',
+        controlsDone: 28,
+        controlsTotal: 65,
         severity: 'info',
         aiExplanation:
           'Quality management processes halfway to full certification.',
@@ -222,6 +336,8 @@ export class AppComponent {
         ruleId: 'NIS-2',
         title: 'NIS 2 Directive',
         message: '36.8% complete (21/57 controls)',
+        controlsDone: 21,
+        controlsTotal: 57,
         severity: 'info',
         aiExplanation: 'NIS 2 baseline implemented; risk governance ongoing.',
         aiRemediation:
@@ -233,6 +349,8 @@ export class AppComponent {
         ruleId: 'NIST-800-171',
         title: 'NIST 800-171',
         message: '17.3% complete (19/110 controls)',
+        controlsDone: 19,
+        controlsTotal: 110,
         severity: 'info',
         aiExplanation: 'Low adoption of NIST 800-171 safeguards.',
         aiRemediation:
@@ -244,6 +362,8 @@ export class AppComponent {
         ruleId: 'NIST-800-53',
         title: 'NIST 800-53',
         message: '99.7% complete (369/370 controls)',
+        controlsDone: 369,
+        controlsTotal: 370,
         severity: 'info',
         aiExplanation:
           'Nearly full compliance achieved with NIST 800-53 baseline.',
@@ -256,6 +376,8 @@ export class AppComponent {
         ruleId: 'NIST-AI-RMF',
         title: 'NIST AI Risk Management Framework',
         message: '69.4% complete (50/72 controls)',
+        controlsDone: 50,
+        controlsTotal: 72,
         severity: 'info',
         aiExplanation: 'Strong AI governance progress demonstrated.',
         aiRemediation: '- Finalize risk documentation and measurement metrics',
@@ -266,6 +388,8 @@ export class AppComponent {
         ruleId: 'NIST-CSF-2',
         title: 'NIST CSF 2.0',
         message: '34.9% complete (37/106 controls)',
+        controlsDone: 37,
+        controlsTotal: 106,
         severity: 'info',
         aiExplanation: 'Moderate cybersecurity maturity.',
         aiRemediation: '- Expand identify and recover functions coverage',
@@ -276,6 +400,8 @@ export class AppComponent {
         ruleId: 'PCI-DSS-4',
         title: 'PCI DSS 4.0.1',
         message: '37.6% complete (102/271 controls)',
+        controlsDone: 102,
+        controlsTotal: 271,
         severity: 'info',
         aiExplanation: 'Partial PCI DSS implementation.',
         aiRemediation: '- Address multi-factor and encryption control gaps',
@@ -286,6 +412,8 @@ export class AppComponent {
         ruleId: 'CPS-234-INFOSEC',
         title: 'Prudential Standard CPS 234 Information Security',
         message: '0% complete (0/1 controls)',
+        controlsDone: 0,
+        controlsTotal: 1,
         severity: 'info',
         aiExplanation: 'No progress recorded for CPS 234 Information Security.',
         aiRemediation: '- Assign control owner and complete initial assessment',
@@ -296,6 +424,45 @@ export class AppComponent {
         ruleId: 'SOC-2',
         title: 'SOC 2',
         message: '45.5% complete (35/77 controls)',
+        controlsDone: 35,
+        controlsTotal: 77,
+        controls: [
+          {
+            id: 'CC6.1',
+            name: 'Logical access security',
+            status: 'passing',
+            owner: 'IT Operations',
+            evidence: [{ name: 'Access control policy', status: 'passing' }],
+          },
+          {
+            id: 'CC6.7',
+            name: 'Data transmission and encryption',
+            status: 'in_progress',
+            owner: 'Platform Security',
+            dueDate: '2025-12-15',
+          },
+          {
+            id: 'CC7.1',
+            name: 'Vulnerability detection and monitoring',
+            status: 'failing',
+            owner: 'AppSec',
+            dueDate: '2025-11-30',
+            evidence: [
+              { name: 'Semgrep CI scan', status: 'failing' },
+              { name: 'Vulnerability management policy', status: 'passing' },
+            ],
+          },
+          {
+            id: 'CC8.1',
+            name: 'Change management',
+            status: 'not_started',
+          },
+          {
+            id: 'A1.1',
+            name: 'Capacity management',
+            status: 'not_started',
+          },
+        ],
         severity: 'info',
         aiExplanation: 'SOC 2 Type 1 readiness halfway achieved.',
         aiRemediation:
@@ -307,6 +474,8 @@ export class AppComponent {
         ruleId: 'SOX-ITGC',
         title: 'SOX IT General Controls',
         message: '48.5% complete (16/33 controls)',
+        controlsDone: 16,
+        controlsTotal: 33,
         severity: 'info',
         aiExplanation:
           'SOX ITGC partially met across change management and access controls.',
@@ -319,6 +488,8 @@ export class AppComponent {
         ruleId: 'TISAX',
         title: 'TISAX',
         message: '7.6% complete (6/79 controls)',
+        controlsDone: 6,
+        controlsTotal: 79,
         severity: 'info',
         aiExplanation: 'TISAX compliance just initiated.',
         aiRemediation:
@@ -330,6 +501,8 @@ export class AppComponent {
         ruleId: 'US-DATA-PRIVACY',
         title: 'US Data Privacy',
         message: '20.2% complete (19/94 controls)',
+        controlsDone: 19,
+        controlsTotal: 94,
         severity: 'info',
         aiExplanation: 'US data privacy frameworks partially implemented.',
         aiRemediation: '- Review CCPA and state-level data handling practices',
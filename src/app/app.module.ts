@@ -12,8 +12,16 @@ import { AiChatboxComponent } from './components/ai-chatbox/ai-chatbox.component
 import { VulnerabilitiesComponent } from './components/vulnerabilities/vulnerabilities.component';
 import { CompliancesComponent } from './components/compliances/compliances.component';
 import { PipelinesComponent } from './components/pipelines/pipelines.component';
+import { DependenciesComponent } from './components/dependencies/dependencies.component';
 import { RulesComponent } from './components/rules/rules.component';
 import { StartScreenComponent } from './components/start-screen/start-screen.component';
+import { HistoryComponent } from './components/history/history.component';
+import { ScanDiffComponent } from './components/scan-diff/scan-diff.component';
+import { RemediationQueueComponent } from './components/remediation-queue/remediation-queue.component';
+import { FindingDetailComponent } from './components/finding-detail/finding-detail.component';
+import { SeverityPolicyComponent } from './components/severity-policy/severity-policy.component';
+import { IgnoreConfigComponent } from './components/ignore-config/ignore-config.component';
+import { ExportMenuComponent } from './components/export-menu/export-menu.component';
 import { MarkdownPipe } from './shared/markdown.pipe';
 import { CodeHighlightPipe } from './shared/code-highlight.pipe';
 
@@ -25,8 +33,16 @@ import { CodeHighlightPipe } from './shared/code-highlight.pipe';
     VulnerabilitiesComponent,
     CompliancesComponent,
     PipelinesComponent,
+    DependenciesComponent,
     RulesComponent,
     StartScreenComponent,
+    HistoryComponent,
+    ScanDiffComponent,
+    RemediationQueueComponent,
+    FindingDetailComponent,
+    SeverityPolicyComponent,
+    IgnoreConfigComponent,
+    ExportMenuComponent,
   ],
   imports: [
     BrowserModule,
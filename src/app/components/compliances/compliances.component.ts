@@ -8,11 +8,45 @@ import {
 import { trigger, transition, style, animate } from '@angular/animations';
 
 import { FindingsService } from '../../services/findings.service';
-import type { Finding } from '../../models/finding.model';
+import {
+  categoryOf,
+  type ControlStatus,
+  type Finding,
+  type VantaControl,
+  type VantaFinding,
+} from '../../models/finding.model';
 import { ChatService } from '../../services/chat.service';
+import { complianceProgress } from '../../models/vanta.mapper';
+import {
+  controlTitle,
+  findingsForControl,
+  findingsForFramework,
+  frameworkKey,
+} from '../../models/control.mapping';
+import { langOf } from '../../shared/lang-of';
+import { badgeClass, fixPrompt } from '../../shared/finding-ui';
 
 type SortKey = 'completion' | 'severity' | 'rule' | 'file';
 
+interface ControlRow {
+  control: VantaControl;
+  findings: Finding[]; // code / pipeline findings failing this control
+}
+
+// a mapped control (from the bundled dataset) with the findings impacting it
+interface ImpactRow {
+  control: string;
+  title?: string;
+  findings: Finding[];
+}
+
+interface FrameworkDrill {
+  rows: ControlRow[]; // the framework's own controls, when the export has them
+  counts: Partial<Record<ControlStatus, number>>;
+  impact: ImpactRow[];
+  linked: number; // distinct findings impacting the framework
+}
+
 @Component({
   selector: 'app-compliances',
   templateUrl: './compliances.component.html',
@@ -31,49 +65,7 @@ export class CompliancesComponent {
   private store = inject(FindingsService);
   private chat = inject(ChatService);
 
-  langOf(file?: string | null): string | undefined {
-    const ext = (file || '').split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'py':
-        return 'python';
-      case 'ts':
-        return 'typescript';
-      case 'js':
-        return 'javascript';
-      case 'tsx':
-        return 'tsx';
-      case 'jsx':
-        return 'jsx';
-      case 'go':
-        return 'go';
-      case 'rs':
-        return 'rust';
-      case 'rb':
-        return 'ruby';
-      case 'java':
-        return 'java';
-      case 'cs':
-        return 'csharp';
-      case 'c':
-        return 'c';
-      case 'cpp':
-      case 'cc':
-      case 'cxx':
-        return 'cpp';
-      case 'sh':
-      case 'bash':
-        return 'bash';
-      case 'yml':
-      case 'yaml':
-        return 'yaml';
-      case 'json':
-        return 'json';
-      case 'sql':
-        return 'sql';
-      default:
-        return undefined; // let hljs auto-detect
-    }
-  }
+  langOf = langOf;
 
   sortBy = signal<SortKey>('severity');
 
@@ -87,55 +79,85 @@ export class CompliancesComponent {
   };
 
   findings = computed(() => {
-    const list = this.store.byTool('vanta')();
-
-    // helper to extract completion %
-    const percent = (msg?: string): number => {
-      const m = (msg || '').match(/([\d.]+)\s*%/);
-      return m ? Number(m[1]) : 0;
-    };
-
-    return [...list].sort((a, b) => percent(b.message) - percent(a.message));
+    const list = this.store.byCategory('compliance')();
+    const percent = (f: Finding) => complianceProgress(f)?.percent ?? 0;
+    return [...list].sort((a, b) => percent(b) - percent(a));
   });
   
   trackById = (_: number, f: Finding) => f.id;
+  trackByControl = (_: number, r: ControlRow) => r.control.id;
+  badgeClass = badgeClass;
+
+  /* -----------------------------
+     Control drill-down
+  --------------------------------*/
+  statusOrder: ControlStatus[] = [
+    'failing',
+    'in_progress',
+    'not_started',
+    'passing',
+    'not_applicable',
+  ];
+  statusLabel: Record<ControlStatus, string> = {
+    passing: 'Passing',
+    failing: 'Failing',
+    in_progress: 'In progress',
+    not_started: 'Not started',
+    not_applicable: 'N/A',
+  };
+
+  // untriaged code + pipeline findings that can fail a control
+  private others = computed(() =>
+    this.store.active().filter((f) => categoryOf(f.tool) !== 'compliance')
+  );
+
+  // framework finding id → its controls (failing first) + impacting findings
+  drill = computed(() => {
+    const others = this.others();
+    const rank = (s: ControlStatus) => this.statusOrder.indexOf(s);
+    const out = new Map<string, FrameworkDrill>();
+    for (const f of this.findings()) {
+      const impactMap = findingsForFramework(f, others);
+      const rows = ((f as VantaFinding).controls ?? [])
+        .map((control) => ({
+          control,
+          findings: findingsForControl(impactMap, control),
+        }))
+        .sort(
+          (a, b) =>
+            rank(a.control.status) - rank(b.control.status) ||
+            b.findings.length - a.findings.length
+        );
+      if (!rows.length && !impactMap.size) continue;
+
+      const counts: Partial<Record<ControlStatus, number>> = {};
+      for (const r of rows)
+        counts[r.control.status] = (counts[r.control.status] ?? 0) + 1;
+      const framework = frameworkKey(f) ?? '';
+      const impact = [...impactMap.entries()]
+        .map(([control, findings]) => ({
+          control,
+          title: controlTitle({ framework, control }),
+          findings,
+        }))
+        .sort((a, b) => b.findings.length - a.findings.length);
+      const linked = new Set(impact.flatMap((r) => r.findings.map((x) => x.id)));
+      out.set(f.id, { rows, counts, impact, linked: linked.size });
+    }
+    return out;
+  });
+
+  isOverdue(c: VantaControl): boolean {
+    const today = new Date().toISOString().slice(0, 10);
+    return !!c.dueDate && c.dueDate < today && c.status !== 'passing';
+  }
 
   onSortChange(ev: Event) {
     const value = (ev.target as HTMLSelectElement).value as SortKey;
     this.sortBy.set(value);
   }
 
-  badgeClass(sev: string): string {
-    switch (sev) {
-      case 'critical':
-        return 'badge badge--crit';
-      case 'high':
-        return 'badge badge--high';
-      case 'medium':
-        return 'badge badge--med';
-      case 'low':
-        return 'badge badge--low';
-      case 'info':
-        return 'badge badge--info';
-      default:
-        return 'badge';
-    }
-  }
-
-  askAiToFix(finding: any) {
-    const prompt = `
-  When replying, please use markdown formatting for headers, please start with heading-2
-  
-  Please analyze and fix the following vulnerability:
-  
-  Rule: ${finding.ruleId}
-  Severity: ${finding.severity}
-  Message: ${finding.message}
-  File: ${finding.location?.file}:${finding.location?.line}
-  Snippet:
-  ${finding.location?.snippet}
-  
-  Generate a secure code fix and explain the changes.`;
-    this.chat.sendToChat(prompt);
+  askAiToFix(finding: Finding) {
+    this.chat.sendToChat(fixPrompt(finding));
   }
 }
@@ -12,6 +12,14 @@ import {
 import { ScanService, StartScanResponse } from '../../services/scan.service';
 import type { SarifLog, SarifResult } from '../../models/sarif.model';
 import { FindingsService } from '../../services/findings.service';
+import { RiskScoreService } from '../../services/risk-score.service';
+import { PipelineHistoryService } from '../../services/pipeline-history.service';
+import { buildExecutiveReport } from '../../models/executive.report';
+import { complianceProgress } from '../../models/vanta.mapper';
+import { formatDuration, runTimeline } from '../../models/pipeline-run.model';
+import { runsOf, trendBars } from '../../models/pipeline.stats';
+import { MarkdownPipe } from '../../shared/markdown.pipe';
+import { downloadText } from '../../shared/download';
 import {
   ApexChart,
   ApexFill,
@@ -52,9 +60,11 @@ type Sev = 'critical' | 'high' | 'medium' | 'low' | 'info';
 })
 export class DashboardComponent {
   store = inject(FindingsService);
+  private riskSvc = inject(RiskScoreService);
+  private pipelineHistory = inject(PipelineHistoryService);
 
-  // Semgrep-only for this widget (keep or swap to all-tools if you want)
-  semgrep = computed(() => this.store.byTool('semgrep')());
+  // All code scanners (Semgrep + any registered SARIF driver) for this widget
+  semgrep = computed(() => this.store.byCategory('code')());
   total = computed(() => this.semgrep().length);
 
   private order: Sev[] = ['critical', 'high', 'medium', 'low', 'info'];
@@ -193,23 +203,19 @@ export class DashboardComponent {
   barLegend = { show: false }; // we already have the legend next to the pie
 
   // === VANTA TOP-5 COMPLIANCE (clean minimal yellow style) ===
-  vanta = computed(() => this.store.byTool('vanta')());
-
-  private parseVanta(msg: string) {
-    const m = msg.match(/([\d.]+)%\s*complete\s*\((\d+)\s*\/\s*(\d+)/i);
-    const percent = m ? Number(m[1]) : 0;
-    const done = m ? Number(m[2]) : 0;
-    const total = m ? Number(m[3]) : 0;
-    return { percent, done, total };
-  }
+  vanta = computed(() => this.store.byCategory('compliance')());
 
-  vantaTop5 = computed(() => {
-    const items = this.vanta().map((v) => {
-      const { percent, done, total } = this.parseVanta(v.message || '');
-      return { title: v.title ?? v.ruleId, percent, done, total };
-    });
-    return items.sort((a, b) => b.percent - a.percent).slice(0, 5);
-  });
+  // framework completion rows (findings without control totals count as 0%)
+  private vantaRows = computed(() =>
+    this.vanta().map((v) => ({
+      title: v.title ?? v.ruleId,
+      ...(complianceProgress(v) ?? { percent: 0, done: 0, total: 0 }),
+    }))
+  );
+
+  vantaTop5 = computed(() =>
+    [...this.vantaRows()].sort((a, b) => b.percent - a.percent).slice(0, 5)
+  );
 
   vantaChart: ApexChart = {
     type: 'bar',
@@ -280,4 +286,107 @@ export class DashboardComponent {
       },
     },
   };
+
+  // === HARNESS LATEST RUN ===
+  pipelineSnippet = computed(
+    () => this.store.byCategory('pipeline')()[0]?.location?.snippet
+  );
+
+  latestRun = computed(() => {
+    const runs = runsOf(this.store.byCategory('pipeline')()).sort((a, b) =>
+      (b.startedAt || '').localeCompare(a.startedAt || '')
+    );
+    return runs.length ? runTimeline(runs[0]) : null;
+  });
+
+  // stored history of the latest run's pipeline
+  pipelineTrend = computed(() => {
+    const run = this.latestRun()?.run;
+    const stats = this.pipelineHistory
+      .stats()
+      .find((p) => p.pipelineId === run?.pipelineId);
+    return stats && stats.runs > 1
+      ? { stats, bars: trendBars(stats.history, 12) }
+      : null;
+  });
+
+  formatDuration = formatDuration;
+
+  // === RISK SCORE / TREND ===
+  risk = computed(() => this.riskSvc.current());
+  riskTrend = computed(() => this.riskSvc.trend());
+
+  riskChart: ApexChart = {
+    type: 'line',
+    height: 110,
+    background: 'transparent',
+    sparkline: { enabled: true },
+    animations: { enabled: false },
+    toolbar: { show: false },
+  };
+
+  riskColors = ['#dab600'];
+  riskStroke: ApexStroke = { width: 3, curve: 'smooth' };
+  riskMarkers = { size: 3, strokeWidth: 0 };
+
+  riskSeries = computed(() => [
+    { name: 'Risk', data: this.riskTrend().map((p) => p.score) },
+  ]);
+
+  riskXaxis = computed(() => ({
+    categories: this.riskTrend().map((p) => new Date(p.at).toLocaleString()),
+  }));
+
+  riskYaxis = { min: 0, max: 100, show: false };
+
+  riskTooltip = {
+    enabled: true,
+    theme: 'light',
+    x: { show: true },
+    y: { formatter: (val: number) => `${val} / 100` },
+  };
+
+  riskLevel(score: number): string {
+    if (score >= 75) return 'Critical';
+    if (score >= 50) return 'High';
+    if (score >= 25) return 'Moderate';
+    return 'Low';
+  }
+
+  // === EXECUTIVE REPORT ===
+  /** Open a printable, self-contained HTML report built from this dashboard */
+  openReport() {
+    const risk = this.risk();
+    const top = this.semgrep()
+      .filter((f) => f.severity === 'critical' || f.severity === 'high')
+      .sort(
+        (a, b) =>
+          this.order.indexOf(a.severity as Sev) -
+            this.order.indexOf(b.severity as Sev) ||
+          Number(!!b.aiRemediation) - Number(!!a.aiRemediation)
+      )
+      .slice(0, 10);
+    const md = new MarkdownPipe();
+    const html = buildExecutiveReport(
+      {
+        repo: this.store.activeSession()?.repo,
+        generatedAt: new Date().toISOString(),
+        severity: this.counts(),
+        risk,
+        riskLevel: this.riskLevel(risk.score),
+        riskTrend: this.riskTrend(),
+        compliance: this.vantaRows(),
+        topFindings: top,
+        pipelines: this.pipelineHistory.stats(),
+        pipeline: this.store.byCategory('pipeline')(),
+      },
+      (text) => md.transform(text)
+    );
+
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    const win = window.open(url, '_blank');
+    // popup blocked → hand the file over instead
+    if (!win) downloadText('security-report.html', html, 'text/html');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
 }
@@ -0,0 +1,123 @@
+import {
+  Component,
+  computed,
+  inject,
+  signal,
+  ViewEncapsulation,
+} from '@angular/core';
+import { trigger, transition, style, animate } from '@angular/animations';
+
+import { FindingsService } from '../../services/findings.service';
+import {
+  isSuppressed,
+  type DependencyFinding,
+} from '../../models/finding.model';
+import type { VexState } from '../../models/dependency.model';
+import {
+  groupByPackage,
+  type PackageGroup,
+} from '../../models/dependency.group';
+import { ChatService } from '../../services/chat.service';
+import { badgeClass } from '../../shared/finding-ui';
+
+type SortKey = 'severity' | 'cvss' | 'package' | 'count';
+
+@Component({
+  selector: 'app-dependencies',
+  templateUrl: './dependencies.component.html',
+  styleUrls: ['./dependencies.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+  animations: [
+    trigger('popIn', [
+      transition(':enter', [
+        style({ opacity: 0 }),
+        animate('1s cubic-bezier(0.22, 1, 0.36, 1)', style({ opacity: 1 })),
+      ]),
+    ]),
+  ],
+})
+export class DependenciesComponent {
+  private store = inject(FindingsService);
+  private chat = inject(ChatService);
+
+  sortBy = signal<SortKey>('severity');
+  showSuppressed = signal(false);
+
+  findings = computed(() => this.store.byCategory('dependency')());
+
+  // triaged findings go in too, so a VEX verdict from one scanner also
+  // covers the same issue reported by another
+  private all = computed(() => this.store.byCategory('dependency', true)());
+
+  groups = computed(() => {
+    const list = groupByPackage(this.all(), this.showSuppressed());
+    const sort = this.sortBy();
+    if (sort === 'severity') return list; // already riskiest first
+    return [...list].sort((a, b) =>
+      sort === 'cvss'
+        ? (b.maxCvss ?? 0) - (a.maxCvss ?? 0)
+        : sort === 'count'
+        ? b.findings.length - a.findings.length
+        : a.package.name.localeCompare(b.package.name)
+    );
+  });
+
+  summary = computed(() => {
+    const groups = groupByPackage(this.all());
+    const vulns = groups.reduce((n, g) => n + g.findings.length, 0);
+    return {
+      packages: groups.length,
+      vulns,
+      fixable: groups.filter((g) => g.upgrade.to || g.upgrade.via).length,
+      direct: groups.filter((g) => g.direct).length,
+      suppressed: groupByPackage(this.all(), true).reduce(
+        (n, g) => n + g.suppressed,
+        0
+      ),
+    };
+  });
+
+  trackByGroup = (_: number, g: PackageGroup) => g.key;
+  trackById = (_: number, f: DependencyFinding) => f.id;
+  isSuppressed = isSuppressed;
+  badgeClass = badgeClass;
+
+  vexLabel: Record<VexState, string> = {
+    not_affected: 'Not affected',
+    false_positive: 'False positive',
+    exploitable: 'Exploitable',
+    in_triage: 'In triage',
+    resolved: 'Resolved',
+    resolved_with_pedigree: 'Resolved',
+  };
+
+  onSortChange(ev: Event) {
+    this.sortBy.set((ev.target as HTMLSelectElement).value as SortKey);
+  }
+
+  onShowChange(ev: Event) {
+    this.showSuppressed.set((ev.target as HTMLSelectElement).value === 'all');
+  }
+
+  /** Version shown for the package: installed, else the affected range */
+  installed(g: PackageGroup): string {
+    return g.package.version ?? g.findings[0]?.affectedRange ?? '';
+  }
+
+  askAiToUpgrade(g: PackageGroup) {
+    const target = g.upgrade.via
+      ? `${g.upgrade.via.name}@${g.upgrade.via.version}`
+      : `${g.package.name}@${g.upgrade.to}`;
+    const prompt = `
+    When replying, please use markdown formatting for headers, please start with heading-2
+
+    Please help me upgrade a vulnerable dependency:
+
+    Package: ${g.package.name}@${this.installed(g)} (${g.package.ecosystem ?? 'unknown ecosystem'})
+    Vulnerabilities: ${g.findings.map((f) => `${f.vulnId} (${f.severity})`).join(', ')}
+    Suggested upgrade: ${target}${g.upgrade.major ? ' (major version)' : ''}
+
+    List the breaking changes to expect, the exact commands to run, and what to test afterwards.`;
+    this.chat.sendToChat(prompt);
+  }
+}
@@ -0,0 +1,43 @@
+import { Component, inject, input } from '@angular/core';
+
+import type { Finding } from '../../models/finding.model';
+import { exportFindings, type ExportFormat } from '../../models/finding.export';
+import { FindingsService } from '../../services/findings.service';
+import { downloadText } from '../../shared/download';
+
+@Component({
+  selector: 'app-export-menu',
+  templateUrl: './export-menu.component.html',
+  styleUrls: ['./export-menu.component.scss'],
+})
+export class ExportMenuComponent {
+  private store = inject(FindingsService);
+
+  // the list exactly as the page shows it (filters applied)
+  findings = input.required<Finding[]>();
+  title = input('Findings');
+
+  formats: Array<{ value: ExportFormat; label: string }> = [
+    { value: 'sarif', label: 'SARIF 2.1.0' },
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'JSON' },
+    { value: 'md', label: 'Markdown report' },
+  ];
+
+  export(format: ExportFormat, menu: HTMLDetailsElement) {
+    menu.open = false;
+    const repo = this.store.activeSession()?.repo;
+    const generatedAt = new Date().toISOString();
+    const { content, mime, ext } = exportFindings(this.findings(), format, {
+      title: this.title(),
+      repo,
+      generatedAt,
+    });
+    const slug = [this.title(), repo, generatedAt.slice(0, 10)]
+      .filter(Boolean)
+      .join('-')
+      .toLowerCase()
+      .replace(/[^a-z0-9.-]+/g, '-');
+    downloadText(`${slug}.${ext}`, content, mime);
+  }
+}
@@ -0,0 +1,115 @@
+import { Component, computed, inject, ViewEncapsulation } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute } from '@angular/router';
+import { trigger, transition, style, animate } from '@angular/animations';
+
+import type {
+  CodeFlow,
+  Finding,
+  FlowStep,
+  Location,
+} from '../../models/finding.model';
+import { FindingsService } from '../../services/findings.service';
+import { ChatService } from '../../services/chat.service';
+import { langOf } from '../../shared/lang-of';
+import { badgeClass, fixPrompt } from '../../shared/finding-ui';
+import {
+  controlTitle,
+  findingControls,
+  frameworkName,
+} from '../../models/control.mapping';
+
+@Component({
+  selector: 'app-finding-detail',
+  templateUrl: './finding-detail.component.html',
+  styleUrls: ['./finding-detail.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+  animations: [
+    trigger('popIn', [
+      transition(':enter', [
+        style({ opacity: 0 }),
+        animate('1s cubic-bezier(0.22, 1, 0.36, 1)', style({ opacity: 1 })),
+      ]),
+    ]),
+  ],
+})
+export class FindingDetailComponent {
+  private store = inject(FindingsService);
+  private chat = inject(ChatService);
+  private route = inject(ActivatedRoute);
+
+  private params = toSignal(this.route.paramMap);
+  id = computed(() => this.params()?.get('id') ?? '');
+
+  finding = computed<Finding | undefined>(() =>
+    this.store.all().find((f) => f.id === this.id())
+  );
+
+  // older sessions were stored before every location was kept
+  locations = computed<Location[]>(() => {
+    const f = this.finding();
+    if (!f) return [];
+    return f.locations?.length ? f.locations : f.location ? [f.location] : [];
+  });
+
+  flows = computed<CodeFlow[]>(() => this.finding()?.codeFlows ?? []);
+
+  // affected framework controls, grouped per framework
+  controls = computed(() => {
+    const f = this.finding();
+    if (!f) return [];
+    const byFw = new Map<string, Array<{ id: string; title?: string }>>();
+    for (const c of findingControls(f))
+      byFw.set(c.framework, [
+        ...(byFw.get(c.framework) ?? []),
+        { id: c.control, title: controlTitle(c) },
+      ]);
+    return [...byFw.entries()].map(([key, controls]) => ({
+      name: frameworkName(key),
+      controls,
+    }));
+  });
+
+  rawJson = computed(() => {
+    const raw = this.finding()?.raw;
+    return raw === undefined ? '' : JSON.stringify(raw, null, 2);
+  });
+
+  langOf = langOf;
+  badgeClass = badgeClass;
+
+  /** Widest code we have for a location: the context region when present */
+  sourceOf(loc: Location): { snippet: string; start: number } {
+    if (loc.context?.snippet)
+      return {
+        snippet: loc.context.snippet,
+        start: loc.context.line || loc.line || 1,
+      };
+    return { snippet: loc.snippet || '', start: loc.line || 1 };
+  }
+
+  /** Line numbers for the shown source, flagging the lines of the region */
+  lineNumbers(loc: Location): Array<{ n: number; hit: boolean }> {
+    const { snippet, start } = this.sourceOf(loc);
+    const count = snippet.replace(/\n$/, '').split('\n').length;
+    const from = loc.line ?? -1;
+    const to = loc.endLine ?? from;
+    return Array.from({ length: count }, (_, i) => ({
+      n: start + i,
+      hit: start + i >= from && start + i <= to,
+    }));
+  }
+
+  /** Label for a taint step; first/last fall back to source/sink */
+  stepLabel(step: FlowStep, index: number, flow: CodeFlow): string {
+    const kind = step.kinds?.find((k) => k === 'source' || k === 'sink');
+    if (kind) return kind;
+    if (index === 0) return 'source';
+    if (index === flow.steps.length - 1) return 'sink';
+    return step.kinds?.[0] || 'step';
+  }
+
+  askAiToFix(finding: Finding) {
+    this.chat.sendToChat(fixPrompt(finding));
+  }
+}
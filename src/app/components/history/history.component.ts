@@ -0,0 +1,41 @@
+import { Component, computed, inject, ViewEncapsulation } from '@angular/core';
+import { Router } from '@angular/router';
+import { trigger, transition, style, animate } from '@angular/animations';
+
+import { FindingsService } from '../../services/findings.service';
+import type { ScanSessionSummary } from '../../models/scan-session.model';
+import { ScanService } from '../../services/scan.service';
+
+@Component({
+  selector: 'app-history',
+  templateUrl: './history.component.html',
+  styleUrls: ['./history.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+  animations: [
+    trigger('popIn', [
+      transition(':enter', [
+        style({ opacity: 0 }),
+        animate('1s cubic-bezier(0.22, 1, 0.36, 1)', style({ opacity: 1 })),
+      ]),
+    ]),
+  ],
+})
+export class HistoryComponent {
+  private store = inject(FindingsService);
+  private scan = inject(ScanService);
+  private router = inject(Router);
+
+  sessions = computed(() => this.store.sessions());
+  activeId = computed(() => this.store.activeSession()?.id);
+
+  trackById = (_: number, s: ScanSessionSummary) => s.id;
+
+  async open(s: ScanSessionSummary) {
+    if (await this.scan.openSession(s.id)) this.router.navigate(['/']);
+  }
+
+  remove(s: ScanSessionSummary) {
+    if (!confirm(`Delete the ${s.repo} scan from ${s.createdAt}?`)) return;
+    this.store.deleteSession(s.id);
+  }
+}
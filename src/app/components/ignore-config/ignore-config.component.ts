@@ -0,0 +1,69 @@
+import { Component, computed, inject, signal } from '@angular/core';
+
+import { filteredCount, parseBaseline } from '../../models/finding.ignore';
+import { FindingsService } from '../../services/findings.service';
+import { IgnoreConfigService } from '../../services/ignore-config.service';
+
+@Component({
+  selector: 'app-ignore-config',
+  templateUrl: './ignore-config.component.html',
+  styleUrls: ['./ignore-config.component.scss'],
+})
+export class IgnoreConfigComponent {
+  private store = inject(FindingsService);
+  private ignore = inject(IgnoreConfigService);
+
+  repo = computed(() => this.store.activeSession()?.repo ?? '');
+  config = computed(() => {
+    this.ignore.configs(); // re-read after edits
+    return this.ignore.configFor(this.repo());
+  });
+
+  // what the open scan lost at ingestion, and why
+  stats = computed(() => this.store.activeSession()?.filtered);
+  filtered = computed(() => filteredCount(this.stats()));
+  byPath = computed(() =>
+    Object.entries(this.stats()?.byPath ?? {}).sort((a, b) => b[1] - a[1])
+  );
+
+  pathsText = '';
+  editing = signal(false);
+  baselineError = signal('');
+
+  edit() {
+    this.pathsText = this.config().paths.join('\n');
+    this.editing.set(true);
+  }
+
+  savePaths() {
+    this.ignore.setPaths(this.repo(), this.pathsText.split(/\r?\n/));
+    this.editing.set(false);
+  }
+
+  async importBaseline(ev: Event) {
+    const input = ev.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    const fingerprints = parseBaseline(await file.text());
+    if (!fingerprints.length) {
+      this.baselineError.set(`No fingerprints found in ${file.name}`);
+      return;
+    }
+    this.baselineError.set('');
+    this.ignore.setBaseline(this.repo(), fingerprints);
+  }
+
+  /** Everything in the open scan counts as pre-existing from now on */
+  baselineCurrent() {
+    const fps = this.store
+      .all()
+      .map((f) => f.fingerprint)
+      .filter((fp): fp is string => !!fp);
+    this.ignore.setBaseline(this.repo(), fps);
+  }
+
+  clearBaseline() {
+    this.ignore.setBaseline(this.repo(), []);
+  }
+}
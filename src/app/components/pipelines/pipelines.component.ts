@@ -8,10 +8,28 @@ import {
 import { trigger, transition, style, animate } from '@angular/animations';
 
 import { FindingsService } from '../../services/findings.service';
-import type { Finding } from '../../models/finding.model';
+import type { Finding, HarnessFinding } from '../../models/finding.model';
 import { ChatService } from '../../services/chat.service';
+import { PipelineHistoryService } from '../../services/pipeline-history.service';
+import {
+  formatDuration,
+  isFailure,
+  runTimeline,
+  type PipelineRun,
+  type PipelineStage,
+  type RunStatus,
+  type RunTimeline,
+} from '../../models/pipeline-run.model';
+import {
+  runsOf,
+  trendBars,
+  type PipelineStats,
+  type StageStats,
+} from '../../models/pipeline.stats';
+import { langOf } from '../../shared/lang-of';
+import { badgeClass, fixPrompt } from '../../shared/finding-ui';
 
-type SortKey = 'completion' | 'severity' | 'rule' | 'file';
+type SortKey = 'severity' | 'rule' | 'file';
 
 @Component({
   selector: 'app-pipelines',
@@ -30,50 +48,9 @@ type SortKey = 'completion' | 'severity' | 'rule' | 'file';
 export class PipelinesComponent {
   private store = inject(FindingsService);
   private chat = inject(ChatService);
+  private history = inject(PipelineHistoryService);
 
-  langOf(file?: string | null): string | undefined {
-    const ext = (file || '').split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'py':
-        return 'python';
-      case 'ts':
-        return 'typescript';
-      case 'js':
-        return 'javascript';
-      case 'tsx':
-        return 'tsx';
-      case 'jsx':
-        return 'jsx';
-      case 'go':
-        return 'go';
-      case 'rs':
-        return 'rust';
-      case 'rb':
-        return 'ruby';
-      case 'java':
-        return 'java';
-      case 'cs':
-        return 'csharp';
-      case 'c':
-        return 'c';
-      case 'cpp':
-      case 'cc':
-      case 'cxx':
-        return 'cpp';
-      case 'sh':
-      case 'bash':
-        return 'bash';
-      case 'yml':
-      case 'yaml':
-        return 'yaml';
-      case 'json':
-        return 'json';
-      case 'sql':
-        return 'sql';
-      default:
-        return undefined; // let hljs auto-detect
-    }
-  }
+  langOf = langOf;
 
   sortBy = signal<SortKey>('severity');
 
@@ -87,55 +64,114 @@ export class PipelinesComponent {
   };
 
   findings = computed(() => {
-    const list = this.store.byTool('harness')();
-
-    // helper to extract completion %
-    const percent = (msg?: string): number => {
-      const m = (msg || '').match(/([\d.]+)\s*%/);
-      return m ? Number(m[1]) : 0;
-    };
+    const list = this.store.byCategory('pipeline')();
+    const sort = this.sortBy();
+    const bySev = (a: Finding, b: Finding) =>
+      (this.sevRank[a.severity] ?? 9) - (this.sevRank[b.severity] ?? 9) ||
+      (a.ruleId || '').localeCompare(b.ruleId || '');
 
-    return [...list].sort((a, b) => percent(b.message) - percent(a.message));
+    return [...list].sort((a, b) => {
+      if (sort === 'rule')
+        return (a.ruleId || '').localeCompare(b.ruleId || '') || bySev(a, b);
+      if (sort === 'file')
+        return (
+          (a.location?.file || '').localeCompare(b.location?.file || '') ||
+          (a.location?.line ?? 0) - (b.location?.line ?? 0)
+        );
+      return bySev(a, b);
+    });
   });
 
   trackById = (_: number, f: Finding) => f.id;
+  trackByRun = (_: number, t: RunTimeline) => t.run.id;
+  badgeClass = badgeClass;
+
+  /* -----------------------------
+     Runs / stage timeline
+  --------------------------------*/
+  // newest execution first
+  timelines = computed(() =>
+    runsOf(this.findings())
+      .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''))
+      .map(runTimeline)
+  );
+
+  // pipeline smells (everything that isn't an execution summary)
+  issues = computed(() =>
+    this.findings().filter((f) => !(f as HarnessFinding).run)
+  );
+
+  // issues raised against a stage, keyed by stage id
+  private issuesByStage = computed(() => {
+    const m = new Map<string, number>();
+    for (const f of this.issues()) {
+      const stage = (f as HarnessFinding).stage;
+      if (stage) m.set(stage, (m.get(stage) ?? 0) + 1);
+    }
+    return m;
+  });
+  stageIssues = (s: PipelineStage) => this.issuesByStage().get(s.id) ?? 0;
+
+  private expanded = signal<ReadonlySet<string>>(new Set());
+  isExpanded = (run: PipelineRun, s: PipelineStage) =>
+    this.expanded().has(`${run.id}/${s.id}`);
+
+  toggleStage(run: PipelineRun, s: PipelineStage) {
+    if (!s.steps.length) return;
+    const key = `${run.id}/${s.id}`;
+    this.expanded.update((cur) => {
+      const next = new Set(cur);
+      next.has(key) ? next.delete(key) : next.add(key);
+      return next;
+    });
+  }
+
+  /* -----------------------------
+     Run history (every stored execution of the repo)
+  --------------------------------*/
+  stats = this.history.stats;
+  trendBars = trendBars;
+  trackByPipeline = (_: number, p: PipelineStats) => p.pipelineId;
+
+  // pipeline id / stage id → history stats, for the timeline tags
+  private stageStatsIndex = computed(() => {
+    const m = new Map<string, StageStats>();
+    for (const p of this.stats())
+      for (const s of p.stages) m.set(`${p.pipelineId}/${s.id}`, s);
+    return m;
+  });
+  stageStats = (run: PipelineRun, s: PipelineStage) =>
+    this.stageStatsIndex().get(`${run.pipelineId}/${s.id}`);
+
+  // regressions compare the newest execution, so only tag that one
+  private latestIds = computed(
+    () => new Set(this.stats().map((p) => p.history[p.history.length - 1]?.id))
+  );
+  isLatestRun = (run: PipelineRun) => this.latestIds().has(run.id);
+
+  // 1.8 → "+80%"
+  slowerBy = (ratio?: number) =>
+    ratio === undefined ? '' : `+${Math.round((ratio - 1) * 100)}%`;
+
+  formatDuration = formatDuration;
+  isFailure = isFailure;
+  statusLabel: Record<RunStatus, string> = {
+    success: 'Success',
+    failed: 'Failed',
+    running: 'Running',
+    queued: 'Queued',
+    aborted: 'Aborted',
+    skipped: 'Skipped',
+    ignore_failed: 'Ignore failed',
+    unknown: 'Unknown',
+  };
 
   onSortChange(ev: Event) {
     const value = (ev.target as HTMLSelectElement).value as SortKey;
     this.sortBy.set(value);
   }
 
-  badgeClass(sev: string): string {
-    switch (sev) {
-      case 'critical':
-        return 'badge badge--crit';
-      case 'high':
-        return 'badge badge--high';
-      case 'medium':
-        return 'badge badge--med';
-      case 'low':
-        return 'badge badge--low';
-      case 'info':
-        return 'badge badge--info';
-      default:
-        return 'badge';
-    }
-  }
-
-  askAiToFix(finding: any) {
-    const prompt = `
-    When replying, please use markdown formatting for headers, please start with heading-2
-    
-    Please analyze and fix the following vulnerability:
-    
-    Rule: ${finding.ruleId}
-    Severity: ${finding.severity}
-    Message: ${finding.message}
-    File: ${finding.location?.file}:${finding.location?.line}
-    Snippet:
-    ${finding.location?.snippet}
-    
-    Generate a secure code fix and explain the changes.`;
-    this.chat.sendToChat(prompt);
+  askAiToFix(finding: Finding) {
+    this.chat.sendToChat(fixPrompt(finding));
   }
 }
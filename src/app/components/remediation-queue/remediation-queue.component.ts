@@ -0,0 +1,107 @@
+import { Component, computed, inject, signal } from '@angular/core';
+
+import type { Finding, RemediationStatus } from '../../models/finding.model';
+import {
+  isDone,
+  REMEDIATION_STATUSES,
+  RemediationService,
+  statusOf,
+} from '../../services/remediation.service';
+
+@Component({
+  selector: 'app-remediation-queue',
+  templateUrl: './remediation-queue.component.html',
+  styleUrls: ['./remediation-queue.component.scss'],
+})
+export class RemediationQueueComponent {
+  private remediation = inject(RemediationService);
+
+  statuses = REMEDIATION_STATUSES;
+  statusOf = statusOf;
+  isDone = isDone;
+
+  showDone = signal(false);
+  selected = signal<Set<string>>(new Set());
+
+  // bulk action inputs
+  bulkAssignee = '';
+  bulkDue = '';
+
+  rows = computed(() => {
+    const all = this.remediation.queue();
+    return this.showDone() ? all : all.filter((q) => !isDone(q.finding));
+  });
+  openCount = computed(() => this.remediation.openCount());
+
+  allSelected = computed(
+    () =>
+      this.rows().length > 0 &&
+      this.rows().every((q) => this.selected().has(q.finding.id))
+  );
+
+  trackById = (_: number, q: { finding: Finding }) => q.finding.id;
+
+  toggle(id: string) {
+    this.selected.update((s) => {
+      const next = new Set(s);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  }
+
+  toggleAll() {
+    this.selected.set(
+      this.allSelected()
+        ? new Set()
+        : new Set(this.rows().map((q) => q.finding.id))
+    );
+  }
+
+  // --- per-row edits ---
+  onStatus(f: Finding, ev: Event) {
+    const v = (ev.target as HTMLSelectElement).value as RemediationStatus;
+    this.remediation.setStatus([f.id], v);
+  }
+
+  onAssignee(f: Finding, ev: Event) {
+    this.remediation.assign([f.id], (ev.target as HTMLInputElement).value);
+  }
+
+  onDue(f: Finding, ev: Event) {
+    this.remediation.setDueDate([f.id], (ev.target as HTMLInputElement).value);
+  }
+
+  // --- bulk actions over the selection ---
+  bulkStatus(ev: Event) {
+    const select = ev.target as HTMLSelectElement;
+    if (!select.value) return;
+    this.remediation.setStatus(this.selected(), select.value as RemediationStatus);
+    select.value = '';
+  }
+
+  applyBulkAssignee() {
+    this.remediation.assign(this.selected(), this.bulkAssignee);
+    this.bulkAssignee = '';
+  }
+
+  applyBulkDue() {
+    this.remediation.setDueDate(this.selected(), this.bulkDue);
+    this.bulkDue = '';
+  }
+
+  clearSelection() {
+    this.selected.set(new Set());
+  }
+
+  isOverdue(f: Finding): boolean {
+    return (
+      !!f.dueDate &&
+      !isDone(f) &&
+      f.dueDate < new Date().toISOString().slice(0, 10)
+    );
+  }
+
+  sevClass(sev: string): string {
+    return `sev sev--${sev}`;
+  }
+}
@@ -1,8 +1,71 @@
-import { Component } from '@angular/core';
+import { Component, computed, inject, signal, ViewEncapsulation } from '@angular/core';
+import { trigger, transition, style, animate } from '@angular/animations';
+
+import type { Severity } from '../../models/finding.model';
+import type { RuleEntry } from '../../models/rule.catalog';
+import { ruleKey } from '../../models/rule.policy';
+import { RuleCatalogService } from '../../services/rule-catalog.service';
+import { RulePolicyService } from '../../services/rule-policy.service';
+import { badgeClass } from '../../shared/finding-ui';
 
 @Component({
   selector: 'app-rules',
   templateUrl: './rules.component.html',
   styleUrls: ['./rules.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+  animations: [
+    trigger('popIn', [
+      transition(':enter', [
+        style({ opacity: 0 }),
+        animate('1s cubic-bezier(0.22, 1, 0.36, 1)', style({ opacity: 1 })),
+      ]),
+    ]),
+  ],
 })
-export class RulesComponent {}
+export class RulesComponent {
+  private catalog = inject(RuleCatalogService);
+  private rulePolicy = inject(RulePolicyService);
+
+  query = signal('');
+
+  rules = computed(() => {
+    const q = this.query().trim().toLowerCase();
+    const all = this.catalog.catalog();
+    if (!q) return all;
+    return all.filter((r) =>
+      [r.ruleId, r.title, r.driver, ...r.cwe, ...r.owasp]
+        .filter(Boolean)
+        .some((v) => v!.toLowerCase().includes(q))
+    );
+  });
+
+  severities: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+  maxFiles = 10;
+
+  trackById = (_: number, r: RuleEntry) => r.key;
+  badgeClass = badgeClass;
+
+  overrideOf(rule: RuleEntry) {
+    return this.rulePolicy.policy()[ruleKey(rule)];
+  }
+
+  onSearch(ev: Event) {
+    this.query.set((ev.target as HTMLInputElement).value);
+  }
+
+  toggleDisabled(rule: RuleEntry, ev: Event) {
+    const disabled = (ev.target as HTMLInputElement).checked;
+    this.rulePolicy.set(rule, { disabled });
+  }
+
+  onSeverityChange(rule: RuleEntry, ev: Event) {
+    const value = (ev.target as HTMLSelectElement).value;
+    this.rulePolicy.set(rule, {
+      severity: value ? (value as Severity) : undefined,
+    });
+  }
+
+  reset(rule: RuleEntry) {
+    this.rulePolicy.clear(rule);
+  }
+}
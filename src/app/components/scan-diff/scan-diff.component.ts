@@ -0,0 +1,101 @@
+import {
+  Component,
+  computed,
+  effect,
+  inject,
+  signal,
+  ViewEncapsulation,
+} from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { trigger, transition, style, animate } from '@angular/animations';
+
+import type { Finding } from '../../models/finding.model';
+import type { FindingDiff } from '../../models/finding.diff';
+import { FindingsService } from '../../services/findings.service';
+import { ScanDiffService } from '../../services/scan-diff.service';
+import { badgeClass } from '../../shared/finding-ui';
+
+type DiffTab = 'added' | 'fixed' | 'unchanged';
+
+@Component({
+  selector: 'app-scan-diff',
+  templateUrl: './scan-diff.component.html',
+  styleUrls: ['./scan-diff.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+  animations: [
+    trigger('popIn', [
+      transition(':enter', [
+        style({ opacity: 0 }),
+        animate('1s cubic-bezier(0.22, 1, 0.36, 1)', style({ opacity: 1 })),
+      ]),
+    ]),
+  ],
+})
+export class ScanDiffComponent {
+  private store = inject(FindingsService);
+  private diff = inject(ScanDiffService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+
+  private params = toSignal(this.route.queryParamMap);
+
+  // sessions of the active repo we can pick from
+  sessions = computed(() => {
+    const active = this.store.activeSession();
+    return active ? this.diff.sessionsFor(active.repo) : [];
+  });
+
+  // head defaults to the active session, base to the scan before head
+  headId = computed(
+    () => this.params()?.get('head') || this.store.activeSession()?.id || ''
+  );
+  baseId = computed(() => {
+    const fromUrl = this.params()?.get('base');
+    if (fromUrl) return fromUrl;
+    const head = this.sessions().find((s) => s.id === this.headId());
+    return (head && this.diff.previousOf(head)?.id) || '';
+  });
+
+  result = signal<FindingDiff | null>(null);
+  tab = signal<DiffTab>('added');
+
+  constructor() {
+    effect(
+      () => {
+        const base = this.baseId();
+        const head = this.headId();
+        this.result.set(null);
+        if (!base || !head || base === head) return;
+        this.diff
+          .compare(base, head)
+          .then((r) => {
+            // ignore stale answers if the selection moved on meanwhile
+            if (this.baseId() === base && this.headId() === head)
+              this.result.set(r);
+          })
+          .catch((e) => console.error('❌ Scan comparison failed:', e));
+      },
+      { allowSignalWrites: true }
+    );
+  }
+
+  rows = computed<Finding[]>(() => {
+    const r = this.result();
+    if (!r) return [];
+    const t = this.tab();
+    return t === 'unchanged' ? r.unchanged.map((u) => u.after) : r[t];
+  });
+
+  trackById = (_: number, f: Finding) => f.id;
+  badgeClass = badgeClass;
+
+  select(which: 'base' | 'head', ev: Event) {
+    const value = (ev.target as HTMLSelectElement).value;
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { [which]: value },
+      queryParamsHandling: 'merge',
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { Component, inject } from '@angular/core';
+
+import type { Severity } from '../../models/finding.model';
+import {
+  describeSeverityRule,
+  type SeverityRule,
+} from '../../models/severity.policy';
+import { SeverityPolicyService } from '../../services/severity-policy.service';
+
+interface RuleDraft {
+  rule: string;
+  path: string;
+  cwe: string;
+  tag: string;
+  action: string; // "shift:-1" | "shift:1" | "set:<severity>"
+}
+
+@Component({
+  selector: 'app-severity-policy',
+  templateUrl: './severity-policy.component.html',
+  styleUrls: ['./severity-policy.component.scss'],
+})
+export class SeverityPolicyComponent {
+  private policy = inject(SeverityPolicyService);
+
+  rules = this.policy.rules;
+  describe = describeSeverityRule;
+  severities: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+  draft: RuleDraft = this.emptyDraft();
+
+  trackById = (_: number, r: SeverityRule) => r.id;
+
+  canAdd(): boolean {
+    const d = this.draft;
+    return !!(d.rule.trim() || d.path.trim() || d.cwe.trim() || d.tag.trim());
+  }
+
+  add() {
+    if (!this.canAdd()) return;
+    const d = this.draft;
+    const [kind, value] = d.action.split(':');
+    this.policy.add({
+      rule: d.rule.trim() || undefined,
+      path: d.path.trim() || undefined,
+      cwe: d.cwe.trim() || undefined,
+      tag: d.tag.trim() || undefined,
+      set: kind === 'set' ? (value as Severity) : undefined,
+      shift: kind === 'shift' ? Number(value) : undefined,
+    });
+    this.draft = this.emptyDraft();
+  }
+
+  remove(r: SeverityRule) {
+    this.policy.remove(r.id);
+  }
+
+  move(r: SeverityRule, by: -1 | 1) {
+    this.policy.move(r.id, by);
+  }
+
+  private emptyDraft(): RuleDraft {
+    return { rule: '', path: '', cwe: '', tag: '', action: 'shift:-1' };
+  }
+}
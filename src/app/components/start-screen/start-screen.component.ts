@@ -1,8 +1,9 @@
 import { Component, DestroyRef, effect, inject, signal } from '@angular/core';
 import { FormBuilder, Validators } from '@angular/forms';
-import { ScanService } from '../../services/scan.service';
+import { ImportResult, ScanService } from '../../services/scan.service';
 import type { SarifLog, SarifResult } from '../../models/sarif.model';
 import { ToolKind } from '../../models/finding.model';
+import { isPipelineDefinition } from '../../models/pipeline.checks';
 
 type Phase = 'idle' | 'starting' | 'scanning' | 'completed' | 'error';
 
@@ -34,6 +35,11 @@ export class StartScreenComponent {
   toolName = signal<string>('Semgrep');
   errorText = signal<string>('');
 
+  // local file import (no Lambda endpoints needed)
+  dragging = signal(false);
+  importing = signal(false);
+  imported = signal<ImportResult[]>([]);
+
   form = this.fb.group({
     repoUrl: ['https://github.com/TransformerOptimus/SuperAGI', [Validators.required]], // no format validator
   });
@@ -127,6 +133,62 @@ export class StartScreenComponent {
     });
   }
 
+  onDragOver(ev: DragEvent) {
+    ev.preventDefault();
+    this.dragging.set(true);
+  }
+
+  onDragLeave(ev: DragEvent) {
+    ev.preventDefault();
+    this.dragging.set(false);
+  }
+
+  onDrop(ev: DragEvent) {
+    ev.preventDefault();
+    this.dragging.set(false);
+    this.importFiles(Array.from(ev.dataTransfer?.files ?? []));
+  }
+
+  onFilesPicked(ev: Event) {
+    const input = ev.target as HTMLInputElement;
+    this.importFiles(Array.from(input.files ?? []));
+    input.value = ''; // allow picking the same file again
+  }
+
+  /** Whole repo folder: keep only workflow / pipeline definitions */
+  onFolderPicked(ev: Event) {
+    const input = ev.target as HTMLInputElement;
+    const all = Array.from(input.files ?? []);
+    const files = all.filter((f) =>
+      isPipelineDefinition(f.webkitRelativePath.replace(/^[^/]+\//, ''))
+    );
+    input.value = '';
+    if (all.length && !files.length) {
+      const folder = all[0].webkitRelativePath.split('/')[0];
+      this.imported.set([
+        { file: folder, count: 0, error: 'No pipeline definitions found' },
+      ]);
+      return;
+    }
+    this.importFiles(files);
+  }
+
+  /** Route dropped/picked files through the matching adapters and open a session */
+  async importFiles(files: File[]) {
+    if (!files.length || this.importing()) return;
+    this.importing.set(true);
+    this.errorText.set('');
+    try {
+      const repo = canon(String(this.form.value.repoUrl || '')) || 'local';
+      this.imported.set(await this.scan.importFiles(files, repo));
+    } catch (e: any) {
+      this.phase.set('error');
+      this.errorText.set(`Import failed: ${e?.message || e}`);
+    } finally {
+      this.importing.set(false);
+    }
+  }
+
   private streamLogsAndFinish(taskId: string) {
     const sub = this.scan.streamLogs(taskId, 'semgrep').subscribe({
       next: (lines) => {
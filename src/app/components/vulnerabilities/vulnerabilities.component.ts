@@ -1,12 +1,48 @@
 import { Component, computed, inject, signal, ViewEncapsulation } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
 import { trigger, transition, style, animate } from '@angular/animations';
 
 import { FindingsService } from '../../services/findings.service';
-import type { Finding } from '../../models/finding.model';
+import {
+  isSuppressed,
+  type Finding,
+  type Severity,
+  type TriageState,
+} from '../../models/finding.model';
 import { ChatService } from '../../services/chat.service';
+import { langOf } from '../../shared/lang-of';
+import { badgeClass, fixPrompt } from '../../shared/finding-ui';
+import { ScanDiffService } from '../../services/scan-diff.service';
+import {
+  AiFacet,
+  applyFilter,
+  EMPTY_FILTER,
+  facetsOf,
+  FindingFilter,
+  filterFromParams,
+  filterToParams,
+  isFiltered,
+  ListFacet,
+  TriageFacet,
+} from '../../models/finding.filter';
+import {
+  FindingGroup,
+  GroupBy,
+  groupFindings,
+} from '../../models/finding.group';
 
 type SortKey = 'severity' | 'rule' | 'file';
 
+const TRIAGE_AUTHOR_KEY = 'aisec.triageAuthor';
+
+interface TriageDraft {
+  state: TriageState;
+  justification: string;
+  author: string;
+  expiresAt: string;
+}
+
 @Component({
   selector: 'app-vulnerabilities',
   templateUrl: './vulnerabilities.component.html',
@@ -24,52 +60,51 @@ type SortKey = 'severity' | 'rule' | 'file';
 export class VulnerabilitiesComponent {
   private store = inject(FindingsService);
   private chat = inject(ChatService);
+  private diff = inject(ScanDiffService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+
+  // filter + sort state lives in the URL so a filtered view can be shared
+  private params = toSignal(this.route.queryParamMap);
+  filter = computed(() =>
+    filterFromParams((k) => this.params()?.get(k) ?? null)
+  );
+  filtered = computed(() => isFiltered(this.filter()));
+
+  // every code finding, triaged or not (facets count over all of them)
+  private allCode = computed(() => this.store.byCategory('code', true)());
+  facets = computed(() => facetsOf(this.allCode()));
+  listFacets: Array<{ key: ListFacet; label: string }> = [
+    { key: 'severity', label: 'Severity' },
+    { key: 'rule', label: 'Rule' },
+    { key: 'cwe', label: 'CWE' },
+    { key: 'tag', label: 'Tag' },
+    { key: 'dir', label: 'Directory' },
+  ];
+
+  // "new since last scan" only makes sense once a previous scan is stored
+  hasPrevious = computed(() => !!this.diff.previous());
+  isNew = (f: Finding) => this.diff.newIds().has(f.id);
 
-  langOf(file?: string | null): string | undefined {
-    const ext = (file || '').split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'py':
-        return 'python';
-      case 'ts':
-        return 'typescript';
-      case 'js':
-        return 'javascript';
-      case 'tsx':
-        return 'tsx';
-      case 'jsx':
-        return 'jsx';
-      case 'go':
-        return 'go';
-      case 'rs':
-        return 'rust';
-      case 'rb':
-        return 'ruby';
-      case 'java':
-        return 'java';
-      case 'cs':
-        return 'csharp';
-      case 'c':
-        return 'c';
-      case 'cpp':
-      case 'cc':
-      case 'cxx':
-        return 'cpp';
-      case 'sh':
-      case 'bash':
-        return 'bash';
-      case 'yml':
-      case 'yaml':
-        return 'yaml';
-      case 'json':
-        return 'json';
-      case 'sql':
-        return 'sql';
-      default:
-        return undefined; // let hljs auto-detect
-    }
-  }
-
-  sortBy = signal<SortKey>('severity');
+  // triage (suppressed / false positive / accepted risk)
+  suppressedCount = computed(
+    () => this.allCode().length - this.store.byCategory('code')().length
+  );
+  isSuppressed = isSuppressed;
+  triageStates: Array<{ value: TriageState; label: string }> = [
+    { value: 'false_positive', label: 'False positive' },
+    { value: 'accepted_risk', label: 'Accepted risk' },
+    { value: 'suppressed', label: 'Suppressed' },
+  ];
+  triaging = signal<string | null>(null); // id of the finding being triaged
+  draft: TriageDraft = this.emptyDraft();
+
+  langOf = langOf;
+  badgeClass = badgeClass;
+
+  sortBy = computed<SortKey>(
+    () => (this.params()?.get('sort') as SortKey) || 'severity'
+  );
 
   private sevRank: Record<string, number> = {
     critical: 0,
@@ -81,7 +116,7 @@ export class VulnerabilitiesComponent {
   };
 
   findings = computed(() => {
-    const list = this.store.byTool('semgrep')();
+    const list = applyFilter(this.allCode(), this.filter());
     const sort = this.sortBy();
     const bySev = (a: Finding, b: Finding) =>
       (this.sevRank[a.severity] ?? 9) - (this.sevRank[b.severity] ?? 9) ||
@@ -98,44 +133,146 @@ export class VulnerabilitiesComponent {
     return copy;
   });
 
+  // group-by view (collapsible sections per rule / file / directory / CWE)
+  groupBy = computed<GroupBy>(
+    () => (this.params()?.get('group') as GroupBy) || 'none'
+  );
+  groups = computed(() => groupFindings(this.findings(), this.groupBy()));
+  severityOrder: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
   trackById = (_: number, f: Finding) => f.id;
+  trackByKey = (_: number, g: FindingGroup) => g.key;
+
+  onGroupChange(ev: Event) {
+    const value = (ev.target as HTMLSelectElement).value as GroupBy;
+    this.navigate({ group: value === 'none' ? null : value });
+  }
 
   onSortChange(ev: Event) {
     const value = (ev.target as HTMLSelectElement).value as SortKey;
-    this.sortBy.set(value);
-  }
-
-  badgeClass(sev: string): string {
-    switch (sev) {
-      case 'critical':
-        return 'badge badge--crit';
-      case 'high':
-        return 'badge badge--high';
-      case 'medium':
-        return 'badge badge--med';
-      case 'low':
-        return 'badge badge--low';
-      case 'info':
-        return 'badge badge--info';
-      default:
-        return 'badge';
-    }
-  }
-
-  askAiToFix(finding: any) {
+    this.navigate({ sort: value === 'severity' ? null : value });
+  }
+
+  /* -----------------------------
+     Filters (written to query params)
+  --------------------------------*/
+  private navigate(queryParams: Record<string, string | null>) {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+
+  private setFilter(patch: Partial<FindingFilter>) {
+    this.navigate(filterToParams({ ...this.filter(), ...patch }));
+  }
+
+  selected(key: ListFacet): string[] {
+    return this.filter()[key];
+  }
+
+  toggleFacet(key: ListFacet, value: string) {
+    const cur = this.selected(key);
+    const next = cur.includes(value)
+      ? cur.filter((v) => v !== value)
+      : [...cur, value];
+    this.setFilter({ [key]: next });
+  }
+
+  onSearch(ev: Event) {
+    this.setFilter({ q: (ev.target as HTMLInputElement).value });
+  }
+
+  onAiChange(ev: Event) {
+    this.setFilter({ ai: (ev.target as HTMLSelectElement).value as AiFacet });
+  }
+
+  onTriageChange(ev: Event) {
+    const value = (ev.target as HTMLSelectElement).value as TriageFacet;
+    this.setFilter({ triage: value });
+  }
+
+  clearFilters() {
+    this.navigate(filterToParams(EMPTY_FILTER));
+  }
+
+  private emptyDraft(): TriageDraft {
+    return {
+      state: 'false_positive',
+      justification: '',
+      author: localStorage.getItem(TRIAGE_AUTHOR_KEY) || '',
+      expiresAt: '',
+    };
+  }
+
+  startTriage(f: Finding) {
+    this.draft = this.emptyDraft();
+    this.triaging.set(f.id);
+  }
+
+  cancelTriage() {
+    this.triaging.set(null);
+  }
+
+  canSubmitTriage(): boolean {
+    return !!this.draft.justification.trim() && !!this.draft.author.trim();
+  }
+
+  submitTriage(f: Finding) {
+    if (!this.canSubmitTriage()) return;
+    const author = this.draft.author.trim();
+    localStorage.setItem(TRIAGE_AUTHOR_KEY, author);
+    this.store.triage([f.id], {
+      state: this.draft.state,
+      justification: this.draft.justification.trim(),
+      author,
+      createdAt: new Date().toISOString(),
+      expiresAt: this.draft.expiresAt || undefined,
+    });
+    this.triaging.set(null);
+  }
+
+  reopen(f: Finding) {
+    this.store.untriage([f.id]);
+  }
+
+  triageLabel(state: TriageState): string {
+    return this.triageStates.find((t) => t.value === state)?.label ?? state;
+  }
+
+  /** One prompt covering every occurrence in a group (e.g. all hits of a rule) */
+  askAiToFixGroup(group: FindingGroup) {
+    const max = 20;
+    const shown = group.findings.slice(0, max);
+    const occurrences = shown
+      .map(
+        (f, i) => `${i + 1}. [${f.severity}] ${f.ruleId} — ${f.location?.file}:${f.location?.line}
+${f.location?.snippet ?? ''}`
+      )
+      .join('\n\n');
+    const more =
+      group.findings.length > max
+        ? `\n\n(${group.findings.length - max} more occurrences not shown)`
+        : '';
+
     const prompt = `
 When replying, please use markdown formatting for headers, please start with heading-2
 
-Please analyze and fix the following vulnerability:
+Please analyze and fix all ${group.findings.length} occurrences of the following vulnerability group:
+
+Group: ${group.label}
+Message: ${group.findings[0]?.message}
 
-Rule: ${finding.ruleId}
-Severity: ${finding.severity}
-Message: ${finding.message}
-File: ${finding.location?.file}:${finding.location?.line}
-Snippet:
-${finding.location?.snippet}
+Occurrences:
+${occurrences}${more}
 
-Generate a secure code fix and explain the changes.`;
+Generate one consistent secure fix pattern, then show the change for each occurrence.`;
     this.chat.sendToChat(prompt);
   }
+
+  askAiToFix(finding: Finding) {
+    this.chat.sendToChat(fixPrompt(finding));
+  }
 }
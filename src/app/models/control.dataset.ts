@@ -0,0 +1,306 @@
+/**
+ * Bundled CWE / rule tag → framework control mapping.
+ * Bump CONTROL_MAP_VERSION whenever an entry changes; ingestion stamps it on
+ * every finding, and findings stamped with an older version are re-mapped.
+ */
+export const CONTROL_MAP_VERSION = '2025.11';
+
+export type FrameworkKey =
+  | 'soc2'
+  | 'iso27001'
+  | 'nist80053'
+  | 'pcidss'
+  | 'owasptop10'
+  | 'owaspllm';
+
+export interface FrameworkInfo {
+  key: FrameworkKey;
+  name: string;
+  aliases: string[]; // normalized (lowercase alphanumerics) names that identify it
+}
+
+// most specific first: frameworkOf() takes the first alias contained in a name
+export const FRAMEWORKS: FrameworkInfo[] = [
+  {
+    key: 'owaspllm',
+    name: 'OWASP Top 10 for LLM Applications v1.1',
+    aliases: ['owaspllm', 'llmtop10', 'top10forllm'],
+  },
+  { key: 'owasptop10', name: 'OWASP Top 10:2021', aliases: ['owasptop10'] },
+  { key: 'soc2', name: 'SOC 2', aliases: ['soc2'] },
+  { key: 'iso27001', name: 'ISO/IEC 27001:2022', aliases: ['iso27001'] },
+  {
+    key: 'nist80053',
+    name: 'NIST SP 800-53 Rev. 5',
+    aliases: ['nist80053', 'sp80053'],
+  },
+  { key: 'pcidss', name: 'PCI DSS v4.0.1', aliases: ['pcidss'] },
+];
+
+export const CONTROL_TITLES: Record<FrameworkKey, Record<string, string>> = {
+  soc2: {
+    'CC6.1': 'Logical access security',
+    'CC6.6': 'Protection against threats from outside system boundaries',
+    'CC6.7': 'Restricted transmission of information',
+    'CC6.8': 'Prevention of unauthorized or malicious software',
+    'CC7.1': 'Vulnerability detection and monitoring',
+    'CC7.2': 'Monitoring of system components for anomalies',
+    'CC8.1': 'Change management',
+    'A1.1': 'Capacity management',
+  },
+  iso27001: {
+    'A.5.17': 'Authentication information',
+    'A.8.3': 'Information access restriction',
+    'A.8.5': 'Secure authentication',
+    'A.8.6': 'Capacity management',
+    'A.8.8': 'Management of technical vulnerabilities',
+    'A.8.9': 'Configuration management',
+    'A.8.15': 'Logging',
+    'A.8.20': 'Networks security',
+    'A.8.24': 'Use of cryptography',
+    'A.8.28': 'Secure coding',
+    'A.8.32': 'Change management',
+  },
+  nist80053: {
+    'AC-3': 'Access enforcement',
+    'AU-2': 'Event logging',
+    'CM-3': 'Configuration change control',
+    'CM-6': 'Configuration settings',
+    'IA-2': 'Identification and authentication',
+    'IA-5': 'Authenticator management',
+    'RA-5': 'Vulnerability monitoring and scanning',
+    'SC-5': 'Denial-of-service protection',
+    'SC-7': 'Boundary protection',
+    'SC-8': 'Transmission confidentiality and integrity',
+    'SC-13': 'Cryptographic protection',
+    'SI-7': 'Software, firmware, and information integrity',
+    'SI-10': 'Information input validation',
+    'SI-15': 'Information output filtering',
+  },
+  pcidss: {
+    '2.2.1': 'Configuration standards are developed and applied',
+    '3.5.1': 'Stored account data is rendered unreadable',
+    '4.2.1': 'Strong cryptography protects data in transit',
+    '6.2.4': 'Software engineering techniques prevent common attacks',
+    '6.3.3': 'Known vulnerabilities are patched',
+    '6.5.1': 'Changes follow change control procedures',
+    '7.2.1': 'Access control model is defined',
+    '8.3.1': 'User access is authenticated',
+    '8.6.2': 'Passwords are not hard-coded',
+    '10.2.1': 'Audit logs are enabled',
+  },
+  owasptop10: {
+    A01: 'Broken Access Control',
+    A02: 'Cryptographic Failures',
+    A03: 'Injection',
+    A04: 'Insecure Design',
+    A05: 'Security Misconfiguration',
+    A06: 'Vulnerable and Outdated Components',
+    A07: 'Identification and Authentication Failures',
+    A08: 'Software and Data Integrity Failures',
+    A09: 'Security Logging and Monitoring Failures',
+    A10: 'Server-Side Request Forgery',
+  },
+  // v1.1 numbering, which the agent-security rule pack tags with
+  owaspllm: {
+    LLM01: 'Prompt Injection',
+    LLM02: 'Insecure Output Handling',
+    LLM03: 'Training Data Poisoning',
+    LLM04: 'Model Denial of Service',
+    LLM05: 'Supply Chain Vulnerabilities',
+    LLM06: 'Sensitive Information Disclosure',
+    LLM07: 'Insecure Plugin Design',
+    LLM08: 'Excessive Agency',
+    LLM09: 'Overreliance',
+    LLM10: 'Model Theft',
+  },
+};
+
+/** Findings matching any CWE, tag or rule pattern affect every listed control */
+export interface ControlMapping {
+  cwe?: number[];
+  tag?: RegExp; // tested against each tag
+  rule?: RegExp; // tested against ruleId, for rules that carry no CWE
+  controls: Partial<Record<FrameworkKey, string[]>>;
+}
+
+export const CONTROL_MAP: ControlMapping[] = [
+  // injection
+  {
+    cwe: [74, 77, 78, 79, 80, 89, 90, 94, 95, 917, 943],
+    tag: /\binjection\b|\bxss\b/i,
+    rule: /sql|inject|xss|shell|exec|command|eval/i,
+    controls: {
+      soc2: ['CC7.1'],
+      iso27001: ['A.8.28'],
+      nist80053: ['SI-10'],
+      pcidss: ['6.2.4'],
+      owasptop10: ['A03'],
+    },
+  },
+  // broken access control, path traversal, CSRF, open redirect
+  {
+    cwe: [22, 23, 35, 59, 200, 284, 285, 352, 601, 639, 862, 863],
+    tag: /access[\s-]control|path[\s-]traversal|csrf/i,
+    controls: {
+      soc2: ['CC6.1'],
+      iso27001: ['A.8.3'],
+      nist80053: ['AC-3'],
+      pcidss: ['7.2.1'],
+      owasptop10: ['A01'],
+    },
+  },
+  // server-side request forgery
+  {
+    cwe: [918],
+    tag: /\bssrf\b/i,
+    rule: /ssrf/i,
+    controls: {
+      soc2: ['CC6.6'],
+      iso27001: ['A.8.20'],
+      nist80053: ['SC-7'],
+      pcidss: ['6.2.4'],
+      owasptop10: ['A10'],
+    },
+  },
+  // cleartext transmission
+  {
+    cwe: [319, 523, 757],
+    tag: /cleartext|plaintext[\s-]transmission/i,
+    rule: /insecure[-_.]?(transport|http)|no[-_.]?tls|ssl[-_.]?verify/i,
+    controls: {
+      soc2: ['CC6.7'],
+      iso27001: ['A.8.24'],
+      nist80053: ['SC-8'],
+      pcidss: ['4.2.1'],
+      owasptop10: ['A02'],
+    },
+  },
+  // weak cryptography and hashing
+  {
+    cwe: [261, 310, 326, 327, 328, 329, 330, 338, 759, 760, 916],
+    tag: /crypto/i,
+    rule: /md5|sha1|weak[-_.]?hash|crypto|cipher/i,
+    controls: {
+      soc2: ['CC6.1'],
+      iso27001: ['A.8.24'],
+      nist80053: ['SC-13'],
+      pcidss: ['3.5.1'],
+      owasptop10: ['A02'],
+    },
+  },
+  // hard-coded secrets and credentials
+  {
+    cwe: [259, 321, 522, 798],
+    tag: /secret|credential/i,
+    rule: /secret|password|credential|api[-_.]?key/i,
+    controls: {
+      soc2: ['CC6.1'],
+      iso27001: ['A.5.17'],
+      nist80053: ['IA-5'],
+      pcidss: ['8.6.2'],
+      owasptop10: ['A07'],
+    },
+  },
+  // broken authentication and session handling
+  {
+    cwe: [287, 288, 290, 294, 306, 307, 384, 613, 620, 640],
+    tag: /authentication/i,
+    controls: {
+      soc2: ['CC6.1'],
+      iso27001: ['A.8.5'],
+      nist80053: ['IA-2'],
+      pcidss: ['8.3.1'],
+      owasptop10: ['A07'],
+    },
+  },
+  // insecure deserialization and integrity
+  {
+    cwe: [345, 353, 494, 502, 829, 830, 915],
+    tag: /deserializ|integrity/i,
+    rule: /deserializ|pickle|yaml[-_.]?load/i,
+    controls: {
+      soc2: ['CC6.8'],
+      iso27001: ['A.8.28'],
+      nist80053: ['SI-7'],
+      pcidss: ['6.2.4'],
+      owasptop10: ['A08'],
+    },
+  },
+  // security misconfiguration
+  {
+    cwe: [16, 260, 315, 520, 526, 547, 611, 614, 942, 1004, 1021],
+    tag: /misconfig/i,
+    controls: {
+      soc2: ['CC7.1'],
+      iso27001: ['A.8.9'],
+      nist80053: ['CM-6'],
+      pcidss: ['2.2.1'],
+      owasptop10: ['A05'],
+    },
+  },
+  // vulnerable dependencies
+  {
+    cwe: [937, 1035, 1104],
+    tag: /vulnerable[\s-]dependenc|outdated[\s-]component|\bsca\b/i,
+    controls: {
+      soc2: ['CC7.1'],
+      iso27001: ['A.8.8'],
+      nist80053: ['RA-5'],
+      pcidss: ['6.3.3'],
+      owasptop10: ['A06'],
+    },
+  },
+  // logging failures and log injection
+  {
+    cwe: [117, 223, 532, 778],
+    tag: /logging/i,
+    controls: {
+      soc2: ['CC7.2'],
+      iso27001: ['A.8.15'],
+      nist80053: ['AU-2'],
+      pcidss: ['10.2.1'],
+      owasptop10: ['A09'],
+    },
+  },
+  // resource exhaustion (unbounded loops, agent runaway – Agentic T4)
+  {
+    cwe: [400, 674, 770, 835, 1333],
+    tag: /agentic[\s-]*t4\b|denial[\s-]of[\s-]service/i,
+    rule: /unbounded|dos\b|rate[-_.]?limit/i,
+    controls: {
+      soc2: ['A1.1'],
+      iso27001: ['A.8.6'],
+      nist80053: ['SC-5'],
+      owaspllm: ['LLM04'],
+    },
+  },
+  // LLM output reaching interpreters / shells
+  {
+    rule: /llm.*(output|shell|exec|eval|sql)/i,
+    controls: {
+      nist80053: ['SI-15'],
+      owaspllm: ['LLM02'],
+    },
+  },
+  // prompt injection
+  {
+    tag: /prompt[\s-]injection/i,
+    rule: /prompt[-_.]?injection/i,
+    controls: {
+      nist80053: ['SI-10'],
+      owaspllm: ['LLM01'],
+    },
+  },
+  // CI/CD pipeline hygiene
+  {
+    rule: /^(HARNESS-CI|GHA|GITLAB-CI)-/,
+    controls: {
+      soc2: ['CC8.1'],
+      iso27001: ['A.8.32'],
+      nist80053: ['CM-3'],
+      pcidss: ['6.5.1'],
+      owasptop10: ['A08'],
+    },
+  },
+];
@@ -0,0 +1,92 @@
+import type { VantaControl } from './finding.model';
+import {
+  controlsOf,
+  findingControls,
+  findingsForControl,
+  findingsForFramework,
+  frameworkOf,
+  withControls,
+} from './control.mapping';
+import { CONTROL_MAP_VERSION } from './control.dataset';
+import { finding } from '../../testing/finding.fixture';
+
+const refs = (list: Array<{ framework: string; control: string }>) =>
+  list.map((r) => `${r.framework}:${r.control}`);
+
+describe('frameworkOf', () => {
+  it('recognizes frameworks by id, rule or title', () => {
+    const of = (title: string) =>
+      frameworkOf(finding({ tool: 'vanta', ruleId: 'x', title }))?.key;
+    expect(of('SOC 2')).toBe('soc2');
+    expect(of('ISO 27001:2022')).toBe('iso27001');
+    expect(of('NIST SP 800-53')).toBe('nist80053');
+    expect(of('OWASP Top 10 for LLM Applications')).toBe('owaspllm');
+    expect(of('OWASP Top 10:2021')).toBe('owasptop10');
+    expect(of('Internal policy')).toBeUndefined();
+  });
+});
+
+describe('controlsOf', () => {
+  it('maps a CWE to every framework it affects', () => {
+    const list = refs(controlsOf(finding({ cwe: ['CWE-89'] })));
+    expect(list).toContain('soc2:CC7.1');
+    expect(list).toContain('iso27001:A.8.28');
+    expect(list).toContain('owasptop10:A03');
+  });
+
+  it('maps rules without a CWE by their id', () => {
+    const list = refs(
+      controlsOf(
+        finding({ tool: 'harness', ruleId: 'HARNESS-CI-PLAINTEXT-SECRET' })
+      )
+    );
+    expect(list).toContain('soc2:CC8.1');
+  });
+
+  it('takes OWASP categories straight from tags', () => {
+    const list = refs(
+      controlsOf(finding({ ruleId: 'x', tags: ['OWASP LLM06'] }))
+    );
+    expect(list).toEqual(['owaspllm:LLM06']);
+  });
+
+  it('leaves compliance findings and unmatched rules unmapped', () => {
+    expect(controlsOf(finding({ tool: 'vanta', ruleId: 'sql' }))).toEqual([]);
+    expect(controlsOf(finding({ ruleId: 'style.naming' }))).toEqual([]);
+  });
+});
+
+describe('withControls / findingControls', () => {
+  it('stamps controls once and re-maps findings of an older dataset', () => {
+    const [stamped] = withControls([finding({ cwe: ['CWE-89'] })]);
+    expect(stamped.mappingVersion).toBe(CONTROL_MAP_VERSION);
+    expect(findingControls(stamped)).toBe(stamped.mappedControls!);
+
+    const stale = { ...stamped, mappingVersion: 'old', mappedControls: [] };
+    expect(refs(findingControls(stale))).toContain('soc2:CC7.1');
+  });
+});
+
+describe('findingsForFramework / findingsForControl', () => {
+  const soc2 = finding({ tool: 'vanta', ruleId: 'SOC2', title: 'SOC 2' });
+  const sqli = finding({ cwe: ['CWE-89'] });
+  const other = finding({ ruleId: 'style.naming' });
+  const control = (id: string) =>
+    ({ id, name: id, status: 'failing' }) as VantaControl;
+
+  it('links findings to a Vanta control of the framework', () => {
+    const impact = findingsForFramework(soc2, [sqli, other]);
+    expect(findingsForControl(impact, control('CC7.1'))).toEqual([sqli]);
+    expect(findingsForControl(impact, control('cc 7.1'))).toEqual([sqli]);
+    expect(findingsForControl(impact, control('CC6.1'))).toEqual([]);
+  });
+
+  it('links nothing to an unknown framework', () => {
+    const custom = finding({
+      tool: 'vanta',
+      ruleId: 'policy',
+      title: 'Policy',
+    });
+    expect(findingsForFramework(custom, [sqli]).size).toBe(0);
+  });
+});
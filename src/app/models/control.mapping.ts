@@ -0,0 +1,116 @@
+import {
+  categoryOf,
+  type ControlRef,
+  type Finding,
+  type VantaControl,
+  type VantaFinding,
+} from './finding.model';
+import { cweNumber, cweOf } from './finding.filter';
+import {
+  CONTROL_MAP,
+  CONTROL_MAP_VERSION,
+  CONTROL_TITLES,
+  FRAMEWORKS,
+  type FrameworkInfo,
+  type FrameworkKey,
+} from './control.dataset';
+
+const norm = (s?: string) => (s || '').toLowerCase().replace(/[^a-z0-9.]/g, '');
+
+/** Known framework for a compliance finding ("SOC 2", "ISO 27001:2022" …), if any */
+export function frameworkOf(f: Finding): FrameworkInfo | undefined {
+  const fw = f as VantaFinding;
+  const names = [fw.frameworkId, fw.ruleId, fw.title].map((s) =>
+    norm(s).replace(/\./g, '')
+  );
+  return FRAMEWORKS.find((info) =>
+    info.aliases.some((a) => names.some((n) => n.includes(a)))
+  );
+}
+
+export function frameworkKey(f: Finding): FrameworkKey | undefined {
+  return frameworkOf(f)?.key;
+}
+
+export function controlTitle(ref: ControlRef): string | undefined {
+  return CONTROL_TITLES[ref.framework as FrameworkKey]?.[ref.control];
+}
+
+export function frameworkName(key: string): string {
+  return FRAMEWORKS.find((f) => f.key === key)?.name ?? key;
+}
+
+// tags that name an OWASP category directly: "A03:2021 - Injection", "OWASP LLM02"
+function directRefs(tag: string): ControlRef[] {
+  const out: ControlRef[] = [];
+  const top10 = tag.match(/\bA(0[1-9]|10):2021\b/i);
+  if (top10) out.push({ framework: 'owasptop10', control: `A${top10[1]}` });
+  const llm = tag.match(/\bLLM(0[1-9]|10)\b/i);
+  if (llm) out.push({ framework: 'owaspllm', control: `LLM${llm[1]}` });
+  return out;
+}
+
+/** Controls a code / pipeline finding affects, per the bundled dataset */
+export function controlsOf(f: Finding): ControlRef[] {
+  if (categoryOf(f.tool) === 'compliance') return [];
+  const cwes = cweOf(f).map(cweNumber);
+  const tags = f.tags ?? [];
+
+  const out: ControlRef[] = [];
+  const push = (r: ControlRef) => {
+    if (!out.some((o) => o.framework === r.framework && o.control === r.control))
+      out.push(r);
+  };
+
+  for (const m of CONTROL_MAP) {
+    const hit =
+      (m.cwe && cwes.some((c) => c !== undefined && m.cwe!.includes(c))) ||
+      (m.tag && tags.some((t) => m.tag!.test(t))) ||
+      (m.rule && m.rule.test(f.ruleId));
+    if (!hit) continue;
+    for (const [framework, ids] of Object.entries(m.controls))
+      for (const control of ids ?? []) push({ framework, control });
+  }
+  for (const t of tags) directRefs(t).forEach(push);
+  return out;
+}
+
+/** Stamp every finding with its controls (run once at ingestion) */
+export function withControls<T extends Finding>(list: T[]): T[] {
+  return list.map((f) => ({
+    ...f,
+    mappedControls: controlsOf(f),
+    mappingVersion: CONTROL_MAP_VERSION,
+  }));
+}
+
+/** A finding's controls; sessions stored with an older dataset are re-mapped */
+export function findingControls(f: Finding): ControlRef[] {
+  return f.mappingVersion === CONTROL_MAP_VERSION && f.mappedControls
+    ? f.mappedControls
+    : controlsOf(f);
+}
+
+/** Code / pipeline findings impacting a framework, grouped by control id */
+export function findingsForFramework(
+  framework: Finding,
+  findings: Finding[]
+): Map<string, Finding[]> {
+  const out = new Map<string, Finding[]>();
+  const key = frameworkKey(framework);
+  if (!key) return out;
+  for (const f of findings)
+    for (const c of findingControls(f))
+      if (c.framework === key) out.set(c.control, [...(out.get(c.control) ?? []), f]);
+  return out;
+}
+
+/** Findings failing a Vanta control, looked up in a findingsForFramework() result */
+export function findingsForControl(
+  impact: Map<string, Finding[]>,
+  control: VantaControl
+): Finding[] {
+  const want = norm(control.id);
+  for (const [id, list] of impact) if (norm(id) === want) return list;
+  return [];
+}
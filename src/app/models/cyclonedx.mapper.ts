@@ -0,0 +1,174 @@
+import type { Finding } from './finding.model';
+import { withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import {
+  cvssBaseScore,
+  dependencyFinding,
+  fixesInRange,
+  nextFixed,
+  parsePurl,
+  type Cvss,
+  type PackageRef,
+  type VexAnalysis,
+  type VexState,
+} from './dependency.model';
+
+/** CycloneDX JSON: an SBOM (with or without vulnerabilities) or a VEX document */
+export function isCycloneDx(payload: any): boolean {
+  return payload?.bomFormat === 'CycloneDX';
+}
+
+// preferred rating methods, best first
+const RATING_ORDER = [
+  'CVSSv31',
+  'CVSSv3',
+  'CVSSv4',
+  'CVSSv2',
+  'OWASP',
+  'other',
+];
+
+function ratingOf(v: any): { severity?: string; cvss?: Cvss } {
+  const ratings: any[] = [...(v.ratings || [])].sort(
+    (a, b) => rank(a?.method) - rank(b?.method)
+  );
+  const r = ratings[0];
+  if (!r) return {};
+  const vector = r.vector || undefined;
+  const score =
+    typeof r.score === 'number'
+      ? r.score
+      : /^CVSSv3/.test(r.method)
+      ? cvssBaseScore(vector)
+      : undefined;
+  return {
+    severity: r.severity,
+    cvss: score !== undefined || vector ? { score, vector } : undefined,
+  };
+}
+
+const rank = (method?: string) => {
+  const i = RATING_ORDER.indexOf(method || 'other');
+  return i < 0 ? RATING_ORDER.length : i;
+};
+
+/** Every component by bom-ref, nested components included */
+function componentIndex(bom: any): Map<string, any> {
+  const out = new Map<string, any>();
+  const walk = (list: any[] = []) => {
+    for (const c of list) {
+      if (c?.['bom-ref']) out.set(c['bom-ref'], c);
+      walk(c?.components);
+    }
+  };
+  walk(bom.components);
+  if (bom.metadata?.component) walk([bom.metadata.component]);
+  return out;
+}
+
+/** Refs in a standalone VEX may be BOM-Links: urn:cdx:<serial>/<version>#<bom-ref> */
+const localRef = (ref: string) =>
+  decodeURIComponent(ref.replace(/^urn:cdx:[^#]*#/, ''));
+
+function packageOf(ref: string, components: Map<string, any>): PackageRef {
+  const id = localRef(ref);
+  const c = components.get(id);
+  const fromPurl = parsePurl(c?.purl || id);
+  return {
+    name:
+      fromPurl?.name ?? (c ? [c.group, c.name].filter(Boolean).join('/') : id),
+    ecosystem: fromPurl?.ecosystem,
+    version: c?.version || fromPurl?.version,
+    purl: c?.purl || fromPurl?.purl,
+  };
+}
+
+// "Upgrade lodash to version 4.17.21", "Update to 2.0.1 or later"
+const RECOMMENDED =
+  /\b(?:upgrade|update|bump)\b[^0-9]*?\bv?(\d+(?:\.[\w-]+)+)/i;
+
+function analysisOf(v: any): VexAnalysis | undefined {
+  const a = v.analysis;
+  if (!a?.state) return undefined;
+  return {
+    state: a.state as VexState,
+    justification: a.justification || undefined,
+    response: a.response?.length ? a.response : undefined,
+    detail: a.detail || undefined,
+  };
+}
+
+/**
+ * CycloneDX BOM → one finding per (affected component, vulnerability).
+ * VEX analysis travels with the finding; `not_affected` and `false_positive`
+ * come in already triaged so they stay out of the open list.
+ */
+export function mapCycloneDxToFindings(
+  bom: any,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  if (!isCycloneDx(bom)) return [];
+  const createdAt = ctx?.createdAt ?? new Date().toISOString();
+  const components = componentIndex(bom);
+  const file = bom.metadata?.component?.name || undefined;
+  const driver = bom.vulnerabilities?.some((v: any) => v?.analysis)
+    ? 'CycloneDX VEX'
+    : 'CycloneDX';
+  const out: Finding[] = [];
+
+  for (const v of bom.vulnerabilities || []) {
+    if (!v?.id) continue;
+    const { severity, cvss } = ratingOf(v);
+    const aliases = (v.references || []).map((r: any) => r?.id).filter(Boolean);
+    const url =
+      v.source?.url || v.advisories?.find((a: any) => a?.url)?.url || undefined;
+
+    for (const affect of v.affects || []) {
+      if (!affect?.ref) continue;
+      const pkg = packageOf(affect.ref, components);
+      const versions: any[] = affect.versions || [];
+      // listed as unaffected for the installed version: nothing to report
+      if (
+        pkg.version &&
+        versions.some(
+          (x) => x.version === pkg.version && x.status === 'unaffected'
+        )
+      )
+        continue;
+
+      const range = versions.find((x) => x.range)?.range;
+      const fixes = [
+        ...fixesInRange(range?.replace(/^vers:[^/]+\//, '')),
+        ...versions
+          .filter((x) => x.status === 'unaffected' && x.version)
+          .map((x) => x.version),
+      ];
+      const recommended = String(v.recommendation || '').match(
+        RECOMMENDED
+      )?.[1];
+
+      out.push(
+        dependencyFinding(
+          'cyclonedx',
+          driver,
+          pkg,
+          {
+            id: v.id,
+            aliases,
+            summary: v.description?.split('\n')[0] || undefined,
+            details: v.detail || v.description || undefined,
+            url,
+            severity,
+            cvss,
+            cwe: (v.cwes || []).map((n: number) => `CWE-${n}`),
+            affectedRange: range,
+            fixedVersion: nextFixed(fixes, pkg.version) ?? recommended,
+            vex: analysisOf(v),
+          },
+          { file, createdAt }
+        )
+      );
+    }
+  }
+  return withStableIds(applyRulePolicy(out, ctx?.rules));
+}
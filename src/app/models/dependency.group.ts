@@ -0,0 +1,173 @@
+import {
+  isSuppressed,
+  type DependencyFinding,
+  type Finding,
+  type Severity,
+} from './finding.model';
+import {
+  compareVersions,
+  majorOf,
+  type FixVia,
+  type PackageRef,
+} from './dependency.model';
+
+export interface UpgradePath {
+  to?: string; // lowest version fixing every vulnerability that has a fix
+  via?: FixVia; // direct dependency to bump when the package is transitive
+  major: boolean; // the upgrade crosses a major version
+  unfixed: string[]; // vulnerability ids without a released fix
+}
+
+export interface PackageGroup {
+  key: string;
+  package: PackageRef;
+  findings: DependencyFinding[]; // one per vulnerability, worst first
+  suppressed: number; // not affected per VEX, or triaged away
+  severity: Severity; // worst
+  maxCvss?: number;
+  direct?: boolean;
+  upgrade: UpgradePath;
+  scanners: string[];
+}
+
+const SEV_RANK: Record<Severity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+  unknown: 5,
+};
+
+export const isDependencyFinding = (f: Finding): f is DependencyFinding =>
+  'vulnId' in f && 'package' in f;
+
+const idsOf = (f: DependencyFinding) => [f.vulnId, ...(f.aliases ?? [])];
+
+const byRisk = (a: DependencyFinding, b: DependencyFinding) =>
+  SEV_RANK[a.severity] - SEV_RANK[b.severity] ||
+  (b.cvss?.score ?? 0) - (a.cvss?.score ?? 0) ||
+  a.vulnId.localeCompare(b.vulnId);
+
+/**
+ * The same issue reported by several scanners (or as GHSA by one and CVE by
+ * another) collapses into one entry; gaps are filled from the duplicates and
+ * a VEX analysis always survives.
+ */
+function dedupe(list: DependencyFinding[]): DependencyFinding[] {
+  const out: DependencyFinding[] = [];
+  for (const f of [...list].sort(byRisk)) {
+    const ids = idsOf(f);
+    const i = out.findIndex((o) => idsOf(o).some((id) => ids.includes(id)));
+    if (i < 0) {
+      out.push(f);
+      continue;
+    }
+    const o = out[i];
+    out[i] = {
+      ...o,
+      aliases: [...new Set([...idsOf(o), ...ids])].filter(
+        (id) => id !== o.vulnId
+      ),
+      cvss: o.cvss?.score !== undefined ? o.cvss : (f.cvss ?? o.cvss),
+      cwe: o.cwe ?? f.cwe,
+      fixedVersion: o.fixedVersion ?? f.fixedVersion,
+      fixVia: o.fixVia ?? f.fixVia,
+      vex: o.vex ?? f.vex,
+      triage: o.triage ?? f.triage,
+    };
+  }
+  return out;
+}
+
+/** Highest fix, plus the direct dependency to bump when one was reported */
+export function upgradePath(
+  pkg: PackageRef,
+  findings: DependencyFinding[]
+): UpgradePath {
+  const fixes = findings
+    .map((f) => f.fixedVersion)
+    .filter((v): v is string => !!v)
+    .sort(compareVersions);
+  const to = fixes[fixes.length - 1];
+  const via = findings
+    .map((f) => f.fixVia)
+    .filter((v): v is FixVia => !!v)
+    .sort((a, b) => compareVersions(a.version, b.version))
+    .pop();
+  const installedMajor = majorOf(pkg.version);
+  return {
+    to,
+    via,
+    major:
+      !!via?.major ||
+      (installedMajor !== undefined && !!to && majorOf(to)! > installedMajor),
+    unfixed: findings
+      .filter((f) => !f.fixedVersion && !f.fixVia)
+      .map((f) => f.vulnId),
+  };
+}
+
+/**
+ * Dependency findings grouped by installed package, riskiest package first.
+ * Pass triaged findings too: a VEX `not_affected` from one scanner then also
+ * hides the same issue reported by the others. They are left out of the
+ * result (and of the upgrade path) unless `includeSuppressed` is set.
+ */
+export function groupByPackage(
+  findings: Finding[],
+  includeSuppressed = false
+): PackageGroup[] {
+  const groups = new Map<string, DependencyFinding[]>();
+  for (const f of findings) {
+    if (!isDependencyFinding(f)) continue;
+    const p = f.package;
+    const key = `${p.ecosystem ?? ''}:${p.name}@${p.version ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), f]);
+  }
+
+  // npm audit v2 has no installed version; fold it into the versioned group
+  for (const [key, list] of groups) {
+    if (!key.endsWith('@')) continue;
+    const versioned = [...groups.keys()].filter(
+      (k) => k !== key && k.startsWith(key)
+    );
+    if (versioned.length !== 1) continue;
+    groups.set(versioned[0], [...groups.get(versioned[0])!, ...list]);
+    groups.delete(key);
+  }
+
+  const out: PackageGroup[] = [];
+  for (const [key, list] of groups) {
+    const all = dedupe(list);
+    const unique = includeSuppressed
+      ? all
+      : all.filter((f) => !isSuppressed(f));
+    if (!unique.length) continue;
+    const pkg =
+      unique.find((f) => f.package.version)?.package ?? unique[0].package;
+    const scores = unique
+      .map((f) => f.cvss?.score)
+      .filter((s): s is number => s !== undefined);
+    const open = unique.filter((f) => !isSuppressed(f));
+    out.push({
+      key,
+      package: pkg,
+      findings: unique,
+      suppressed: all.length - open.length,
+      severity: (open[0] ?? unique[0]).severity,
+      maxCvss: scores.length ? Math.max(...scores) : undefined,
+      direct: list.some((f) => f.direct) || undefined,
+      upgrade: upgradePath(pkg, open),
+      scanners: [...new Set(list.map((f) => f.driver || f.tool))],
+    });
+  }
+
+  return out.sort(
+    (a, b) =>
+      SEV_RANK[a.severity] - SEV_RANK[b.severity] ||
+      (b.maxCvss ?? 0) - (a.maxCvss ?? 0) ||
+      b.findings.length - a.findings.length ||
+      a.package.name.localeCompare(b.package.name)
+  );
+}
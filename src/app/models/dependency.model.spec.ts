@@ -0,0 +1,100 @@
+import {
+  compareVersions,
+  cvssBaseScore,
+  dependencySeverity,
+  fixesInRange,
+  majorOf,
+  nextFixed,
+  parsePurl,
+} from './dependency.model';
+
+describe('compareVersions', () => {
+  it('orders numerically, part by part', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+    expect(compareVersions('v2.0', '2.0.0')).toBe(0);
+    expect(compareVersions('1.2.3.4', '1.2.3')).toBe(1);
+  });
+
+  it('puts prereleases before the release and ignores build metadata', () => {
+    expect(compareVersions('1.0.0-beta', '1.0.0')).toBe(-1);
+    expect(compareVersions('1.0.0-beta.2', '1.0.0-beta.10')).toBe(-1);
+    expect(compareVersions('1.0.0+build.5', '1.0.0')).toBe(0);
+  });
+
+  it('reads the major version', () => {
+    expect(majorOf('v4.17.21')).toBe(4);
+    expect(majorOf(undefined)).toBeUndefined();
+  });
+});
+
+describe('nextFixed / fixesInRange', () => {
+  it('picks the lowest fix above the installed version', () => {
+    expect(nextFixed(['3.1.0', '2.3.1'], '2.1.0')).toBe('2.3.1');
+    expect(nextFixed(['3.1.0', '2.3.1'], '3.0.0')).toBe('3.1.0');
+    expect(nextFixed(['2.3.1'], '2.3.1')).toBeUndefined();
+  });
+
+  it('picks the highest fix when the installed version is unknown', () => {
+    expect(nextFixed(['2.3.1', '3.1.0'])).toBe('3.1.0');
+  });
+
+  it('reads exclusive upper bounds only', () => {
+    expect(fixesInRange('>=2.0.0 <2.3.1 || >=3.0.0 <3.1.0')).toEqual([
+      '2.3.1',
+      '3.1.0',
+    ]);
+    expect(fixesInRange('<=4.17.20')).toEqual([]);
+    expect(fixesInRange(undefined)).toEqual([]);
+  });
+});
+
+describe('parsePurl', () => {
+  it('decodes scoped npm packages', () => {
+    expect(parsePurl('pkg:npm/%40angular/core@18.0.0?x=1')).toEqual({
+      name: '@angular/core',
+      ecosystem: 'npm',
+      version: '18.0.0',
+      purl: 'pkg:npm/%40angular/core@18.0.0?x=1',
+    });
+  });
+
+  it('joins Maven coordinates with a colon and maps ecosystems', () => {
+    const ref = parsePurl('pkg:maven/org.apache/log4j-core@2.14.1');
+    expect(ref?.name).toBe('org.apache:log4j-core');
+    expect(ref?.ecosystem).toBe('Maven');
+    expect(parsePurl('pkg:pypi/django')?.version).toBeUndefined();
+    expect(parsePurl('not a purl')).toBeUndefined();
+  });
+});
+
+describe('cvssBaseScore', () => {
+  it('scores CVSS 3.x vectors with or without the prefix', () => {
+    expect(cvssBaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBe(
+      9.8
+    );
+    expect(cvssBaseScore('AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H')).toBe(10);
+    expect(cvssBaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toBe(
+      6.1
+    );
+  });
+
+  it('scores no impact as 0', () => {
+    expect(cvssBaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N')).toBe(
+      0
+    );
+  });
+
+  it('gives up on other versions and incomplete vectors', () => {
+    expect(cvssBaseScore('CVSS:4.0/AV:N/AC:L')).toBeUndefined();
+    expect(cvssBaseScore('AV:N/AC:L')).toBeUndefined();
+    expect(cvssBaseScore(undefined)).toBeUndefined();
+  });
+});
+
+describe('dependencySeverity', () => {
+  it('prefers the reported severity over the CVSS band', () => {
+    expect(dependencySeverity('moderate', { score: 9.8 })).toBe('medium');
+    expect(dependencySeverity(undefined, { score: 9.8 })).toBe('critical');
+    expect(dependencySeverity(undefined, undefined)).toBe('unknown');
+  });
+});
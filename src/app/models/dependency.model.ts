@@ -0,0 +1,256 @@
+import type { DependencyFinding, Severity } from './finding.model';
+import { fromSecuritySeverity, toSeverity } from './sarif.mapper';
+
+// Installed package a vulnerability was reported against
+export interface PackageRef {
+  name: string;
+  ecosystem?: string; // OSV naming: npm, PyPI, Maven, Go, ...
+  version?: string; // installed version (npm audit v2 doesn't report it)
+  purl?: string;
+}
+
+export interface Cvss {
+  score?: number; // base score 0-10
+  vector?: string; // e.g. CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H
+}
+
+// CycloneDX VEX analysis states
+export type VexState =
+  | 'resolved'
+  | 'resolved_with_pedigree'
+  | 'exploitable'
+  | 'in_triage'
+  | 'false_positive'
+  | 'not_affected';
+
+export interface VexAnalysis {
+  state: VexState;
+  justification?: string; // e.g. code_not_reachable
+  response?: string[]; // e.g. will_not_fix, update
+  detail?: string;
+}
+
+// Direct dependency to bump when the vulnerable one is transitive (npm audit)
+export interface FixVia {
+  name: string;
+  version: string;
+  major?: boolean;
+}
+
+/* -----------------------------
+   Versions
+--------------------------------*/
+const parts = (v: string) => {
+  const [main, pre] = v.trim().replace(/^v/i, '').split('+')[0].split(/-(.*)/);
+  return { main: main.split('.'), pre };
+};
+
+const cmpPart = (a = '0', b = '0') =>
+  /^\d+$/.test(a) && /^\d+$/.test(b)
+    ? Number(a) - Number(b)
+    : a.localeCompare(b, undefined, { numeric: true });
+
+/** Semver-ish ordering that tolerates 4-part and non-numeric versions */
+export function compareVersions(a: string, b: string): number {
+  const x = parts(a);
+  const y = parts(b);
+  for (let i = 0; i < Math.max(x.main.length, y.main.length); i++) {
+    const c = cmpPart(x.main[i], y.main[i]);
+    if (c) return Math.sign(c);
+  }
+  // 1.0.0-beta < 1.0.0
+  if (x.pre === undefined || y.pre === undefined)
+    return x.pre === y.pre ? 0 : x.pre === undefined ? 1 : -1;
+  return Math.sign(cmpPart(x.pre, y.pre));
+}
+
+export const majorOf = (v?: string) =>
+  v ? Number(parts(v).main[0]) || 0 : undefined;
+
+/**
+ * Lowest fix above the installed version; the highest fix when the installed
+ * version is unknown (that one covers every affected range).
+ */
+export function nextFixed(
+  fixes: string[],
+  installed?: string
+): string | undefined {
+  const sorted = [...new Set(fixes)].sort(compareVersions);
+  if (!installed) return sorted[sorted.length - 1];
+  return sorted.find((f) => compareVersions(f, installed) > 0);
+}
+
+/** Exclusive upper bounds of a range: "<4.17.21", ">=2.0.0 <2.3.1 || >=3.0.0 <3.1.0" */
+export function fixesInRange(range?: string): string[] {
+  return [...(range || '').matchAll(/<(?!=)\s*v?([0-9][\w.+-]*)/g)].map(
+    (m) => m[1]
+  );
+}
+
+/** pkg:npm/%40scope/name@1.2.3?arch=x → { ecosystem, name, version } */
+export function parsePurl(purl?: string): PackageRef | undefined {
+  const m = (purl || '').match(/^pkg:([^/]+)\/([^@?#]+)(?:@([^?#]+))?/);
+  if (!m) return undefined;
+  const segments = m[2].split('/').map(decodeURIComponent);
+  const name = m[1] === 'maven' ? segments.join(':') : segments.join('/');
+  return {
+    name,
+    ecosystem: PURL_ECOSYSTEMS[m[1]] ?? m[1],
+    version: m[3] ? decodeURIComponent(m[3]) : undefined,
+    purl,
+  };
+}
+
+const PURL_ECOSYSTEMS: Record<string, string> = {
+  npm: 'npm',
+  pypi: 'PyPI',
+  maven: 'Maven',
+  golang: 'Go',
+  cargo: 'crates.io',
+  gem: 'RubyGems',
+  nuget: 'NuGet',
+  composer: 'Packagist',
+};
+
+/* -----------------------------
+   CVSS
+--------------------------------*/
+const CVSS3: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+// CVSS 3.1 "Roundup": smallest one-decimal number >= x
+function roundUp(x: number): number {
+  const i = Math.round(x * 100_000);
+  return i % 10_000 === 0 ? i / 100_000 : (Math.floor(i / 10_000) + 1) / 10;
+}
+
+/** Base score of a CVSS 3.x vector (with or without the CVSS:3.x/ prefix) */
+export function cvssBaseScore(vector?: string): number | undefined {
+  if (!vector || /^CVSS:(2|4)/.test(vector)) return undefined;
+  const m: Record<string, string> = {};
+  for (const part of vector.replace(/^CVSS:3\.\d\//, '').split('/')) {
+    const [k, v] = part.split(':');
+    m[k] = v;
+  }
+  const changed = m['S'] === 'C';
+  const pr = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[
+    m['PR']
+  ];
+  const [av, ac, ui, c, i, a] = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(
+    (k) => CVSS3[k][m[k]]
+  );
+  if ([pr, av, ac, ui, c, i, a].some((x) => x === undefined)) return undefined;
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed
+    ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15)
+    : 6.42 * iss;
+  if (impact <= 0) return 0;
+  const exploitability = 8.22 * av * ac * pr! * ui;
+  return roundUp(
+    Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10)
+  );
+}
+
+/** Scanner-reported severity wins; otherwise the CVSS band */
+export function dependencySeverity(reported?: string, cvss?: Cvss): Severity {
+  const s = toSeverity(reported);
+  if (s !== 'unknown') return s;
+  return fromSecuritySeverity(cvss?.score) ?? 'unknown';
+}
+
+/* -----------------------------
+   Finding builder (shared by the SCA mappers)
+--------------------------------*/
+export interface Advisory {
+  id: string; // GHSA / CVE / OSV id
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  url?: string;
+  severity?: string; // as reported, before the CVSS fallback
+  cvss?: Cvss;
+  cwe?: string[];
+  affectedRange?: string;
+  fixedVersion?: string;
+  fixVia?: FixVia;
+  direct?: boolean;
+  vex?: VexAnalysis;
+}
+
+const VEX_TRIAGE: Partial<Record<VexState, 'suppressed' | 'false_positive'>> = {
+  not_affected: 'suppressed',
+  false_positive: 'false_positive',
+};
+
+export function dependencyFinding(
+  tool: DependencyFinding['tool'],
+  driver: string,
+  pkg: PackageRef,
+  adv: Advisory,
+  ctx: { file?: string; createdAt?: string }
+): DependencyFinding {
+  const at = pkg.version ? `${pkg.name}@${pkg.version}` : pkg.name;
+  const aliases = (adv.aliases ?? []).filter((a) => a !== adv.id);
+  const fix = adv.fixedVersion
+    ? ` Fixed in ${adv.fixedVersion}.`
+    : adv.fixVia
+    ? ` Fixed by upgrading ${adv.fixVia.name} to ${adv.fixVia.version}.`
+    : ' No fixed version available.';
+  const triage = adv.vex && VEX_TRIAGE[adv.vex.state];
+
+  return {
+    id: '', // assigned by withStableIds
+    tool,
+    driver,
+    ruleId: adv.id,
+    title: adv.summary || adv.id,
+    message: `${at} is affected by ${adv.id}${
+      adv.summary ? `: ${adv.summary}` : ''
+    }.${fix}`,
+    severity: dependencySeverity(adv.severity, adv.cvss),
+    location: { file: ctx.file, snippet: at, url: adv.url },
+    rule: {
+      shortDescription: adv.summary,
+      fullDescription: adv.details,
+      helpUri: adv.url,
+    },
+    // same advisory on the same package in the same manifest is the same
+    // finding across scans and scanners; another manifest is another fix
+    fingerprints: {
+      'sca/v1': `${ctx.file ?? ''}|${pkg.ecosystem ?? ''}:${pkg.name}|${adv.id}`,
+    },
+    tags: ['sca'],
+    createdAt: ctx.createdAt,
+    package: pkg,
+    vulnId: adv.id,
+    aliases: aliases.length ? aliases : undefined,
+    cvss: adv.cvss,
+    cwe: adv.cwe?.length ? adv.cwe : undefined,
+    affectedRange: adv.affectedRange,
+    fixedVersion: adv.fixedVersion,
+    fixVia: adv.fixVia,
+    direct: adv.direct,
+    vex: adv.vex,
+    triage: triage
+      ? {
+          state: triage,
+          justification: [
+            `VEX: ${adv.vex!.state}`,
+            adv.vex!.justification,
+            adv.vex!.detail,
+          ]
+            .filter(Boolean)
+            .join(' · '),
+          author: driver,
+          createdAt: ctx.createdAt ?? new Date().toISOString(),
+        }
+      : undefined,
+  };
+}
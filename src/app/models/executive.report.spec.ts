@@ -0,0 +1,78 @@
+import type { ExecutiveReportData } from './executive.report';
+import { buildExecutiveReport } from './executive.report';
+import { RUN_RULE_ID } from './harness.mapper';
+import type { PipelineRun } from './pipeline-run.model';
+import { pipelineStats } from './pipeline.stats';
+import { finding } from '../../testing/finding.fixture';
+
+const run = (id: string, status: PipelineRun['status']): PipelineRun => ({
+  id,
+  source: 'harness',
+  pipelineId: 'build',
+  pipelineName: 'Build & deploy',
+  status,
+  durationMs: 90_000,
+  stages: [{ id: 'deploy', name: 'Deploy', status, steps: [] }],
+  artifacts: [],
+});
+
+const data = (
+  over: Partial<ExecutiveReportData> = {}
+): ExecutiveReportData => ({
+  generatedAt: '2025-01-01T00:00:00Z',
+  severity: { critical: 0, high: 0, medium: 0, low: 0, info: 0 },
+  risk: { score: 0, code: null, compliance: null, pipeline: null },
+  riskLevel: 'Low',
+  riskTrend: [],
+  compliance: [],
+  topFindings: [],
+  pipelines: [],
+  pipeline: [],
+  ...over,
+});
+
+describe('buildExecutiveReport pipeline status', () => {
+  it('reports the last run, success rate and failing stages per pipeline', () => {
+    const html = buildExecutiveReport(
+      data({
+        pipelines: pipelineStats([
+          run('a', 'success'),
+          run('b', 'success'),
+          run('c', 'failed'),
+        ]),
+      })
+    );
+    expect(html).toContain('Build &amp; deploy');
+    expect(html).toContain('<td class="failed">failed</td>');
+    expect(html).toContain('<td class="num">67%</td>');
+    expect(html).toContain('<td class="num">1m 30s</td>');
+    expect(html).toContain('Deploy (1/3)');
+  });
+
+  it('lists pipeline checks but not the run summaries', () => {
+    const html = buildExecutiveReport(
+      data({
+        pipeline: [
+          finding({ tool: 'harness', ruleId: RUN_RULE_ID, title: 'Build #3' }),
+          finding({
+            tool: 'harness',
+            ruleId: 'HARNESS-CI-PRIVILEGED-CONTAINER',
+          }),
+        ],
+      })
+    );
+    expect(html).toContain('HARNESS-CI-PRIVILEGED-CONTAINER');
+    expect(html).not.toContain('Build #3');
+    expect(html).toContain('No pipeline runs imported.');
+  });
+
+  it('escapes finding text', () => {
+    const html = buildExecutiveReport(
+      data({
+        topFindings: [finding({ severity: 'high', message: '<script>' })],
+      })
+    );
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<p><script>');
+  });
+});
@@ -0,0 +1,275 @@
+import type { Finding, Severity } from './finding.model';
+import type { RiskBreakdown } from '../services/risk-score.service';
+import type { PipelineStats } from './pipeline.stats';
+import { formatDuration, isFailure } from './pipeline-run.model';
+import { RUN_RULE_ID } from './harness.mapper';
+
+type Sev = Exclude<Severity, 'unknown'>;
+
+// Everything the report shows; filled from DashboardComponent's computed data
+export interface ExecutiveReportData {
+  repo?: string;
+  generatedAt: string; // ISO timestamp
+  severity: Record<Sev, number>;
+  risk: RiskBreakdown;
+  riskLevel: string;
+  riskTrend: Array<{ at: string; score: number }>;
+  compliance: Array<{ title: string; percent: number; done: number; total: number }>;
+  topFindings: Finding[];
+  pipelines: PipelineStats[]; // stored run history, one entry per pipeline
+  pipeline: Finding[];
+}
+
+// same golden palette as the dashboard widgets (darkest → lightest)
+const COLORS = ['#a98600', '#dab600', '#e9d700', '#f8ed62', '#fff9ae'];
+const SEV_ORDER: Sev[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+function esc(s: unknown): string {
+  return String(s ?? '').replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[
+        c
+      ]!)
+  );
+}
+
+/* -----------------------------
+   Inline SVG charts (no scripts, print-safe)
+--------------------------------*/
+function pieSvg(values: number[], labels: string[]): string {
+  const total = values.reduce((a, b) => a + b, 0);
+  if (!total) return '<p class="muted">No code findings.</p>';
+  const r = 70;
+  const c = 80;
+  let angle = -Math.PI / 2;
+  const slices = values
+    .map((v, i) => {
+      if (!v) return '';
+      if (v === total)
+        return `<circle cx="${c}" cy="${c}" r="${r}" fill="${COLORS[i]}" stroke="#fff" stroke-width="2"/>`;
+      const a2 = angle + (v / total) * Math.PI * 2;
+      const large = a2 - angle > Math.PI ? 1 : 0;
+      const [x1, y1] = [c + r * Math.cos(angle), c + r * Math.sin(angle)];
+      const [x2, y2] = [c + r * Math.cos(a2), c + r * Math.sin(a2)];
+      angle = a2;
+      return `<path d="M${c},${c} L${x1.toFixed(2)},${y1.toFixed(2)} A${r},${r} 0 ${large} 1 ${x2.toFixed(2)},${y2.toFixed(2)} Z" fill="${COLORS[i]}" stroke="#fff" stroke-width="2"/>`;
+    })
+    .join('');
+  const legend = labels
+    .map(
+      (l, i) =>
+        `<g transform="translate(180,${20 + i * 24})"><rect width="12" height="12" rx="3" fill="${COLORS[i]}"/><text x="20" y="11">${esc(l)} · ${values[i]}</text></g>`
+    )
+    .join('');
+  return `<svg viewBox="0 0 320 160" width="320" height="160" role="img">${slices}${legend}</svg>`;
+}
+
+function barsSvg(rows: Array<{ label: string; value: number }>): string {
+  if (!rows.length) return '<p class="muted">No compliance data.</p>';
+  const h = 26;
+  const bars = rows
+    .map((row, i) => {
+      const w = Math.max(0, Math.min(100, row.value)) * 2.4;
+      return `<g transform="translate(0,${i * h})"><text x="0" y="16" class="lbl">${esc(row.label)}</text><rect x="180" y="4" width="240" height="16" rx="6" fill="#f3f3f3"/><rect x="180" y="4" width="${w.toFixed(1)}" height="16" rx="6" fill="${COLORS[2]}"/><text x="428" y="16">${row.value.toFixed(1)}%</text></g>`;
+    })
+    .join('');
+  return `<svg viewBox="0 0 480 ${rows.length * h}" width="480" height="${rows.length * h}" role="img">${bars}</svg>`;
+}
+
+function lineSvg(points: Array<{ at: string; score: number }>): string {
+  if (points.length < 2)
+    return '<p class="muted">Trend appears after the next scan.</p>';
+  const [w, h, pad] = [480, 120, 10];
+  const step = (w - 2 * pad) / (points.length - 1);
+  const xy = points.map((p, i) => [
+    pad + i * step,
+    h - pad - (Math.max(0, Math.min(100, p.score)) / 100) * (h - 2 * pad),
+  ]);
+  const d = xy.map(([x, y], i) => `${i ? 'L' : 'M'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  const dots = xy
+    .map(
+      ([x, y], i) =>
+        `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3" fill="${COLORS[1]}"><title>${esc(new Date(points[i].at).toLocaleString())}: ${points[i].score}</title></circle>`
+    )
+    .join('');
+  return `<svg viewBox="0 0 ${w} ${h}" width="${w}" height="${h}" role="img"><path d="${d}" fill="none" stroke="${COLORS[1]}" stroke-width="3"/>${dots}</svg>`;
+}
+
+/* -----------------------------
+   Page
+--------------------------------*/
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #2b2b2b; margin: 0; padding: 32px; background: #fafafa; }
+  main { max-width: 900px; margin: 0 auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px solid #e9d700; padding-bottom: 12px; margin-bottom: 24px; }
+  h1 { margin: 0; font-size: 26px; }
+  h2 { font-size: 17px; margin: 0 0 12px; }
+  h3 { font-size: 15px; margin: 0 0 6px; }
+  section { background: #fff; border: 1px solid #eee; border-radius: 16px; padding: 18px 20px; margin-bottom: 18px; break-inside: avoid; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 18px; }
+  .grid section { margin-bottom: 0; }
+  .muted { opacity: 0.7; }
+  .score { font-size: 44px; font-weight: 700; }
+  .level { margin-left: 8px; font-weight: 600; }
+  .parts span { margin-right: 14px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { font-weight: 600; }
+  td.num { text-align: right; white-space: nowrap; }
+  .failed { color: #c92a2a; font-weight: 600; }
+  table + h3 { margin-top: 16px; }
+  .finding { border-top: 1px solid #eee; padding-top: 12px; margin-top: 12px; break-inside: avoid; }
+  .finding:first-of-type { border-top: none; margin-top: 0; padding-top: 0; }
+  .sev { display: inline-block; padding: 1px 8px; border-radius: 999px; font-size: 11px; text-transform: uppercase; background: #2b0b0b; color: #ff6b6b; margin-right: 6px; }
+  .sev.high { background: #2b140b; color: #ffa94d; }
+  .sev.medium { background: #1c2319; color: #94d82d; }
+  .sev.low, .sev.info { background: #121a24; color: #74c0fc; }
+  code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+  pre { background: #f5f5f5; padding: 10px; border-radius: 8px; white-space: pre-wrap; }
+  .md pre { background: #f5f5f5; }
+  svg text { font-size: 12px; fill: #2b2b2b; }
+  .print { border: none; background: #ffe877; border-radius: 999px; padding: 8px 16px; font-weight: 600; cursor: pointer; }
+  @media print {
+    body { background: #fff; padding: 0; }
+    .print { display: none; }
+    section { border-color: #ddd; }
+    @page { margin: 16mm; }
+  }
+`;
+
+/**
+ * Self-contained executive report (inline CSS + SVG, no external assets);
+ * `renderMarkdown` turns AI remediation text into sanitized HTML.
+ */
+export function buildExecutiveReport(
+  data: ExecutiveReportData,
+  renderMarkdown: (md: string) => string = esc
+): string {
+  const date = new Date(data.generatedAt).toLocaleString();
+  const top5 = [...data.compliance]
+    .sort((a, b) => b.percent - a.percent)
+    .slice(0, 5)
+    .map((c) => ({ label: c.title, value: c.percent }));
+
+  const findings = data.topFindings
+    .map(
+      (f) => `
+      <div class="finding">
+        <h3><span class="sev ${esc(f.severity)}">${esc(f.severity)}</span>${esc(f.title || f.ruleId)}</h3>
+        <div class="muted"><code>${esc(f.ruleId)}</code>${f.location?.file ? ` · <code>${esc(f.location.file)}${f.location.line ? `:${f.location.line}` : ''}</code>` : ''}</div>
+        <p>${esc(f.message)}</p>
+        ${f.aiExplanation ? `<p><b>Why it matters:</b> ${esc(f.aiExplanation)}</p>` : ''}
+        ${f.aiRemediation ? `<div class="md"><b>Remediation</b>${renderMarkdown(f.aiRemediation)}</div>` : ''}
+      </div>`
+    )
+    .join('');
+
+  const complianceRows = data.compliance
+    .map(
+      (c) =>
+        `<tr><td>${esc(c.title)}</td><td class="num">${c.percent.toFixed(1)}%</td><td class="num">${c.done} / ${c.total}</td></tr>`
+    )
+    .join('');
+
+  const runRows = data.pipelines
+    .map((p) => {
+      const latest = p.history[p.history.length - 1];
+      const failing = p.stages
+        .filter((s) => s.failures)
+        .map(
+          (s) =>
+            `${esc(s.name)} (${s.failures}/${s.samples}${s.flaky ? ', flaky' : ''})`
+        )
+        .join(', ');
+      return `<tr><td>${esc(p.pipelineName)}</td><td${latest && isFailure(latest.status) ? ' class="failed"' : ''}>${esc(latest?.status ?? 'unknown')}</td><td class="num">${p.successRate === undefined ? '–' : `${p.successRate.toFixed(0)}%`}</td><td class="num">${p.runs}</td><td class="num">${formatDuration(p.meanMs)}</td><td>${failing || '<span class="muted">none</span>'}</td></tr>`;
+    })
+    .join('');
+
+  // run summaries are covered by the run table above
+  const pipelineRows = data.pipeline
+    .filter((f) => f.ruleId !== RUN_RULE_ID)
+    .map(
+      (f) =>
+        `<tr><td><span class="sev ${esc(f.severity)}">${esc(f.severity)}</span></td><td>${esc(f.title || f.ruleId)}</td><td>${esc(f.message)}</td></tr>`
+    )
+    .join('');
+
+  const parts = [
+    data.risk.code !== null ? `<span>Code ${data.risk.code}</span>` : '',
+    data.risk.compliance !== null ? `<span>Compliance ${data.risk.compliance}</span>` : '',
+    data.risk.pipeline !== null ? `<span>Pipeline ${data.risk.pipeline}</span>` : '',
+  ].join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Security report${data.repo ? ` — ${esc(data.repo)}` : ''}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+  <header>
+    <div>
+      <h1>Security report</h1>
+      <div class="muted">${esc(data.repo || 'All repositories')} · ${esc(date)}</div>
+    </div>
+    <button class="print" onclick="window.print()">Print / Save as PDF</button>
+  </header>
+
+  <div class="grid">
+    <section>
+      <h2>Risk score</h2>
+      <div><span class="score">${data.risk.score}</span><span class="level">${esc(data.riskLevel)}</span></div>
+      <div class="parts muted">${parts}</div>
+      ${lineSvg(data.riskTrend)}
+    </section>
+    <section>
+      <h2>Code findings by severity</h2>
+      ${pieSvg(
+        SEV_ORDER.map((s) => data.severity[s]),
+        SEV_ORDER.map((s) => s[0].toUpperCase() + s.slice(1))
+      )}
+    </section>
+  </div>
+  <br>
+
+  <section>
+    <h2>Compliance — top 5 frameworks</h2>
+    ${barsSvg(top5)}
+  </section>
+
+  <section>
+    <h2>Top critical findings</h2>
+    ${findings || '<p class="muted">No critical or high findings.</p>'}
+  </section>
+
+  <section>
+    <h2>Compliance frameworks</h2>
+    ${
+      complianceRows
+        ? `<table><thead><tr><th>Framework</th><th class="num">Complete</th><th class="num">Controls</th></tr></thead><tbody>${complianceRows}</tbody></table>`
+        : '<p class="muted">No compliance data.</p>'
+    }
+  </section>
+
+  <section>
+    <h2>Pipeline status</h2>
+    ${
+      runRows
+        ? `<table><thead><tr><th>Pipeline</th><th>Last run</th><th class="num">Success</th><th class="num">Runs</th><th class="num">Mean</th><th>Failing stages</th></tr></thead><tbody>${runRows}</tbody></table>`
+        : '<p class="muted">No pipeline runs imported.</p>'
+    }
+    <h3>Pipeline issues</h3>
+    ${
+      pipelineRows
+        ? `<table><thead><tr><th>Severity</th><th>Check</th><th>Detail</th></tr></thead><tbody>${pipelineRows}</tbody></table>`
+        : '<p class="muted">No pipeline issues reported.</p>'
+    }
+  </section>
+</main>
+</body>
+</html>`;
+}
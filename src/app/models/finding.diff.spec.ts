@@ -0,0 +1,37 @@
+import type { Finding } from './finding.model';
+import { finding as base } from '../../testing/finding.fixture';
+import { diffFindings } from './finding.diff';
+
+const finding = (
+  ruleId: string,
+  snippet: string,
+  extra: Partial<Finding> = {}
+): Finding => base({ ruleId, location: { file: 'a.py', snippet }, ...extra });
+
+describe('diffFindings', () => {
+  it('splits head into added and unchanged, base leftovers into fixed', () => {
+    const kept = finding('r1', 'x = 1');
+    const gone = finding('r2', 'y = 2');
+    const fresh = finding('r3', 'z = 3');
+    const diff = diffFindings([kept, gone], [{ ...kept, id: 'new' }, fresh]);
+    expect(diff.added).toEqual([fresh]);
+    expect(diff.fixed).toEqual([gone]);
+    expect(diff.unchanged.map((u) => u.before)).toEqual([kept]);
+  });
+
+  it('matches on scanner fingerprints before locations', () => {
+    const fingerprints = { 'matchBasedId/v1': 'm1' };
+    const before = finding('r1', 'old code', { fingerprints });
+    const after = finding('r1', 'rewritten code', { fingerprints });
+    const diff = diffFindings([before], [after]);
+    expect(diff.unchanged).toEqual([{ before, after }]);
+  });
+
+  it('matches each base finding at most once', () => {
+    const base = [finding('r1', 'x')];
+    const diff = diffFindings(base, [finding('r1', 'x'), finding('r1', 'x')]);
+    expect(diff.unchanged.length).toBe(1);
+    expect(diff.added.length).toBe(1);
+    expect(diff.fixed).toEqual([]);
+  });
+});
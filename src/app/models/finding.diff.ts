@@ -0,0 +1,42 @@
+import type { Finding } from './finding.model';
+import { matchKeys } from './finding.identity';
+
+export interface FindingDiff {
+  added: Finding[]; // only in head ("new since last scan")
+  fixed: Finding[]; // only in base
+  unchanged: Array<{ before: Finding; after: Finding }>;
+}
+
+/**
+ * Compare two scans. Findings match on scanner fingerprints first, then on
+ * rule + file + normalized snippet, each base finding matching at most once.
+ */
+export function diffFindings(base: Finding[], head: Finding[]): FindingDiff {
+  const byFp = new Map<string, Finding[]>();
+  const byLoc = new Map<string, Finding[]>();
+  const push = (m: Map<string, Finding[]>, k: string, f: Finding) =>
+    m.set(k, [...(m.get(k) ?? []), f]);
+
+  for (const f of base) {
+    const { fp, loc } = matchKeys(f);
+    if (fp) push(byFp, fp, f);
+    push(byLoc, loc, f);
+  }
+
+  const used = new Set<Finding>();
+  const take = (candidates?: Finding[]) => {
+    const hit = candidates?.find((c) => !used.has(c));
+    if (hit) used.add(hit);
+    return hit;
+  };
+
+  const out: FindingDiff = { added: [], fixed: [], unchanged: [] };
+  for (const f of head) {
+    const { fp, loc } = matchKeys(f);
+    const before = (fp && take(byFp.get(fp))) || take(byLoc.get(loc));
+    if (before) out.unchanged.push({ before, after: f });
+    else out.added.push(f);
+  }
+  out.fixed = base.filter((f) => !used.has(f));
+  return out;
+}
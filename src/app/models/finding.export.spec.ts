@@ -0,0 +1,144 @@
+import type { Finding, HarnessFinding, VantaFinding } from './finding.model';
+import type { PipelineRun } from './pipeline-run.model';
+import { toSarif } from './finding.export';
+import { mapSarifToFindings } from './sarif.mapper';
+import { mapSemgrepSarifToFindings } from './semgrep.sarif.mapper';
+import { withStableIds } from './finding.identity';
+import { complianceProgress } from './vanta.mapper';
+import { runsOf } from './pipeline.stats';
+
+const triage = {
+  state: 'false_positive' as const,
+  justification: 'test fixture',
+  author: 'me',
+  createdAt: '2025-01-01T00:00:00Z',
+};
+
+const FINDINGS = withStableIds([
+  {
+    id: '',
+    tool: 'semgrep',
+    driver: 'Semgrep OSS',
+    ruleId: 'py.sqli',
+    message: 'SQL injection',
+    severity: 'high',
+    location: { file: 'app/db.py', line: 3, snippet: 'cur.execute(q)' },
+    fingerprints: { 'matchBasedId/v1': 'abc' },
+    aiExplanation: 'explained',
+    status: 'in_progress',
+    triage,
+  },
+  {
+    id: '',
+    tool: 'sarif',
+    driver: 'CodeQL',
+    ruleId: 'js/xss',
+    message: 'XSS',
+    severity: 'medium',
+    location: { file: 'web/a.js', line: 8, snippet: 'el.innerHTML = x' },
+    aiRemediation: 'escape it',
+    status: 'fixed',
+  },
+] as Finding[]);
+
+describe('toSarif round-trip', () => {
+  const sarif = toSarif(FINDINGS);
+  const [semgrep] = mapSemgrepSarifToFindings(sarif);
+  const [codeql] = mapSarifToFindings(sarif);
+
+  it('writes one run per driver', () => {
+    expect(sarif.runs.map((r: any) => r.tool.driver.name)).toEqual([
+      'Semgrep OSS',
+      'CodeQL',
+    ]);
+  });
+
+  it('routes each run back to the mapper of its tool', () => {
+    expect(mapSemgrepSarifToFindings(sarif).length).toBe(1);
+    expect(mapSarifToFindings(sarif).length).toBe(1);
+    expect(semgrep.tool).toBe('semgrep');
+    expect(codeql.tool).toBe('sarif');
+    expect(codeql.driver).toBe('CodeQL');
+  });
+
+  it('keeps ids and fingerprints', () => {
+    expect(semgrep.id).toBe(FINDINGS[0].id);
+    expect(semgrep.fingerprint).toBe(FINDINGS[0].fingerprint);
+    expect(codeql.id).toBe(FINDINGS[1].id);
+  });
+
+  it('restores triage, status and AI notes', () => {
+    expect(semgrep.triage).toEqual({ ...triage, expiresAt: undefined });
+    expect(semgrep.status).toBe('in_progress');
+    expect(semgrep.aiExplanation).toBe('explained');
+    expect(codeql.status).toBe('fixed');
+    expect(codeql.aiRemediation).toBe('escape it');
+  });
+});
+
+describe('toSarif round-trip of compliance and pipeline findings', () => {
+  const run: PipelineRun = {
+    id: 'exec-1',
+    source: 'harness',
+    pipelineId: 'build',
+    pipelineName: 'build',
+    status: 'failed',
+    stages: [{ id: 'test', name: 'Test', status: 'failed', steps: [] }],
+    artifacts: [],
+  };
+  const list = withStableIds([
+    {
+      id: '',
+      tool: 'vanta',
+      driver: 'Vanta',
+      ruleId: 'soc2',
+      message: 'SOC 2',
+      severity: 'medium',
+      location: {},
+      frameworkId: 'soc2',
+      controlsDone: 3,
+      controlsTotal: 4,
+      controls: [{ id: 'CC6.1', name: 'Access', status: 'failing' }],
+      owner: 'alice',
+    },
+    {
+      id: '',
+      tool: 'harness',
+      driver: 'Harness',
+      ruleId: 'HARNESS-RUN',
+      message: 'build failed',
+      severity: 'high',
+      location: {},
+      fingerprints: { 'harness/execution': run.id },
+      run,
+      stage: 'test',
+    },
+  ] as Finding[]);
+  const back = mapSarifToFindings(toSarif(list));
+  const vanta = back.find((f) => f.tool === 'vanta') as VantaFinding;
+  const harness = back.find((f) => f.tool === 'harness') as HarnessFinding;
+
+  it('keeps controls and progress on Vanta findings', () => {
+    expect(complianceProgress(vanta)).toEqual({
+      percent: 75,
+      done: 3,
+      total: 4,
+    });
+    expect(vanta.frameworkId).toBe('soc2');
+    expect(vanta.owner).toBe('alice');
+    expect(vanta.controls).toEqual([
+      { id: 'CC6.1', name: 'Access', status: 'failing' },
+    ]);
+  });
+
+  it('keeps the pipeline run on Harness findings', () => {
+    expect(runsOf(back)).toEqual([run]);
+    expect(harness.stage).toBe('test');
+  });
+
+  it('adds nothing to findings without tool state', () => {
+    const [codeql] = mapSarifToFindings(toSarif([FINDINGS[1]]));
+    expect('controls' in codeql).toBeFalse();
+    expect('run' in codeql).toBeFalse();
+  });
+});
@@ -0,0 +1,366 @@
+import type {
+  CodeFlow,
+  Finding,
+  HarnessFinding,
+  Location,
+  RuleInfo,
+  Severity,
+  VantaFinding,
+} from './finding.model';
+import { cweOf } from './finding.filter';
+import { IDENTITY_KEY } from './finding.identity';
+import { TOOL_PROPERTY } from './sarif.mapper';
+import { langOf } from '../shared/lang-of';
+
+export type ExportFormat = 'sarif' | 'csv' | 'json' | 'md';
+
+export interface ExportContext {
+  title: string; // e.g. "Vulnerabilities"
+  repo?: string;
+  generatedAt?: string; // ISO timestamp
+}
+
+/* -----------------------------
+   SARIF 2.1.0
+--------------------------------*/
+
+// representative score per severity; fromSecuritySeverity() maps these back
+const SECURITY_SEVERITY: Partial<Record<Severity, string>> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0',
+  info: '0.0',
+};
+
+const LEVEL: Record<Severity, string> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+  unknown: 'none',
+};
+
+function sarifLocation(loc: Location): any | undefined {
+  if (!loc.file) return undefined;
+  const region: any = {};
+  if (loc.line) region.startLine = loc.line;
+  if (loc.column) region.startColumn = loc.column;
+  if (loc.endLine) region.endLine = loc.endLine;
+  if (loc.endColumn) region.endColumn = loc.endColumn;
+  if (loc.snippet) region.snippet = { text: loc.snippet };
+
+  const physicalLocation: any = { artifactLocation: { uri: loc.file } };
+  if (Object.keys(region).length) physicalLocation.region = region;
+  if (loc.context?.snippet)
+    physicalLocation.contextRegion = {
+      startLine: loc.context.line,
+      snippet: { text: loc.context.snippet },
+    };
+
+  return {
+    physicalLocation,
+    ...(loc.message ? { message: { text: loc.message } } : {}),
+  };
+}
+
+function sarifLocations(list?: Location[]): any[] | undefined {
+  const out = (list || []).map(sarifLocation).filter(Boolean);
+  return out.length ? out : undefined;
+}
+
+function sarifCodeFlows(flows?: CodeFlow[]): any[] | undefined {
+  if (!flows?.length) return undefined;
+  return flows.map((flow) => ({
+    threadFlows: [
+      {
+        ...(flow.message ? { message: { text: flow.message } } : {}),
+        locations: flow.steps.map((s) => ({
+          location: sarifLocation(s) ?? {
+            message: s.message ? { text: s.message } : undefined,
+          },
+          ...(s.kinds ? { kinds: s.kinds } : {}),
+          ...(s.nestingLevel !== undefined
+            ? { nestingLevel: s.nestingLevel }
+            : {}),
+          ...(s.importance ? { importance: s.importance } : {}),
+        })),
+      },
+    ],
+  }));
+}
+
+function sarifRule(id: string, title?: string, info?: RuleInfo): any {
+  const rule: any = { id };
+  if (info?.name) rule.name = info.name;
+  const short = info?.shortDescription || title;
+  if (short) rule.shortDescription = { text: short };
+  if (info?.fullDescription)
+    rule.fullDescription = { text: info.fullDescription };
+  if (info?.help || info?.helpMarkdown)
+    rule.help = {
+      text: info.help || info.helpMarkdown,
+      ...(info.helpMarkdown ? { markdown: info.helpMarkdown } : {}),
+    };
+  if (info?.helpUri) rule.helpUri = info.helpUri;
+  return rule;
+}
+
+// drop unset fields so results only carry what the finding has
+const defined = (o: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined));
+
+/** Tool fields the compliance and pipeline pages read back (see exportedStateOf) */
+function toolStateOf(f: Finding): Record<string, unknown> {
+  if (f.tool === 'vanta') {
+    const v = f as VantaFinding;
+    return defined({
+      frameworkId: v.frameworkId,
+      controlsDone: v.controlsDone,
+      controlsTotal: v.controlsTotal,
+      controls: v.controls,
+      owner: v.owner,
+    });
+  }
+  if (f.tool === 'harness') {
+    const h = f as HarnessFinding;
+    return defined({ run: h.run, stage: h.stage });
+  }
+  return {};
+}
+
+function sarifResult(f: Finding, ruleIndex: number): any {
+  const locations = sarifLocations(
+    f.locations?.length ? f.locations : f.location ? [f.location] : []
+  );
+  const cwe = cweOf(f);
+  const properties: Record<string, unknown> = {
+    severity: f.severity,
+    ...(SECURITY_SEVERITY[f.severity] !== undefined
+      ? { 'security-severity': SECURITY_SEVERITY[f.severity] }
+      : {}),
+    ...(f.originalSeverity ? { originalSeverity: f.originalSeverity } : {}),
+    ...(f.tags?.length ? { tags: f.tags } : {}),
+    ...(cwe.length ? { cwe } : {}),
+    ...(f.aiExplanation ? { aiExplanation: f.aiExplanation } : {}),
+    ...(f.aiRemediation ? { aiRemediation: f.aiRemediation } : {}),
+    ...(f.status ? { status: f.status } : {}),
+    ...(f.triage ? { triage: f.triage } : {}),
+    ...toolStateOf(f),
+  };
+
+  return {
+    ruleId: f.ruleId,
+    ruleIndex,
+    level: LEVEL[f.severity] ?? 'none',
+    message: { text: f.message },
+    ...(locations ? { locations } : {}),
+    ...(f.relatedLocations?.length
+      ? { relatedLocations: sarifLocations(f.relatedLocations) }
+      : {}),
+    ...(f.codeFlows?.length ? { codeFlows: sarifCodeFlows(f.codeFlows) } : {}),
+    // the scanner's own fingerprints, plus our identity so ids survive a re-import
+    fingerprints: {
+      ...(f.fingerprints || {}),
+      ...(f.fingerprint ? { [IDENTITY_KEY]: f.fingerprint } : {}),
+    },
+    properties,
+  };
+}
+
+/**
+ * Findings → SARIF 2.1.0, one run per originating scanner.
+ * Designed to round-trip through mapSarifToFindings / mapSemgrepSarifToFindings.
+ */
+export function toSarif(findings: Finding[]): any {
+  const runs = new Map<string, { tool: string; findings: Finding[] }>();
+  for (const f of findings) {
+    const name = f.driver || f.tool;
+    if (!runs.has(name)) runs.set(name, { tool: f.tool, findings: [] });
+    runs.get(name)!.findings.push(f);
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [...runs.entries()].map(([name, run]) => {
+      const rules: any[] = [];
+      const index = new Map<string, number>();
+      const results = run.findings.map((f) => {
+        if (!index.has(f.ruleId)) {
+          index.set(f.ruleId, rules.length);
+          rules.push(sarifRule(f.ruleId, f.title, f.rule));
+        }
+        return sarifResult(f, index.get(f.ruleId)!);
+      });
+      return {
+        tool: { driver: { name, rules } },
+        results,
+        // lets the generic mapper restore which tool (and page) the findings belong to
+        properties: { [TOOL_PROPERTY]: run.tool },
+      };
+    }),
+  };
+}
+
+/* -----------------------------
+   CSV
+--------------------------------*/
+const CSV_COLUMNS: Array<[string, (f: Finding) => unknown]> = [
+  ['id', (f) => f.id],
+  ['severity', (f) => f.severity],
+  ['original_severity', (f) => f.originalSeverity],
+  ['tool', (f) => f.driver || f.tool],
+  ['rule', (f) => f.ruleId],
+  ['title', (f) => f.title],
+  ['message', (f) => f.message],
+  ['file', (f) => f.location?.file],
+  ['line', (f) => f.location?.line],
+  ['cwe', (f) => cweOf(f).join('; ')],
+  ['tags', (f) => (f.tags || []).join('; ')],
+  ['status', (f) => f.status || 'open'],
+  ['assignee', (f) => f.assignee],
+  ['due_date', (f) => f.dueDate],
+  ['triage', (f) => f.triage?.state],
+  ['triage_justification', (f) => f.triage?.justification],
+  ['fingerprint', (f) => f.fingerprint],
+  ['ai_explanation', (f) => f.aiExplanation],
+  ['ai_remediation', (f) => f.aiRemediation],
+];
+
+function csvCell(v: unknown): string {
+  let s = v === undefined || v === null ? '' : String(v);
+  // keep spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(findings: Finding[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = findings.map((f) =>
+    CSV_COLUMNS.map(([, get]) => csvCell(get(f))).join(',')
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+/* -----------------------------
+   JSON
+--------------------------------*/
+export function toJson(findings: Finding[], ctx: ExportContext): string {
+  return JSON.stringify(
+    {
+      title: ctx.title,
+      repo: ctx.repo,
+      generatedAt: ctx.generatedAt ?? new Date().toISOString(),
+      count: findings.length,
+      // raw scanner output stays out; export SARIF when the source matters
+      findings: findings.map(({ raw, ...f }) => f),
+    },
+    null,
+    2
+  );
+}
+
+/* -----------------------------
+   Markdown (PR / ticket ready)
+--------------------------------*/
+const SEVERITY_ORDER: Severity[] = [
+  'critical',
+  'high',
+  'medium',
+  'low',
+  'info',
+  'unknown',
+];
+
+// keep table cells on one line and pipes from splitting columns
+const mdCell = (s?: string) =>
+  (s || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+function fence(code: string, lang?: string): string {
+  const ticks = code.includes('```') ? '````' : '```';
+  return `${ticks}${lang ?? ''}\n${code.replace(/\n$/, '')}\n${ticks}`;
+}
+
+export function toMarkdown(findings: Finding[], ctx: ExportContext): string {
+  const when = new Date(ctx.generatedAt ?? Date.now()).toISOString().slice(0, 10);
+  const counts = SEVERITY_ORDER.map((s) => [
+    s,
+    findings.filter((f) => f.severity === s).length,
+  ]).filter(([, n]) => n);
+  const sorted = [...findings].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  const out: string[] = [
+    `## ${ctx.title}${ctx.repo ? ` — ${ctx.repo}` : ''}`,
+    '',
+    `_${findings.length} findings · generated ${when}_`,
+    '',
+  ];
+
+  if (counts.length) {
+    out.push('| Severity | Count |', '| --- | ---: |');
+    for (const [s, n] of counts) out.push(`| ${s} | ${n} |`);
+    out.push('');
+  }
+
+  sorted.forEach((f, i) => {
+    const where = f.location?.file
+      ? `\`${f.location.file}${f.location.line ? `:${f.location.line}` : ''}\``
+      : '';
+    out.push(
+      `### ${i + 1}. [${f.severity.toUpperCase()}] ${mdCell(f.title || f.ruleId)}`,
+      ''
+    );
+    out.push(`- **Rule:** \`${f.ruleId}\``);
+    if (where) out.push(`- **Location:** ${where}`);
+    const cwe = cweOf(f);
+    if (cwe.length) out.push(`- **CWE:** ${cwe.join(', ')}`);
+    if (f.triage)
+      out.push(
+        `- **Triage:** ${f.triage.state} — ${mdCell(f.triage.justification)}`
+      );
+    out.push('', f.message, '');
+    if (f.location?.snippet)
+      out.push(fence(f.location.snippet, langOf(f.location.file)), '');
+    if (f.aiExplanation) out.push('**Explanation**', '', f.aiExplanation, '');
+    if (f.aiRemediation) out.push('**Remediation**', '', f.aiRemediation, '');
+  });
+
+  return out.join('\n');
+}
+
+/* -----------------------------
+   Dispatch
+--------------------------------*/
+export function exportFindings(
+  findings: Finding[],
+  format: ExportFormat,
+  ctx: ExportContext
+): { content: string; mime: string; ext: string } {
+  switch (format) {
+    case 'sarif':
+      return {
+        content: JSON.stringify(toSarif(findings), null, 2),
+        mime: 'application/sarif+json',
+        ext: 'sarif',
+      };
+    case 'csv':
+      return { content: toCsv(findings), mime: 'text/csv', ext: 'csv' };
+    case 'json':
+      return {
+        content: toJson(findings, ctx),
+        mime: 'application/json',
+        ext: 'json',
+      };
+    case 'md':
+      return {
+        content: toMarkdown(findings, ctx),
+        mime: 'text/markdown',
+        ext: 'md',
+      };
+  }
+}
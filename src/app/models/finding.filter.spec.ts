@@ -0,0 +1,120 @@
+import type { Finding } from './finding.model';
+import { finding } from '../../testing/finding.fixture';
+import {
+  applyFilter,
+  cweNumber,
+  dirOf,
+  EMPTY_FILTER,
+  facetsOf,
+  filterFromParams,
+  filterToParams,
+  isFiltered,
+  type FindingFilter,
+} from './finding.filter';
+
+const triage = {
+  state: 'false_positive' as const,
+  justification: 'test code',
+  author: 'me',
+  createdAt: '2025-01-01T00:00:00Z',
+};
+
+const sqli = finding({
+  severity: 'high',
+  ruleId: 'py.sqli',
+  cwe: ['CWE-89'],
+  tags: ['owasp-a03'],
+  message: 'SQL built from request data',
+  location: { file: 'app/db/query.py' },
+  aiExplanation: 'explained',
+} as Partial<Finding>);
+const xss = finding({
+  severity: 'medium',
+  ruleId: 'js.xss',
+  cwe: ['CWE-79'],
+  location: { file: 'web/a.js' },
+} as Partial<Finding>);
+const dismissed = finding({
+  severity: 'high',
+  ruleId: 'py.sqli',
+  location: { file: 'tests/db.py' },
+  triage,
+});
+const ALL = [sqli, xss, dismissed];
+
+const filtered = (f: Partial<FindingFilter>) =>
+  applyFilter(ALL, { ...EMPTY_FILTER, ...f });
+
+describe('applyFilter', () => {
+  it('shows untriaged findings by default', () => {
+    expect(filtered({})).toEqual([sqli, xss]);
+    expect(filtered({ triage: 'all' })).toEqual(ALL);
+    expect(filtered({ triage: 'false_positive' })).toEqual([dismissed]);
+  });
+
+  it('ANDs facets and ORs values within one facet', () => {
+    expect(filtered({ severity: ['high', 'medium'] })).toEqual([sqli, xss]);
+    expect(filtered({ severity: ['high'], cwe: ['CWE-79'] })).toEqual([]);
+    expect(filtered({ tag: ['owasp-a03'] })).toEqual([sqli]);
+  });
+
+  it('matches directories as path prefixes', () => {
+    expect(filtered({ dir: ['app'] })).toEqual([sqli]);
+    expect(filtered({ dir: ['ap'] })).toEqual([]);
+  });
+
+  it('filters on AI enrichment and free text', () => {
+    expect(filtered({ ai: 'yes' })).toEqual([sqli]);
+    expect(filtered({ ai: 'no' })).toEqual([xss]);
+    expect(filtered({ q: '  REQUEST data ' })).toEqual([sqli]);
+    expect(filtered({ q: 'web/a' })).toEqual([xss]);
+  });
+});
+
+describe('facetsOf', () => {
+  it('counts each value once per finding, most frequent first', () => {
+    const facets = facetsOf(ALL);
+    expect(facets.rule).toEqual([
+      { value: 'py.sqli', count: 2 },
+      { value: 'js.xss', count: 1 },
+    ]);
+    expect(facets.dir.map((d) => d.value)).toEqual(['app/db', 'tests', 'web']);
+  });
+});
+
+describe('filter query params', () => {
+  it('round-trips a filter and drops defaults', () => {
+    const filter: FindingFilter = {
+      ...EMPTY_FILTER,
+      severity: ['critical', 'high'],
+      ai: 'no',
+      triage: 'all',
+      q: 'eval',
+    };
+    const params = filterToParams(filter);
+    expect(params['rule']).toBeNull();
+    expect(filterFromParams((k) => params[k] ?? null)).toEqual(filter);
+    expect(isFiltered(filter)).toBeTrue();
+    expect(isFiltered(EMPTY_FILTER)).toBeFalse();
+  });
+
+  it('falls back to defaults for unknown values', () => {
+    expect(filterFromParams((k) => (k === 'ai' ? 'maybe' : null))).toEqual(
+      EMPTY_FILTER
+    );
+  });
+});
+
+describe('cweNumber / dirOf', () => {
+  it('reads CWE numbers in their usual spellings', () => {
+    for (const v of ['CWE-89', 'cwe-089', '89', 'CWE-89: Improper ...'])
+      expect(cweNumber(v)).toBe(89);
+    expect(cweNumber('none')).toBeUndefined();
+  });
+
+  it('returns the parent directory, empty for top-level files', () => {
+    expect(dirOf('a/b/c.py')).toBe('a/b');
+    expect(dirOf('c.py')).toBe('');
+    expect(dirOf(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  isSuppressed,
+  type Finding,
+  type Severity,
+  type TriageState,
+} from './finding.model';
+
+export type AiFacet = 'any' | 'yes' | 'no';
+// 'open' = not triaged (default view), 'all' = everything
+export type TriageFacet = 'open' | 'all' | TriageState;
+
+export interface FindingFilter {
+  severity: Severity[];
+  rule: string[];
+  cwe: string[];
+  tag: string[];
+  dir: string[];
+  ai: AiFacet;
+  triage: TriageFacet;
+  q: string;
+}
+
+export const EMPTY_FILTER: FindingFilter = {
+  severity: [],
+  rule: [],
+  cwe: [],
+  tag: [],
+  dir: [],
+  ai: 'any',
+  triage: 'open',
+  q: '',
+};
+
+export type ListFacet = 'severity' | 'rule' | 'cwe' | 'tag' | 'dir';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export function cweOf(f: Finding): string[] {
+  return ('cwe' in f && f.cwe) || [];
+}
+
+// "CWE-89", "cwe-089", "89" and "CWE-89: Improper Neutralization..." all mean 89
+export function cweNumber(v: string): number | undefined {
+  const m = v.match(/^\s*(?:cwe[-_ ]?)?0*(\d+)/i);
+  return m ? Number(m[1]) : undefined;
+}
+
+/** Parent directory of a file ("" for top-level files) */
+export function dirOf(file?: string): string {
+  const i = (file || '').lastIndexOf('/');
+  return i > 0 ? file!.slice(0, i) : '';
+}
+
+/* -----------------------------
+   Query param (de)serialization
+--------------------------------*/
+const split = (v?: string | null) => (v ? v.split(',').filter(Boolean) : []);
+
+/** Build a filter from URL query params (unknown / missing → defaults) */
+export function filterFromParams(
+  get: (key: string) => string | null
+): FindingFilter {
+  const ai = get('ai');
+  return {
+    severity: split(get('sev')) as Severity[],
+    rule: split(get('rule')),
+    cwe: split(get('cwe')),
+    tag: split(get('tag')),
+    dir: split(get('dir')),
+    ai: ai === 'yes' || ai === 'no' ? ai : 'any',
+    triage: (get('triage') as TriageFacet) || 'open',
+    q: get('q') || '',
+  };
+}
+
+/** Query params for a filter; defaults are dropped (null removes the param) */
+export function filterToParams(
+  f: FindingFilter
+): Record<string, string | null> {
+  const join = (v: string[]) => (v.length ? v.join(',') : null);
+  return {
+    sev: join(f.severity),
+    rule: join(f.rule),
+    cwe: join(f.cwe),
+    tag: join(f.tag),
+    dir: join(f.dir),
+    ai: f.ai === 'any' ? null : f.ai,
+    triage: f.triage === 'open' ? null : f.triage,
+    q: f.q || null,
+  };
+}
+
+export function isFiltered(f: FindingFilter): boolean {
+  return Object.values(filterToParams(f)).some((v) => v !== null);
+}
+
+/* -----------------------------
+   Matching
+--------------------------------*/
+function matchesTriage(f: Finding, facet: TriageFacet): boolean {
+  if (facet === 'all') return true;
+  if (facet === 'open') return !isSuppressed(f);
+  return f.triage?.state === facet;
+}
+
+function matchesText(f: Finding, q: string): boolean {
+  const needle = q.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    f.message,
+    f.title,
+    f.ruleId,
+    f.location?.file,
+    f.location?.snippet,
+    f.aiExplanation,
+    f.aiRemediation,
+  ].some((v) => (v || '').toLowerCase().includes(needle));
+}
+
+const anyOf = (selected: string[], values: string[]) =>
+  !selected.length || values.some((v) => selected.includes(v));
+
+export function applyFilter(list: Finding[], f: FindingFilter): Finding[] {
+  return list.filter((x) => {
+    if (f.severity.length && !f.severity.includes(x.severity)) return false;
+    if (f.rule.length && !f.rule.includes(x.ruleId)) return false;
+    if (!anyOf(f.cwe, cweOf(x))) return false;
+    if (!anyOf(f.tag, x.tags ?? [])) return false;
+    if (
+      f.dir.length &&
+      !f.dir.some((d) => (x.location?.file || '').startsWith(d + '/'))
+    )
+      return false;
+    const enriched = !!(x.aiExplanation || x.aiRemediation);
+    if (f.ai === 'yes' && !enriched) return false;
+    if (f.ai === 'no' && enriched) return false;
+    if (!matchesTriage(x, f.triage)) return false;
+    return matchesText(x, f.q);
+  });
+}
+
+/** Available values per facet with counts, most frequent first */
+export function facetsOf(list: Finding[]): Record<ListFacet, FacetCount[]> {
+  const tally = (values: (f: Finding) => string[]) => {
+    const m = new Map<string, number>();
+    for (const f of list)
+      for (const v of new Set(values(f))) if (v) m.set(v, (m.get(v) ?? 0) + 1);
+    return [...m.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  };
+  return {
+    severity: tally((f) => [f.severity]),
+    rule: tally((f) => [f.ruleId]),
+    cwe: tally(cweOf),
+    tag: tally((f) => f.tags ?? []),
+    dir: tally((f) => [dirOf(f.location?.file)]),
+  };
+}
@@ -0,0 +1,42 @@
+import type { Finding } from './finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { groupFindings } from './finding.group';
+
+const at = (file: string, extra: Partial<Finding> = {}) =>
+  finding({ location: { file }, ...extra });
+
+describe('groupFindings', () => {
+  it('puts the worst group first, then the biggest', () => {
+    const list = [
+      at('a/x.py', { ruleId: 'low-rule', severity: 'low' }),
+      at('a/y.py', { ruleId: 'low-rule', severity: 'low' }),
+      at('b/z.py', { ruleId: 'crit-rule', severity: 'critical' }),
+      at('b/z.py', { ruleId: 'med-rule', severity: 'medium' }),
+    ];
+    const groups = groupFindings(list, 'rule');
+    expect(groups.map((g) => g.key)).toEqual([
+      'crit-rule',
+      'med-rule',
+      'low-rule',
+    ]);
+    expect(groups[2].counts.low).toBe(2);
+    expect(groupFindings(list, 'dir').map((g) => g.key)).toEqual(['b', 'a']);
+  });
+
+  it('lists a finding under each of its CWEs', () => {
+    const both = at('a.py', { cwe: ['CWE-79', 'CWE-89'] } as Partial<Finding>);
+    const none = at('b.py');
+    const groups = groupFindings([both, none], 'cwe');
+    expect(groups.map((g) => g.label)).toEqual([
+      '(no CWE)',
+      'CWE-79',
+      'CWE-89',
+    ]);
+    expect(groups[1].findings).toEqual([both]);
+  });
+
+  it('labels findings without a directory or file', () => {
+    expect(groupFindings([at('top.py')], 'dir')[0].label).toBe('(root)');
+    expect(groupFindings([finding()], 'file')[0].label).toBe('(unknown)');
+  });
+});
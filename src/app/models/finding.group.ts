@@ -0,0 +1,81 @@
+import type { Finding, Severity } from './finding.model';
+import { cweOf, dirOf } from './finding.filter';
+
+export type GroupBy = 'none' | 'rule' | 'file' | 'dir' | 'cwe';
+
+export interface FindingGroup {
+  key: string;
+  label: string;
+  findings: Finding[];
+  counts: Record<Severity, number>;
+}
+
+const SEV_ORDER: Severity[] = [
+  'critical',
+  'high',
+  'medium',
+  'low',
+  'info',
+  'unknown',
+];
+
+function keysOf(f: Finding, by: GroupBy): string[] {
+  switch (by) {
+    case 'rule':
+      return [f.ruleId];
+    case 'file':
+      return [f.location?.file || ''];
+    case 'dir':
+      return [dirOf(f.location?.file)];
+    case 'cwe': {
+      // a finding mapped to several CWEs shows up in each of them
+      const cwe = cweOf(f);
+      return cwe.length ? cwe : [''];
+    }
+    default:
+      return [''];
+  }
+}
+
+function labelOf(key: string, by: GroupBy): string {
+  if (key) return key;
+  if (by === 'cwe') return '(no CWE)';
+  if (by === 'dir') return '(root)';
+  return '(unknown)';
+}
+
+/** Collapse findings into sections; worst severity first, then biggest */
+export function groupFindings(list: Finding[], by: GroupBy): FindingGroup[] {
+  const groups = new Map<string, FindingGroup>();
+  for (const f of list) {
+    for (const key of keysOf(f, by)) {
+      let g = groups.get(key);
+      if (!g) {
+        g = {
+          key,
+          label: labelOf(key, by),
+          findings: [],
+          counts: {
+            critical: 0,
+            high: 0,
+            medium: 0,
+            low: 0,
+            info: 0,
+            unknown: 0,
+          },
+        };
+        groups.set(key, g);
+      }
+      g.findings.push(f);
+      g.counts[f.severity] = (g.counts[f.severity] ?? 0) + 1;
+    }
+  }
+
+  const worst = (g: FindingGroup) => SEV_ORDER.findIndex((s) => g.counts[s] > 0);
+  return [...groups.values()].sort(
+    (a, b) =>
+      worst(a) - worst(b) ||
+      b.findings.length - a.findings.length ||
+      a.label.localeCompare(b.label)
+  );
+}
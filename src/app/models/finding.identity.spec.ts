@@ -0,0 +1,88 @@
+import type { Finding } from './finding.model';
+import { finding as base } from '../../testing/finding.fixture';
+import {
+  IDENTITY_KEY,
+  isPlaceholder,
+  matchKeys,
+  realFingerprints,
+  withStableIds,
+} from './finding.identity';
+
+const finding = (extra: Partial<Finding> = {}): Finding =>
+  base({
+    ruleId: 'py.sqli',
+    message: 'SQL injection',
+    location: { file: 'app/db.py', line: 10, snippet: 'cur.execute(q)' },
+    ...extra,
+  });
+
+describe('isPlaceholder / realFingerprints', () => {
+  it('recognizes the "requires login" placeholder as value or match key', () => {
+    expect(isPlaceholder('requires login')).toBeTrue();
+    expect(isPlaceholder('matchBasedId/v1:requires login')).toBeTrue();
+    expect(isPlaceholder('abc123')).toBeFalse();
+    expect(isPlaceholder(undefined)).toBeFalse();
+  });
+
+  it('drops placeholder and empty values, undefined when nothing is left', () => {
+    expect(realFingerprints({ a: 'requires login', b: '', c: 'abc' })).toEqual({
+      c: 'abc',
+    });
+    expect(realFingerprints({ a: 'requires login' })).toBeUndefined();
+    expect(realFingerprints(undefined)).toBeUndefined();
+  });
+});
+
+describe('matchKeys', () => {
+  it('prefers the matchBasedId fingerprint', () => {
+    const f = finding({
+      fingerprints: { 'a/v1': 'x', 'matchBasedId/v1': 'm' },
+    });
+    expect(matchKeys(f).fp).toBe('matchBasedId/v1:m');
+  });
+
+  it('ignores line numbers and whitespace in the location key', () => {
+    const a = finding();
+    const b = finding({
+      location: { file: 'app/db.py', line: 42, snippet: '  cur.execute(q)\n' },
+    });
+    expect(matchKeys(a).loc).toBe(matchKeys(b).loc);
+  });
+
+  it('treats placeholder snippets as missing', () => {
+    const a = finding({
+      location: { file: 'app/db.py', snippet: 'requires login' },
+    });
+    const b = finding({
+      message: 'other message',
+      location: { file: 'app/db.py', snippet: 'requires login' },
+    });
+    expect(matchKeys(a).fp).toBeUndefined();
+    expect(matchKeys(a).loc).not.toBe(matchKeys(b).loc);
+  });
+
+  it('restores the identity carried by our own export', () => {
+    const original = matchKeys(finding()).loc;
+    const reimported = finding({
+      location: { file: 'app/db.py', snippet: 'changed' },
+      fingerprints: { [IDENTITY_KEY]: original },
+    });
+    expect(matchKeys(reimported)).toEqual({ loc: original });
+  });
+});
+
+describe('withStableIds', () => {
+  it('gives repeated matches an occurrence suffix', () => {
+    const [a, b] = withStableIds([finding(), finding()]);
+    expect(b.id).toBe(`${a.id}-2`);
+    expect(a.fingerprint).toBe(b.fingerprint);
+  });
+
+  it('keeps ids across scans', () => {
+    expect(withStableIds([finding()])[0].id).toBe(
+      withStableIds([
+        finding({ location: { ...finding().location!, line: 99 } }),
+      ])[0].id
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import type { Finding } from './finding.model';
+
+// fingerprint key our own SARIF export uses to carry `Finding.fingerprint` verbatim
+export const IDENTITY_KEY = 'aisec/v1';
+
+/** Simple stable hash for UI keys */
+export function hashId(input: string): string {
+  let h = 0;
+  for (let i = 0; i < input.length; i++) h = (h * 31 + input.charCodeAt(i)) | 0;
+  return Math.abs(h).toString(36);
+}
+
+/**
+ * OSS Semgrep prints "requires login" in place of fingerprints and matched
+ * lines; as a value or a `key:value` match key it identifies nothing.
+ */
+export function isPlaceholder(v?: string): boolean {
+  return /(^|:)\s*requires login\s*$/i.test(v || '');
+}
+
+/** A scanner's fingerprint bag without placeholder values, undefined when empty */
+export function realFingerprints(
+  bag?: Record<string, string>
+): Record<string, string> | undefined {
+  const out = Object.entries(bag || {}).filter(
+    ([, v]) => typeof v === 'string' && v && !isPlaceholder(v)
+  );
+  return out.length ? Object.fromEntries(out) : undefined;
+}
+
+/** Collapse whitespace so re-indented or re-wrapped code still matches */
+export function normalizeSnippet(s?: string): string {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Match keys for a finding, strongest first:
+ * - fp:  scanner fingerprint (Semgrep's matchBasedId, else any other fingerprint)
+ * - loc: rule + file + normalized snippet (falls back to message when no snippet)
+ * Neither includes line numbers, so shifting code keeps the identity.
+ */
+export function matchKeys(f: Finding): { fp?: string; loc: string } {
+  const fps = realFingerprints(f.fingerprints) || {};
+
+  // re-imported export: the original identity wins over everything else
+  const own = fps[IDENTITY_KEY];
+  if (own && own.startsWith('loc:')) return { loc: own };
+
+  const keys = Object.keys(fps)
+    .filter((k) => k !== IDENTITY_KEY)
+    .sort();
+  const matchBased = keys.find((k) => /matchbasedid/i.test(k));
+  const fpKey = matchBased ?? keys[0];
+  const fpVal = fpKey ? fps[fpKey] : undefined;
+
+  const snippet = isPlaceholder(f.location?.snippet)
+    ? undefined
+    : f.location?.snippet;
+  const loc = [
+    f.tool,
+    f.ruleId,
+    f.location?.file ?? '',
+    normalizeSnippet(snippet || f.message),
+  ].join('|');
+
+  return {
+    fp: own || (fpVal ? `${fpKey}:${fpVal}` : undefined),
+    loc: `loc:${hashId(loc)}`,
+  };
+}
+
+/** Single stable identity string for a finding */
+export function fingerprintOf(f: Finding): string {
+  const { fp, loc } = matchKeys(f);
+  return fp ?? loc;
+}
+
+/**
+ * Give every finding a stable `fingerprint` and an id derived from it.
+ * Identical matches (same rule on the same snippet twice in a file) get an
+ * occurrence suffix so ids stay unique within a scan.
+ */
+export function withStableIds<T extends Finding>(list: T[]): T[] {
+  const seen = new Map<string, number>();
+  return list.map((f) => {
+    const fingerprint = fingerprintOf(f);
+    const n = (seen.get(fingerprint) ?? 0) + 1;
+    seen.set(fingerprint, n);
+    const id = hashId(fingerprint) + (n > 1 ? `-${n}` : '');
+    return { ...f, id, fingerprint };
+  });
+}
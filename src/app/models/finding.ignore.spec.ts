@@ -0,0 +1,109 @@
+import { finding as base } from '../../testing/finding.fixture';
+import {
+  applyIgnore,
+  filteredCount,
+  mergeFilterStats,
+  parseBaseline,
+} from './finding.ignore';
+
+const finding = (file: string, fingerprint?: string) =>
+  base({ location: { file }, fingerprint });
+
+const kept = (files: string[], paths: string[]) =>
+  applyIgnore(
+    files.map((f) => finding(f)),
+    { paths, baseline: [] }
+  ).kept.map((f) => f.location?.file);
+
+describe('applyIgnore', () => {
+  it('matches unanchored patterns at any depth', () => {
+    expect(
+      kept(
+        ['node_modules/a.js', 'web/node_modules/b.js', 'src/c.js'],
+        ['node_modules/']
+      )
+    ).toEqual(['src/c.js']);
+  });
+
+  it('anchors patterns with a slash to the repo root', () => {
+    expect(kept(['test/a.py', 'src/test/b.py'], ['/test'])).toEqual([
+      'src/test/b.py',
+    ]);
+  });
+
+  it('lets a later ! line re-include a path', () => {
+    expect(
+      kept(['vendor/a.js', 'vendor/keep.js'], ['vendor/', '!vendor/keep.js'])
+    ).toEqual(['vendor/keep.js']);
+  });
+
+  it('skips comments and counts drops per pattern and baseline', () => {
+    const { kept, stats } = applyIgnore(
+      [finding('dist/a.js'), finding('dist/b.js'), finding('src/c.ts', 'fp1')],
+      { paths: ['# build output', 'dist'], baseline: ['fp1'] }
+    );
+    expect(kept).toEqual([]);
+    expect(stats).toEqual({ byPath: { dist: 2 }, baseline: 1 });
+    expect(filteredCount(stats)).toBe(3);
+  });
+});
+
+describe('applyIgnore baseline', () => {
+  // as `semgrep --json` prints it in extra.fingerprint
+  const matchBasedId =
+    '2f5a1b8d7c6e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a_0';
+  const scanned = base({
+    location: { file: 'app/db.py' },
+    fingerprints: { 'matchBasedId/v1': matchBasedId },
+    fingerprint: `matchBasedId/v1:${matchBasedId}`,
+  });
+  const baselined = (baseline: string[]) =>
+    applyIgnore([scanned], { paths: [], baseline }).stats.baseline;
+
+  it('accepts raw scanner fingerprints, keyed ones and our own', () => {
+    expect(baselined([matchBasedId])).toBe(1);
+    expect(baselined([`matchBasedId/v1:${matchBasedId}`])).toBe(1);
+    expect(baselined([scanned.fingerprint!])).toBe(1);
+  });
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(baselined([`  ${matchBasedId.toUpperCase()}\t`])).toBe(1);
+    expect(baselined(['something-else'])).toBe(0);
+  });
+
+  it('never matches on the "requires login" placeholder', () => {
+    const unlicensed = base({
+      fingerprints: { 'matchBasedId/v1': 'requires login' },
+    });
+    const { stats } = applyIgnore([unlicensed], {
+      paths: [],
+      baseline: ['requires login'],
+    });
+    expect(stats.baseline).toBe(0);
+  });
+});
+
+describe('mergeFilterStats', () => {
+  it('adds counts of several ingests', () => {
+    expect(
+      mergeFilterStats(
+        { byPath: { dist: 1 }, baseline: 1 },
+        { byPath: { dist: 2, vendor: 1 }, baseline: 0 }
+      )
+    ).toEqual({ byPath: { dist: 3, vendor: 1 }, baseline: 1 });
+  });
+});
+
+describe('parseBaseline', () => {
+  it('reads JSON arrays, fingerprint bags and exported findings', () => {
+    expect(parseBaseline('["a", "b"]')).toEqual(['a', 'b']);
+    expect(parseBaseline('{"fingerprints": ["a"]}')).toEqual(['a']);
+    expect(
+      parseBaseline('{"findings": [{"fingerprint": "a"}, {"id": "x"}]}')
+    ).toEqual(['a']);
+  });
+
+  it('falls back to one fingerprint per line', () => {
+    expect(parseBaseline('# baseline\na\n\n  b  \n')).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,140 @@
+import type { Finding } from './finding.model';
+import { realFingerprints } from './finding.identity';
+import { globMatch } from './glob';
+
+// Project-level (per repo) ignore configuration
+export interface IgnoreConfig {
+  paths: string[]; // .semgrepignore / .gitignore style lines
+  baseline: string[]; // fingerprints of pre-existing findings
+}
+
+export const EMPTY_IGNORE: IgnoreConfig = { paths: [], baseline: [] };
+
+// What was dropped at ingestion and why
+export interface FilterStats {
+  byPath: Record<string, number>; // ignore pattern → findings it dropped
+  baseline: number;
+}
+
+interface IgnorePattern {
+  source: string; // the line as written, shown in the UI
+  negate: boolean;
+  glob: string;
+}
+
+/**
+ * gitignore semantics, close enough for finding paths:
+ * `#` comments, `!` re-includes, a leading or inner `/` anchors to the repo
+ * root, a trailing `/` means a directory; the last matching line wins.
+ */
+function compile(lines: string[]): IgnorePattern[] {
+  const out: IgnorePattern[] = [];
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const negate = line.startsWith('!');
+    let glob = negate ? line.slice(1) : line;
+    glob = glob.replace(/\/+$/, '');
+    const anchored = glob.includes('/');
+    glob = glob.replace(/^\/+/, '');
+    if (!glob) continue;
+    out.push({ source: line, negate, glob: anchored ? glob : `**/${glob}` });
+  }
+  return out;
+}
+
+/** Pattern that ignores a path (undefined when the path is kept) */
+export function ignoredBy(
+  file: string | undefined,
+  patterns: IgnorePattern[]
+): string | undefined {
+  if (!file) return undefined;
+  let hit: string | undefined;
+  for (const p of patterns) {
+    // a pattern naming a directory covers everything below it
+    if (globMatch(p.glob, file) || globMatch(`${p.glob}/**`, file))
+      hit = p.negate ? undefined : p.source;
+  }
+  return hit;
+}
+
+const normalize = (v: string) => v.trim().toLowerCase();
+
+/**
+ * Everything a baseline line may name a finding by: our own fingerprint, or a
+ * scanner fingerprint either bare (as Semgrep prints it) or as `key:value`.
+ */
+function baselineKeys(f: Finding): string[] {
+  const scanner = Object.entries(realFingerprints(f.fingerprints) ?? {});
+  return [
+    f.fingerprint,
+    ...scanner.flatMap(([k, v]) => [v, `${k}:${v}`]),
+  ].flatMap((v) => (v ? [normalize(v)] : []));
+}
+
+/** Split findings into what reaches the store and counts of what did not */
+export function applyIgnore(
+  list: Finding[],
+  config: IgnoreConfig
+): { kept: Finding[]; stats: FilterStats } {
+  const patterns = compile(config.paths);
+  const baseline = new Set(config.baseline.map(normalize));
+  const stats: FilterStats = { byPath: {}, baseline: 0 };
+  const kept: Finding[] = [];
+
+  for (const f of list) {
+    const pattern = ignoredBy(f.location?.file, patterns);
+    if (pattern) {
+      stats.byPath[pattern] = (stats.byPath[pattern] ?? 0) + 1;
+    } else if (baselineKeys(f).some((k) => baseline.has(k))) {
+      stats.baseline++;
+    } else {
+      kept.push(f);
+    }
+  }
+  return { kept, stats };
+}
+
+export function filteredCount(stats?: FilterStats): number {
+  if (!stats) return 0;
+  return (
+    Object.values(stats.byPath).reduce((a, b) => a + b, 0) + stats.baseline
+  );
+}
+
+/** Sum stats of several ingests into the same session */
+export function mergeFilterStats(
+  a: FilterStats | undefined,
+  b: FilterStats
+): FilterStats {
+  const byPath = { ...(a?.byPath ?? {}) };
+  for (const [k, n] of Object.entries(b.byPath))
+    byPath[k] = (byPath[k] ?? 0) + n;
+  return { byPath, baseline: (a?.baseline ?? 0) + b.baseline };
+}
+
+/**
+ * Baseline file → fingerprints. Accepts a JSON array, `{ fingerprints: [...] }`,
+ * an exported findings list (objects with `fingerprint`), or one per line.
+ */
+export function parseBaseline(text: string): string[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return text
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter((l) => l && !l.startsWith('#'));
+  }
+  const list: any[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.fingerprints)
+    ? data.fingerprints
+    : Array.isArray(data?.findings)
+    ? data.findings
+    : [];
+  return list
+    .map((v) => (typeof v === 'string' ? v : v?.fingerprint))
+    .filter((v): v is string => typeof v === 'string' && !!v);
+}
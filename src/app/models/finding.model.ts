@@ -1,4 +1,48 @@
-export type ToolKind = 'semgrep' | 'vanta' | 'harness';
+import type { PipelineRun } from './pipeline-run.model';
+import type {
+  Cvss,
+  FixVia,
+  PackageRef,
+  VexAnalysis,
+} from './dependency.model';
+
+// Built-in tools; any other scanner registers itself at runtime (see registerToolKind)
+export type BuiltinTool =
+  | 'semgrep'
+  | 'sarif'
+  | 'vanta'
+  | 'harness'
+  | 'github-actions'
+  | 'gitlab-ci'
+  | 'npm-audit'
+  | 'osv-scanner'
+  | 'cyclonedx';
+export type ToolKind = BuiltinTool | (string & {});
+
+// Which page / widget a tool's findings belong to
+export type ToolCategory = 'code' | 'compliance' | 'pipeline' | 'dependency';
+
+const TOOL_CATEGORIES: Record<string, ToolCategory> = {
+  semgrep: 'code',
+  sarif: 'code',
+  vanta: 'compliance',
+  harness: 'pipeline',
+  'github-actions': 'pipeline',
+  'gitlab-ci': 'pipeline',
+  'npm-audit': 'dependency',
+  'osv-scanner': 'dependency',
+  cyclonedx: 'dependency',
+};
+
+/** Register (or re-categorize) a tool so components pick it up without edits */
+export function registerToolKind(tool: ToolKind, category: ToolCategory) {
+  TOOL_CATEGORIES[tool] = category;
+}
+
+/** Category for a tool; unknown scanners default to code findings */
+export function categoryOf(tool: ToolKind): ToolCategory {
+  return TOOL_CATEGORIES[tool] ?? 'code';
+}
 
 export type Severity =
   | 'critical'
@@ -8,30 +52,104 @@ export type Severity =
   | 'info'
   | 'unknown';
 
+export type RemediationStatus =
+  | 'open'
+  | 'in_progress'
+  | 'fixed'
+  | 'accepted_risk';
+
+// Dismissal of a finding; carried over to later scans by fingerprint
+export type TriageState = 'suppressed' | 'false_positive' | 'accepted_risk';
+
+export interface Triage {
+  state: TriageState;
+  justification: string; // mandatory
+  author: string;
+  createdAt: string; // ISO timestamp
+  expiresAt?: string; // yyyy-mm-dd; finding reappears after this day
+}
+
+/** Triaged and not yet expired → hidden by default */
+export function isSuppressed(f: { triage?: Triage }, today?: string): boolean {
+  const t = f.triage;
+  if (!t) return false;
+  const day = today ?? new Date().toISOString().slice(0, 10);
+  return !t.expiresAt || t.expiresAt >= day;
+}
+
 export interface Location {
   file?: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
   url?: string; // deep link to file/line (optional)
   snippet?: string; // field for source code snippet
+  message?: string; // SARIF location message (e.g. "user input reaches here")
+  context?: { line?: number; snippet?: string }; // SARIF contextRegion
+}
+
+// One hop of a taint path (SARIF threadFlow location)
+export interface FlowStep extends Location {
+  kinds?: string[]; // "source", "sink", ...
+  nestingLevel?: number;
+  importance?: 'important' | 'essential' | 'unimportant';
+}
+
+// Source → sink path; one per SARIF threadFlow
+export interface CodeFlow {
+  message?: string;
+  steps: FlowStep[];
+}
+
+// Rule metadata from the SARIF driver (tool.driver.rules[])
+export interface RuleInfo {
+  name?: string;
+  shortDescription?: string;
+  fullDescription?: string;
+  help?: string; // plain text help
+  helpMarkdown?: string;
+  helpUri?: string;
+}
+
+// A control of one framework, e.g. { framework: 'soc2', control: 'CC7.1' }
+export interface ControlRef {
+  framework: string; // key from control.dataset.ts (soc2, iso27001, ...)
+  control: string;
 }
 
 // ---------- Base (common) ----------
 export interface FindingBase {
   id: string;
   tool: ToolKind;
+  driver?: string; // originating scanner (SARIF tool.driver.name)
   ruleId: string;
   title?: string;
   message: string;
-  severity: Severity;
+  severity: Severity; // effective severity (after local policies)
+  originalSeverity?: Severity; // as reported by the scanner, when a policy changed it
   location?: Location;
+  locations?: Location[]; // every SARIF location (location is the first)
+  relatedLocations?: Location[];
+  codeFlows?: CodeFlow[];
+  rule?: RuleInfo;
+  mappedControls?: ControlRef[]; // framework controls affected (set at ingestion)
+  mappingVersion?: string; // CONTROL_MAP_VERSION mappedControls was built with
   fingerprints?: Record<string, string>;
+  fingerprint?: string; // stable identity across scans (see finding.identity.ts)
   tags?: string[];
   createdAt?: string;
   raw?: unknown;
 
   aiExplanation?: string; // short plain-language explanation
   aiRemediation?: string; // step-by-step fix or patch guidance
+
+  // remediation workflow (edited from the Remediation Queue)
+  status?: RemediationStatus; // unset = open
+  assignee?: string;
+  dueDate?: string; // yyyy-mm-dd
+
+  triage?: Triage;
 }
 
 // ---------- Semgrep ----------
@@ -42,17 +160,86 @@ export interface SemgrepFinding extends FindingBase {
   cwe?: string[];
 }
 
-// ---------- Vanta (placeholder) ----------
+// ---------- Generic SARIF (CodeQL, Bandit, Trivy, Checkov, gitleaks, ...) ----------
+export interface SarifFinding extends FindingBase {
+  tool: ToolKind;
+  cwe?: string[];
+  precision?: string; // SARIF properties.precision (very-high | high | medium | low)
+  securitySeverity?: number; // SARIF properties['security-severity'] (CVSS-like 0-10)
+}
+
+// ---------- Vanta ----------
+export type ControlStatus =
+  | 'passing'
+  | 'failing'
+  | 'in_progress'
+  | 'not_started'
+  | 'not_applicable';
+
+export interface ControlEvidence {
+  name: string;
+  status?: ControlStatus;
+  url?: string;
+  updatedAt?: string; // ISO timestamp
+}
+
+// One control of a compliance framework
+export interface VantaControl {
+  id: string;
+  name: string;
+  description?: string;
+  domain?: string; // e.g. "Access control"
+  status: ControlStatus;
+  owner?: string;
+  dueDate?: string; // yyyy-mm-dd
+  evidence?: ControlEvidence[];
+}
+
+// One finding per framework; progress lives in fields, not in `message`
 export interface VantaFinding extends FindingBase {
   tool: 'vanta';
-  // add vanta-specific fields later
+  frameworkId?: string;
+  controlsDone?: number;
+  controlsTotal?: number; // applicable controls (not_applicable excluded)
+  controls?: VantaControl[];
+  owner?: string;
 }
 
-// ---------- Harness (placeholder) ----------
+// ---------- Harness ----------
 export interface HarnessFinding extends FindingBase {
   tool: 'harness';
-  // add harness-specific fields later
+  cwe?: string[];
+  run?: PipelineRun; // set on the per-execution summary finding
+  stage?: string; // stage id the finding is about
+}
+
+// ---------- GitHub Actions / GitLab CI workflow files ----------
+export interface WorkflowFinding extends FindingBase {
+  tool: 'github-actions' | 'gitlab-ci';
+  cwe?: string[];
+  job?: string; // job id the finding is about
+}
+
+// ---------- Dependencies (npm audit, OSV-Scanner, CycloneDX SBOM + VEX) ----------
+export interface DependencyFinding extends FindingBase {
+  tool: 'npm-audit' | 'osv-scanner' | 'cyclonedx';
+  package: PackageRef;
+  vulnId: string; // GHSA / CVE / OSV id (also the ruleId)
+  aliases?: string[];
+  cvss?: Cvss;
+  cwe?: string[];
+  affectedRange?: string; // e.g. "<4.17.21"
+  fixedVersion?: string; // first release of the package without the issue
+  fixVia?: FixVia; // direct dependency to bump instead
+  direct?: boolean;
+  vex?: VexAnalysis;
 }
 
 // Union for listing everything together
-export type Finding = SemgrepFinding | VantaFinding | HarnessFinding;
+export type Finding =
+  | SemgrepFinding
+  | SarifFinding
+  | VantaFinding
+  | HarnessFinding
+  | WorkflowFinding
+  | DependencyFinding;
@@ -0,0 +1,48 @@
+import type { Finding, Severity } from './finding.model';
+import { fingerprintOf } from './finding.identity';
+import { toSeverity } from './sarif.mapper';
+import { effectiveSeverity, type SeverityPolicy } from './severity.policy';
+import { withControls } from './control.mapping';
+
+const SEVERITIES = new Set<string>([
+  'critical',
+  'high',
+  'medium',
+  'low',
+  'info',
+  'unknown',
+]);
+
+/** Whatever an adapter put in `severity` → one of our six levels */
+function coerceSeverity(v: unknown): Severity {
+  const s = String(v ?? '').toLowerCase();
+  return SEVERITIES.has(s) ? (s as Severity) : toSeverity(s);
+}
+
+/**
+ * The step every adapter's output goes through before it reaches the store:
+ * stable identity, a valid severity, the local severity policy, and the
+ * framework controls each finding affects (bundled mapping dataset).
+ * The scanner's own severity is kept in `originalSeverity` when the policy changes it.
+ */
+export function normalizeFindings(
+  list: Finding[],
+  opts: { severity?: SeverityPolicy } = {}
+): Finding[] {
+  const policy = opts.severity ?? [];
+  const normalized = list.map((f) => {
+    const reported = coerceSeverity(f.severity);
+    const severity = policy.length
+      ? effectiveSeverity(f, policy, reported)
+      : reported;
+    const originalSeverity = f.originalSeverity ?? reported;
+    return {
+      ...f,
+      severity,
+      originalSeverity:
+        originalSeverity !== severity ? originalSeverity : undefined,
+      fingerprint: f.fingerprint || fingerprintOf(f),
+    };
+  });
+  return withControls(normalized);
+}
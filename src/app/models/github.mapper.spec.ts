@@ -0,0 +1,151 @@
+import type { WorkflowFinding } from './finding.model';
+import {
+  injectedExpressions,
+  isGithubWorkflow,
+  mapGithubWorkflowToFindings,
+} from './github.mapper';
+
+const FILE = '.github/workflows/ci.yml';
+
+const scan = (text: string, file = FILE) =>
+  mapGithubWorkflowToFindings({ file, text }) as WorkflowFinding[];
+
+const byRule = (list: WorkflowFinding[], ruleId: string) =>
+  list.filter((f) => f.ruleId === ruleId);
+
+describe('isGithubWorkflow', () => {
+  it('needs on: and jobs: at the top level', () => {
+    expect(
+      isGithubWorkflow({ file: FILE, text: 'on: push\njobs:\n' })
+    ).toBeTrue();
+    expect(isGithubWorkflow({ file: FILE, text: 'jobs:\n' })).toBeFalse();
+    expect(isGithubWorkflow({ on: 'push', jobs: {} })).toBeFalse();
+  });
+});
+
+describe('injectedExpressions', () => {
+  it('keeps attacker-controlled fields and drops ids and numbers', () => {
+    expect(
+      injectedExpressions(
+        'echo ${{ github.event.issue.title }} ${{ github.event.issue.number }} ${{ github.head_ref }}'
+      )
+    ).toEqual(['github.event.issue.title', 'github.head_ref']);
+  });
+});
+
+describe('mapGithubWorkflowToFindings', () => {
+  it('flags third-party actions not pinned to a SHA', () => {
+    const list = scan(`on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - uses: some/action@v1
+      - uses: other/action@0123456789abcdef0123456789abcdef01234567
+`);
+    const unpinned = byRule(list, 'GHA-UNPINNED-ACTION');
+    expect(unpinned.length).toBe(1);
+    expect(unpinned[0].location?.line).toBe(7);
+    expect(unpinned[0].job).toBe('build');
+    expect(unpinned[0].location?.file).toBe(FILE);
+  });
+
+  it('flags write-all permissions at workflow and job level', () => {
+    const list = scan(`on: push
+permissions: write-all
+jobs:
+  deploy:
+    permissions: write-all
+    runs-on: ubuntu-latest
+`);
+    const lines = byRule(list, 'GHA-WRITE-ALL-PERMISSIONS').map(
+      (f) => f.location?.line
+    );
+    expect(lines).toEqual([2, 5]);
+  });
+
+  it('reports each injected expression once, with its own id', () => {
+    const list = scan(`on: issues
+jobs:
+  greet:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "\${{ github.event.issue.title }} \${{ github.event.issue.body }}"
+`);
+    const injections = byRule(list, 'GHA-SCRIPT-INJECTION');
+    expect(injections.length).toBe(2);
+    expect(injections.every((f) => f.location?.line === 6)).toBeTrue();
+    expect(injections[0].id).not.toBe(injections[1].id);
+  });
+
+  it('flags PR head checkouts in pull_request_target workflows only', () => {
+    const workflow = (on: string) => `on: ${on}
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+        with:
+          ref: \${{ github.event.pull_request.head.sha }}
+`;
+    const privileged = byRule(
+      scan(workflow('pull_request_target')),
+      'GHA-PR-TARGET-CHECKOUT'
+    );
+    expect(privileged.length).toBe(1);
+    expect(privileged[0].severity).toBe('critical');
+    expect(privileged[0].location?.line).toBe(8);
+    expect(
+      byRule(scan(workflow('pull_request')), 'GHA-PR-TARGET-CHECKOUT').length
+    ).toBe(0);
+  });
+
+  it('masks literal secrets and ignores secret references', () => {
+    const list = scan(`on: push
+env:
+  API_TOKEN: hunter22
+  OTHER_TOKEN: \${{ secrets.OTHER_TOKEN }}
+jobs: {}
+`);
+    const secrets = byRule(list, 'GHA-PLAINTEXT-SECRET');
+    expect(secrets.length).toBe(1);
+    expect(secrets[0].location?.snippet).toBe('API_TOKEN: hu******');
+  });
+
+  it('keeps scanning jobs after a wrapped if: condition', () => {
+    const list = scan(`on: push
+jobs:
+  deploy:
+    if: github.event_name == 'push' &&
+      github.ref == 'refs/heads/main'
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+  release:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: some/action@v1
+`);
+    expect(byRule(list, 'GHA-UNPINNED-ACTION').map((f) => f.job)).toEqual([
+      'release',
+    ]);
+  });
+
+  it('throws on YAML it cannot read instead of reporting nothing', () => {
+    expect(() =>
+      scan('on: push\njobs:\n  a: &job\n    runs-on: x\n  b: *job\n')
+    ).toThrowError(/YAML line 3/);
+  });
+
+  it('gives the same finding in two files different ids', () => {
+    const text = `on: push
+permissions: write-all
+jobs: {}
+`;
+    const [a] = scan(text, '.github/workflows/a.yml');
+    const [b] = scan(text, '.github/workflows/b.yml');
+    expect(a.id).not.toBe(b.id);
+    expect(scan(text, '.github/workflows/a.yml')[0].id).toBe(a.id);
+  });
+});
@@ -0,0 +1,300 @@
+import type { Finding, WorkflowFinding } from './finding.model';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import { withStableIds } from './finding.identity';
+import {
+  dig,
+  isMutableImage,
+  isPlainSecret,
+  isUnpinnedUses,
+  mask,
+  str,
+  type PipelineRule,
+} from './pipeline.checks';
+import {
+  asList,
+  isMap,
+  isYamlSource,
+  parseYaml,
+  type YamlDoc,
+  type YamlMap,
+  type YamlSource,
+  type YamlValue,
+} from './yaml';
+
+export type GithubRuleKey =
+  | 'prTargetCheckout'
+  | 'unpinnedAction'
+  | 'writeAll'
+  | 'scriptInjection'
+  | 'plaintextSecret';
+
+export const GITHUB_RULES: Record<GithubRuleKey, PipelineRule> = {
+  prTargetCheckout: {
+    id: 'GHA-PR-TARGET-CHECKOUT',
+    title: 'pull_request_target checks out untrusted PR code',
+    severity: 'critical',
+    cwe: ['CWE-829'],
+    help: 'Workflows triggered by pull_request_target (or workflow_run) run with write tokens and secrets. Do not check out or run the PR head there; use pull_request, or split the privileged part into a separate workflow.',
+  },
+  unpinnedAction: {
+    id: 'GHA-UNPINNED-ACTION',
+    title: 'Third-party action not pinned to a commit SHA',
+    severity: 'medium',
+    cwe: ['CWE-829'],
+    help: 'Pin third-party actions and reusable workflows to a full 40-character commit SHA (keep the version in a comment).',
+  },
+  writeAll: {
+    id: 'GHA-WRITE-ALL-PERMISSIONS',
+    title: 'Workflow token has write-all permissions',
+    severity: 'high',
+    cwe: ['CWE-250'],
+    help: 'Declare the minimal `permissions:` each job needs (e.g. contents: read) instead of write-all.',
+  },
+  scriptInjection: {
+    id: 'GHA-SCRIPT-INJECTION',
+    title: 'Script injection via untrusted event data',
+    severity: 'high',
+    cwe: ['CWE-78'],
+    help: 'Pass untrusted values through an environment variable (env: TITLE: ${{ github.event.issue.title }}) and reference "$TITLE" in the script instead of interpolating ${{ }} into it.',
+  },
+  plaintextSecret: {
+    id: 'GHA-PLAINTEXT-SECRET',
+    title: 'Secret in plain workflow env',
+    severity: 'high',
+    cwe: ['CWE-798'],
+    help: 'Move the value to repository or environment secrets and reference it with ${{ secrets.NAME }}. Rotate the exposed value.',
+  },
+};
+
+/** Workflow YAML: top-level `on:` and `jobs:` */
+export function isGithubWorkflow(payload: any): payload is YamlSource {
+  return (
+    isYamlSource(payload) &&
+    /^["']?on["']?\s*:/m.test(payload.text) &&
+    /^jobs\s*:/m.test(payload.text)
+  );
+}
+
+// triggers that run with a privileged token on code from forks
+const PRIVILEGED_TRIGGERS = ['pull_request_target', 'workflow_run'];
+
+// PR head refs: checking these out in a privileged workflow runs attacker code
+const PR_HEAD =
+  /github\.event\.(pull_request\.head\.(sha|ref)|workflow_run\.head_(sha|branch))|github\.head_ref|refs\/pull\//;
+const PR_CHECKOUT_CMD =
+  /gh pr checkout|git (fetch|checkout)[^\n]*(pull\/|head\.(sha|ref)|head_ref)/;
+
+// ${{ github.event.* }} / ${{ github.head_ref }}, minus ids, numbers and SHAs
+const EVENT_EXPR =
+  /\$\{\{\s*(github\.event\.[\w.*[\]'"-]+|github\.head_ref)\s*\}\}/g;
+const SAFE_EVENT_FIELD =
+  /\.(number|id|sha|run_id|run_number|run_attempt|created_at|updated_at|merged|draft|node_id)$/;
+
+const FIRST_PARTY_OWNERS = ['actions', 'github'];
+
+function triggersOf(on: YamlValue | undefined): string[] {
+  if (typeof on === 'string') return [on];
+  if (Array.isArray(on)) return on.map((t) => str(t));
+  return isMap(on) ? Object.keys(on) : [];
+}
+
+/** Untrusted ${{ }} expressions in a script */
+export function injectedExpressions(script: string): string[] {
+  return [...script.matchAll(EVENT_EXPR)]
+    .map((m) => m[1])
+    .filter((e) => !SAFE_EVENT_FIELD.test(e));
+}
+
+/**
+ * Run the GitHub Actions rule pack over one workflow file.
+ * Every finding points at the line of the offending key (or script line).
+ */
+export function scanGithubWorkflow(
+  doc: YamlDoc,
+  file: string,
+  createdAt?: string
+): WorkflowFinding[] {
+  const root = isMap(doc.value) ? doc.value : {};
+  const out: WorkflowFinding[] = [];
+
+  const report = (
+    key: GithubRuleKey,
+    line: number | undefined,
+    message: string,
+    extra: { job?: string; snippet?: string } = {}
+  ) => {
+    const snippet =
+      extra.snippet ?? (line ? doc.source[line - 1].trim() : undefined);
+    out.push(
+      workflowFinding(
+        key,
+        message,
+        { file, line, snippet },
+        extra.job,
+        createdAt
+      )
+    );
+  };
+
+  // first source line at or after `from` that contains `text` (block scalars)
+  const lineContaining = (from: number | undefined, text: string) => {
+    if (!from) return undefined;
+    for (let i = from - 1; i < doc.source.length; i++)
+      if (doc.source[i].includes(text)) return i + 1;
+    return from;
+  };
+
+  const checkEnv = (
+    env: YamlValue | undefined,
+    where: string,
+    job?: string
+  ) => {
+    if (!isMap(env)) return;
+    for (const [name, raw] of Object.entries(env)) {
+      const value = str(raw);
+      if (isPlainSecret(name, value))
+        report(
+          'plaintextSecret',
+          doc.lineOf(env, name),
+          `${where} sets ${name} to a literal secret value.`,
+          { job, snippet: `${name}: ${mask(value)}` }
+        );
+    }
+  };
+
+  const checkPermissions = (owner: YamlMap, where: string, job?: string) => {
+    if (str(owner['permissions']) === 'write-all')
+      report(
+        'writeAll',
+        doc.lineOf(owner, 'permissions'),
+        `${where} grants the GITHUB_TOKEN write-all permissions.`,
+        { job }
+      );
+  };
+
+  const checkUses = (owner: YamlMap, where: string, job?: string) => {
+    const uses = str(owner['uses']);
+    if (!uses) return;
+    const line = doc.lineOf(owner, 'uses');
+    if (uses.startsWith('docker://')) {
+      if (isMutableImage(uses.slice('docker://'.length)))
+        report('unpinnedAction', line, `${where} runs mutable image ${uses}.`, {
+          job,
+        });
+      return;
+    }
+    const org = uses.split('/')[0].toLowerCase();
+    if (!FIRST_PARTY_OWNERS.includes(org) && isUnpinnedUses(uses))
+      report(
+        'unpinnedAction',
+        line,
+        `${where} uses ${uses}, which is not pinned to a commit SHA.`,
+        { job }
+      );
+  };
+
+  const checkScript = (
+    owner: YamlMap,
+    field: string,
+    script: string,
+    where: string,
+    job?: string
+  ) => {
+    for (const expr of new Set(injectedExpressions(script)))
+      report(
+        'scriptInjection',
+        lineContaining(doc.lineOf(owner, field), expr),
+        `${where} interpolates \${{ ${expr} }} directly into a script.`,
+        { job }
+      );
+  };
+
+  const triggers = triggersOf(root['on']);
+  const privileged = triggers.filter((t) => PRIVILEGED_TRIGGERS.includes(t));
+
+  checkPermissions(root, 'The workflow');
+  checkEnv(root['env'], 'The workflow');
+
+  const jobs = isMap(root['jobs']) ? root['jobs'] : {};
+  for (const [jobId, job] of Object.entries(jobs)) {
+    if (!isMap(job)) continue;
+    const jobName = `Job "${jobId}"`;
+    checkPermissions(job, jobName, jobId);
+    checkEnv(job['env'], jobName, jobId);
+    checkUses(job, jobName, jobId); // reusable workflow
+
+    asList(job['steps']).forEach((step, i) => {
+      if (!isMap(step)) return;
+      const stepName = `Step "${str(step['name']) || str(step['uses']) || i + 1}"`;
+      const uses = str(step['uses']);
+      const run = str(step['run']);
+      const withs = isMap(step['with']) ? step['with'] : undefined;
+
+      checkUses(step, stepName, jobId);
+      checkEnv(step['env'], stepName, jobId);
+      if (run) checkScript(step, 'run', run, stepName, jobId);
+      if (withs && /^actions\/github-script@/i.test(uses))
+        checkScript(withs, 'script', str(withs['script']), stepName, jobId);
+
+      if (!privileged.length) return;
+      const ref = str(dig(withs, 'ref'));
+      if (/^actions\/checkout@/i.test(uses) && PR_HEAD.test(ref))
+        report(
+          'prTargetCheckout',
+          doc.lineOf(withs, 'ref'),
+          `${stepName} checks out the PR head in a ${privileged.join(' / ')} workflow.`,
+          { job: jobId }
+        );
+      else if (PR_CHECKOUT_CMD.test(run))
+        report(
+          'prTargetCheckout',
+          lineContaining(
+            doc.lineOf(step, 'run'),
+            run.match(PR_CHECKOUT_CMD)![0]
+          ),
+          `${stepName} fetches the PR head in a ${privileged.join(' / ')} workflow.`,
+          { job: jobId }
+        );
+    });
+  }
+
+  return withStableIds(out);
+}
+
+/** Uploaded workflow file → findings (throws when the YAML can't be read) */
+export function mapGithubWorkflowToFindings(
+  payload: unknown,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  if (!isGithubWorkflow(payload)) return [];
+  const doc = parseYaml(payload.text);
+  const createdAt = ctx?.createdAt ?? new Date().toISOString();
+  return applyRulePolicy(
+    scanGithubWorkflow(doc, payload.file, createdAt),
+    ctx?.rules
+  );
+}
+
+function workflowFinding(
+  key: GithubRuleKey,
+  message: string,
+  location: { file?: string; line?: number; snippet?: string },
+  job?: string,
+  createdAt?: string
+): WorkflowFinding {
+  const rule = GITHUB_RULES[key];
+  return {
+    id: '', // assigned by withStableIds
+    tool: 'github-actions',
+    driver: 'GitHub Actions',
+    ruleId: rule.id,
+    title: rule.title,
+    message,
+    severity: rule.severity,
+    cwe: rule.cwe,
+    rule: { shortDescription: rule.title, help: rule.help },
+    job,
+    location,
+    createdAt,
+  };
+}
@@ -0,0 +1,88 @@
+import type { WorkflowFinding } from './finding.model';
+import { isGitlabCi, mapGitlabCiToFindings } from './gitlab.mapper';
+
+const FILE = '.gitlab-ci.yml';
+
+const scan = (text: string, file = FILE) =>
+  mapGitlabCiToFindings({ file, text }) as WorkflowFinding[];
+
+const byRule = (list: WorkflowFinding[], ruleId: string) =>
+  list.filter((f) => f.ruleId === ruleId);
+
+describe('isGitlabCi', () => {
+  it('accepts .gitlab-ci.yml and job files with script:', () => {
+    expect(isGitlabCi({ file: FILE, text: '' })).toBeTrue();
+    expect(
+      isGitlabCi({ file: 'ci/build.yml', text: 'build:\n  script: make\n' })
+    ).toBeTrue();
+  });
+
+  it('leaves GitHub workflows and Harness pipelines alone', () => {
+    expect(
+      isGitlabCi({ file: 'a.yml', text: 'jobs:\n  a:\n    script: x\n' })
+    ).toBeFalse();
+    expect(
+      isGitlabCi({ file: 'a.yml', text: 'pipeline:\n  script: x\n' })
+    ).toBeFalse();
+  });
+});
+
+describe('mapGitlabCiToFindings', () => {
+  it('flags latest or untagged images and services', () => {
+    const list = scan(`image: node:latest
+build:
+  image: node:20
+  services:
+    - postgres
+  script: npm ci
+`);
+    const lines = byRule(list, 'GITLAB-CI-IMAGE-TAG-LATEST').map(
+      (f) => f.location?.line
+    );
+    expect(lines).toEqual([1, 5]);
+  });
+
+  it('flags includes that are not pinned', () => {
+    const list = scan(`include:
+  - remote: https://example.com/ci.yml
+  - project: group/templates
+    ref: main
+  - project: group/pinned
+    ref: 0123456789abcdef0123456789abcdef01234567
+  - component: gitlab.com/org/comp@~latest
+`);
+    const lines = byRule(list, 'GITLAB-CI-UNPINNED-INCLUDE').map(
+      (f) => f.location?.line
+    );
+    expect(lines).toEqual([2, 3, 7]);
+  });
+
+  it('flags author-controlled variables only when the shell re-parses them', () => {
+    const list = scan(`test:
+  script:
+    - echo "$CI_COMMIT_MESSAGE"
+    - eval "$CI_COMMIT_MESSAGE"
+`);
+    const injections = byRule(list, 'GITLAB-CI-SCRIPT-INJECTION');
+    expect(injections.length).toBe(1);
+    expect(injections[0].location?.line).toBe(4);
+    expect(injections[0].job).toBe('test');
+  });
+
+  it('masks literal secrets in variables', () => {
+    const list = scan(`variables:
+  DB_PASSWORD: s3cr3t-value
+  TOKEN_REF: $VAULT_TOKEN
+`);
+    const secrets = byRule(list, 'GITLAB-CI-PLAINTEXT-SECRET');
+    expect(secrets.length).toBe(1);
+    expect(secrets[0].location?.snippet).toBe('DB_PASSWORD: s3******');
+  });
+
+  it('gives the same finding in two files different ids', () => {
+    const text = 'image: node:latest\n';
+    const [a] = scan(text, 'a/.gitlab-ci.yml');
+    const [b] = scan(text, 'b/.gitlab-ci.yml');
+    expect(a.id).not.toBe(b.id);
+  });
+});
@@ -0,0 +1,272 @@
+import type { Finding, WorkflowFinding } from './finding.model';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import { withStableIds } from './finding.identity';
+import {
+  isMutableImage,
+  isPlainSecret,
+  mask,
+  str,
+  type PipelineRule,
+} from './pipeline.checks';
+import {
+  asList,
+  isMap,
+  isYamlSource,
+  parseYaml,
+  type YamlDoc,
+  type YamlMap,
+  type YamlSource,
+  type YamlValue,
+} from './yaml';
+
+export type GitlabRuleKey =
+  'mutableImage' | 'unpinnedInclude' | 'scriptInjection' | 'plaintextSecret';
+
+export const GITLAB_RULES: Record<GitlabRuleKey, PipelineRule> = {
+  mutableImage: {
+    id: 'GITLAB-CI-IMAGE-TAG-LATEST',
+    title: 'Mutable image tag in pipeline',
+    severity: 'medium',
+    cwe: ['CWE-829'],
+    help: 'Pin job images and services to a digest (image@sha256:...) or an immutable version tag.',
+  },
+  unpinnedInclude: {
+    id: 'GITLAB-CI-UNPINNED-INCLUDE',
+    title: 'Included CI configuration is not pinned',
+    severity: 'medium',
+    cwe: ['CWE-829'],
+    help: 'Pin `include: project` to a commit SHA with `ref:`, pin components to a released version, and avoid `include: remote`, which has no integrity check.',
+  },
+  scriptInjection: {
+    id: 'GITLAB-CI-SCRIPT-INJECTION',
+    title: 'Script injection via commit or merge request data',
+    severity: 'high',
+    cwe: ['CWE-78'],
+    help: 'Never eval or re-parse author-controlled variables (commit message, MR title, branch name). Quote them and pass them as data.',
+  },
+  plaintextSecret: {
+    id: 'GITLAB-CI-PLAINTEXT-SECRET',
+    title: 'Secret in plain CI variable',
+    severity: 'high',
+    cwe: ['CWE-798'],
+    help: 'Define the value as a masked, protected CI/CD variable in the project settings instead of the YAML. Rotate the exposed value.',
+  },
+};
+
+// top-level keys that configure the pipeline rather than define a job
+const RESERVED = new Set([
+  'image',
+  'services',
+  'stages',
+  'variables',
+  'include',
+  'default',
+  'workflow',
+  'before_script',
+  'after_script',
+  'cache',
+  'spec',
+]);
+
+/** `.gitlab-ci.yml`, or YAML whose top-level jobs carry `script:` */
+export function isGitlabCi(payload: any): payload is YamlSource {
+  if (!isYamlSource(payload)) return false;
+  if (/(^|\/)\.gitlab-ci\.ya?ml$/i.test(payload.file)) return true;
+  const t = payload.text;
+  return (
+    /^\s+script\s*:/m.test(t) &&
+    !/^jobs\s*:/m.test(t) &&
+    !/^pipeline\s*:/m.test(t)
+  );
+}
+
+// author-controlled predefined variables
+const UNTRUSTED_VAR =
+  /\$\{?(CI_COMMIT_MESSAGE|CI_COMMIT_TITLE|CI_COMMIT_DESCRIPTION|CI_COMMIT_REF_NAME|CI_COMMIT_BRANCH|CI_COMMIT_AUTHOR|CI_MERGE_REQUEST_TITLE|CI_MERGE_REQUEST_DESCRIPTION|CI_MERGE_REQUEST_SOURCE_BRANCH_NAME)\b/;
+// ...that are only dangerous when the shell parses them again
+const REPARSE = /\beval\b|\b(ba|z)?sh\s+-c\b|\bsource\b|<<<|\|\s*(ba|z)?sh\b/;
+
+const imageName = (v: YamlValue | undefined) =>
+  isMap(v) ? str(v['name']) : str(v);
+
+/**
+ * Run the GitLab CI rule pack over `.gitlab-ci.yml` (or an included file).
+ * Every finding points at the line of the offending key or script line.
+ */
+export function scanGitlabCi(
+  doc: YamlDoc,
+  file: string,
+  createdAt?: string
+): WorkflowFinding[] {
+  const root = isMap(doc.value) ? doc.value : {};
+  const out: WorkflowFinding[] = [];
+
+  const report = (
+    key: GitlabRuleKey,
+    line: number | undefined,
+    message: string,
+    extra: { job?: string; snippet?: string } = {}
+  ) => {
+    const snippet =
+      extra.snippet ?? (line ? doc.source[line - 1].trim() : undefined);
+    out.push(
+      gitlabFinding(key, message, { file, line, snippet }, extra.job, createdAt)
+    );
+  };
+
+  const checkImages = (owner: YamlMap, where: string, job?: string) => {
+    const image = imageName(owner['image']);
+    if (isMutableImage(image))
+      report(
+        'mutableImage',
+        doc.lineOf(owner, 'image'),
+        `${where} runs in mutable image ${image}.`,
+        { job }
+      );
+    const services = asList(owner['services']);
+    services.forEach((svc, i) => {
+      const name = imageName(svc);
+      if (isMutableImage(name))
+        report(
+          'mutableImage',
+          doc.lineOf(services, i),
+          `${where} starts service ${name} from a mutable tag.`,
+          { job }
+        );
+    });
+  };
+
+  const checkVariables = (owner: YamlMap, where: string, job?: string) => {
+    const vars = owner['variables'];
+    if (!isMap(vars)) return;
+    for (const [name, raw] of Object.entries(vars)) {
+      const value = isMap(raw) ? str(raw['value']) : str(raw);
+      if (isPlainSecret(name, value))
+        report(
+          'plaintextSecret',
+          doc.lineOf(vars, name),
+          `${where} sets ${name} to a literal secret value.`,
+          { job, snippet: `${name}: ${mask(value)}` }
+        );
+    }
+  };
+
+  const checkScripts = (owner: YamlMap, where: string, job?: string) => {
+    for (const field of ['before_script', 'script', 'after_script']) {
+      const raw = owner[field];
+      const lines = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+      lines.forEach((cmd, i) => {
+        const text = str(cmd);
+        if (!UNTRUSTED_VAR.test(text) || !REPARSE.test(text)) return;
+        const variable = text.match(UNTRUSTED_VAR)![1];
+        report(
+          'scriptInjection',
+          Array.isArray(raw) ? doc.lineOf(raw, i) : doc.lineOf(owner, field),
+          `${where} re-parses $${variable} in its ${field}, so a crafted commit or MR can run commands.`,
+          { job }
+        );
+      });
+    }
+  };
+
+  const checkIncludes = () => {
+    const raw = root['include'];
+    const items = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+    items.forEach((inc, i) => {
+      const line = Array.isArray(raw)
+        ? doc.lineOf(raw, i)
+        : doc.lineOf(root, 'include');
+      if (typeof inc === 'string') {
+        if (/^https?:\/\//i.test(inc))
+          report(
+            'unpinnedInclude',
+            line,
+            `Remote include ${inc} has no integrity check.`
+          );
+        return;
+      }
+      if (!isMap(inc)) return;
+      const remote = str(inc['remote']);
+      const project = str(inc['project']);
+      const component = str(inc['component']);
+      if (remote)
+        report(
+          'unpinnedInclude',
+          line,
+          `Remote include ${remote} has no integrity check.`
+        );
+      if (project && !/^[0-9a-f]{40}$/i.test(str(inc['ref'])))
+        report(
+          'unpinnedInclude',
+          line,
+          `Include from ${project} follows ${str(inc['ref']) || 'the default branch'} instead of a commit SHA.`
+        );
+      if (
+        component &&
+        (!component.includes('@') || /@~latest$/.test(component))
+      )
+        report(
+          'unpinnedInclude',
+          line,
+          `Component ${component} is not pinned to a version.`
+        );
+    });
+  };
+
+  checkIncludes();
+  checkImages(root, 'The pipeline');
+  checkVariables(root, 'The pipeline');
+  checkScripts(root, 'The default');
+  if (isMap(root['default'])) {
+    checkImages(root['default'], 'The default');
+    checkScripts(root['default'], 'The default');
+  }
+
+  for (const [jobId, job] of Object.entries(root)) {
+    if (RESERVED.has(jobId) || !isMap(job)) continue;
+    const where = `Job "${jobId}"`;
+    checkImages(job, where, jobId);
+    checkVariables(job, where, jobId);
+    checkScripts(job, where, jobId);
+  }
+
+  return withStableIds(out);
+}
+
+/** Uploaded GitLab CI file → findings (throws when the YAML can't be read) */
+export function mapGitlabCiToFindings(
+  payload: unknown,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  if (!isGitlabCi(payload)) return [];
+  const doc = parseYaml(payload.text);
+  const createdAt = ctx?.createdAt ?? new Date().toISOString();
+  return applyRulePolicy(
+    scanGitlabCi(doc, payload.file, createdAt),
+    ctx?.rules
+  );
+}
+
+function gitlabFinding(
+  key: GitlabRuleKey,
+  message: string,
+  location: { file?: string; line?: number; snippet?: string },
+  job?: string,
+  createdAt?: string
+): WorkflowFinding {
+  const rule = GITLAB_RULES[key];
+  return {
+    id: '', // assigned by withStableIds
+    tool: 'gitlab-ci',
+    driver: 'GitLab CI',
+    ruleId: rule.id,
+    title: rule.title,
+    message,
+    severity: rule.severity,
+    cwe: rule.cwe,
+    rule: { shortDescription: rule.title, help: rule.help },
+    job,
+    location,
+    createdAt,
+  };
+}
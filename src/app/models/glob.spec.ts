@@ -0,0 +1,34 @@
+import { globMatch, globToRegExp } from './glob';
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one path segment', () => {
+    expect(globToRegExp('src/*.ts').test('src/a.ts')).toBeTrue();
+    expect(globToRegExp('src/*.ts').test('src/x/a.ts')).toBeFalse();
+    expect(globToRegExp('a?.py').test('ab.py')).toBeTrue();
+    expect(globToRegExp('a?.py').test('a/.py')).toBeFalse();
+  });
+
+  it('lets ** span zero or more directories', () => {
+    const re = globToRegExp('**/test/**');
+    expect(re.test('test/a.py')).toBeTrue();
+    expect(re.test('src/test/unit/a.py')).toBeTrue();
+    expect(re.test('src/testing/a.py')).toBeFalse();
+  });
+
+  it('escapes regex characters', () => {
+    expect(globToRegExp('a.b(1).js').test('a.b(1).js')).toBeTrue();
+    expect(globToRegExp('a.b').test('axb')).toBeFalse();
+  });
+});
+
+describe('globMatch', () => {
+  it('ignores a leading ./ and surrounding whitespace', () => {
+    expect(globMatch(' src/*.ts ', './src/a.ts')).toBeTrue();
+    expect(globMatch('SRC/*.TS', 'src/a.ts')).toBeTrue();
+  });
+
+  it('never matches a missing path', () => {
+    expect(globMatch('**', undefined)).toBeFalse();
+    expect(globMatch('**', '')).toBeFalse();
+  });
+});
@@ -0,0 +1,28 @@
+const cache = new Map<string, RegExp>();
+
+/**
+ * Minimal glob → RegExp: `**` spans directories, `*` and `?` stay within one
+ * segment. `**\/` also matches zero directories, so `**\/test/**` hits `test/a.py`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = cache.get(glob);
+  if (re) return re;
+  let src = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      src += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') src += '[^/]*';
+    else if (c === '?') src += '[^/]';
+    else src += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  re = new RegExp(`^${src}$`, 'i');
+  cache.set(glob, re);
+  return re;
+}
+
+export function globMatch(glob: string, value?: string): boolean {
+  return !!value && globToRegExp(glob.trim()).test(value.replace(/^\.?\//, ''));
+}
@@ -0,0 +1,104 @@
+import type { HarnessFinding } from './finding.model';
+import {
+  RUN_RULE_ID,
+  isHarnessExecution,
+  mapHarnessRun,
+  mapHarnessToFindings,
+} from './harness.mapper';
+
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+
+const EXECUTION = {
+  data: {
+    pipelineExecutionSummary: {
+      planExecutionId: 'exec-1',
+      pipelineIdentifier: 'build',
+      name: 'Build',
+      runSequence: 42,
+      status: 'Failed',
+      startTs: T0,
+      endTs: T0 + 120_000,
+      startingNodeId: 'n1',
+      layoutNodeMap: {
+        n1: {
+          nodeIdentifier: 'test',
+          name: 'Test',
+          nodeType: 'CI',
+          status: 'Success',
+          startTs: T0,
+          endTs: T0 + 60_000,
+          edgeLayoutList: { nextIds: ['n2'] },
+        },
+        n2: {
+          nodeIdentifier: 'deploy',
+          name: 'Deploy',
+          nodeType: 'Deployment',
+          status: 'Failed',
+          startTs: T0 + 60_000,
+          endTs: T0 + 120_000,
+          failureInfo: { message: 'rollout timed out' },
+        },
+      },
+      executionTriggerInfo: {
+        triggerType: 'MANUAL',
+        triggeredBy: { identifier: 'alice' },
+      },
+    },
+    executionGraph: {
+      nodeMap: {
+        x: {
+          identifier: 'unit',
+          name: 'Unit tests',
+          stepType: 'Run',
+          status: 'Success',
+          baseFqn: 'pipeline.stages.test.spec.execution.steps.unit',
+          startTs: T0,
+          endTs: T0 + 30_000,
+        },
+        y: {
+          identifier: 'section',
+          stepType: 'NG_SECTION',
+          baseFqn: 'pipeline.stages.test.spec.execution',
+        },
+      },
+    },
+  },
+};
+
+describe('mapHarnessRun', () => {
+  const run = mapHarnessRun(EXECUTION)!;
+
+  it('detects execution payloads', () => {
+    expect(isHarnessExecution(EXECUTION)).toBeTrue();
+    expect(mapHarnessRun({ data: {} })).toBeNull();
+  });
+
+  it('maps the run with stages in execution order', () => {
+    expect(run.id).toBe('exec-1');
+    expect(run.runNumber).toBe(42);
+    expect(run.status).toBe('failed');
+    expect(run.durationMs).toBe(120_000);
+    expect(run.trigger).toEqual(
+      jasmine.objectContaining({ type: 'manual', user: 'alice' })
+    );
+    expect(run.stages.map((s) => [s.id, s.status])).toEqual([
+      ['test', 'success'],
+      ['deploy', 'failed'],
+    ]);
+    expect(run.stages[1].failure).toBe('rollout timed out');
+  });
+
+  it('attaches real steps to their stage', () => {
+    expect(run.stages[0].steps.map((s) => s.id)).toEqual(['unit']);
+    expect(run.stages[0].steps[0].durationMs).toBe(30_000);
+  });
+});
+
+describe('mapHarnessToFindings', () => {
+  it('leads with one run finding carrying the run', () => {
+    const [first] = mapHarnessToFindings(EXECUTION) as HarnessFinding[];
+    expect(first.ruleId).toBe(RUN_RULE_ID);
+    expect(first.run?.id).toBe('exec-1');
+    expect(first.message).toContain('failed: Deploy');
+  });
+});
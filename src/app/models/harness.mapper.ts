@@ -0,0 +1,253 @@
+import type { Finding, HarnessFinding } from './finding.model';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import {
+  durationBetween,
+  formatDuration,
+  isFailure,
+  toRunStatus,
+  type PipelineArtifact,
+  type PipelineRun,
+  type PipelineStage,
+  type PipelineStep,
+} from './pipeline-run.model';
+import { scanHarnessRun, scanHarnessYaml } from './harness.rules';
+import { isYamlSource, parseYaml, tryParseYaml, type YamlSource } from './yaml';
+
+export const RUN_RULE_ID = 'HARNESS-PIPELINE-RUN';
+
+/** Harness execution details: { data: { pipelineExecutionSummary, executionGraph? } } */
+export function isHarnessExecution(payload: any): boolean {
+  return !!payload?.data?.pipelineExecutionSummary;
+}
+
+// Harness timestamps are epoch millis; 0 means "not started / not ended"
+const isoOf = (ts: unknown): string | undefined => {
+  const n = Number(ts);
+  return Number.isFinite(n) && n > 0 ? new Date(n).toISOString() : undefined;
+};
+
+const timing = (node: any) => {
+  const startedAt = isoOf(node?.startTs);
+  const endedAt = isoOf(node?.endTs);
+  return {
+    startedAt,
+    endedAt,
+    durationMs: durationBetween(startedAt, endedAt),
+  };
+};
+
+const failureOf = (node: any): string | undefined =>
+  node?.failureInfo?.message || undefined;
+
+// structural graph nodes (sections, forks, stage wrappers) that aren't real steps
+const NON_STEP_TYPES =
+  /^(NG_SECTION|NG_FORK|NG_EXECUTION|NG_STAGES|STAGES_STEP|PIPELINE_SECTION|IntegrationStageStepPMS|DEPLOYMENT_STAGE_STEP|APPROVAL_STAGE|CUSTOM_STAGE|NG_SECTION_WITH_ROLLBACK_INFO|NG_SPEC_SECTION|STEP_GROUP|RollbackOptionalChildChain)$/i;
+
+/** Stage identifier from a step's fully qualified name: pipeline.stages.<id>.spec... */
+function stageIdOf(baseFqn?: string): string | undefined {
+  const m = (baseFqn || '').match(/^pipeline\.stages\.([^.]+)\./);
+  return m?.[1];
+}
+
+function stepsByStage(graph: any): Map<string, PipelineStep[]> {
+  const out = new Map<string, PipelineStep[]>();
+  const nodes: any[] = Object.values(graph?.nodeMap || {});
+  for (const n of nodes) {
+    if (!n?.stepType || NON_STEP_TYPES.test(n.stepType)) continue;
+    const stageId = stageIdOf(n.baseFqn);
+    if (!stageId) continue;
+    const step: PipelineStep = {
+      id: String(n.identifier || n.uuid),
+      name: String(n.name || n.identifier || 'step'),
+      type: n.stepType,
+      status: toRunStatus(n.status),
+      ...timing(n),
+      failure: failureOf(n),
+    };
+    out.set(stageId, [...(out.get(stageId) ?? []), step]);
+  }
+  for (const list of out.values())
+    list.sort((a, b) => (a.startedAt || '').localeCompare(b.startedAt || ''));
+  return out;
+}
+
+/** Stage nodes in execution order (follows nextIds, expanding parallel groups) */
+function orderedStageNodes(summary: any): any[] {
+  const map = summary?.layoutNodeMap || {};
+  const out: any[] = [];
+  const seen = new Set<string>();
+  const visit = (id?: string) => {
+    while (id && map[id] && !seen.has(id)) {
+      seen.add(id);
+      const node = map[id];
+      const children: string[] =
+        node?.edgeLayoutList?.currentNodeChildren || [];
+      if (/parallel/i.test(node?.nodeType || ''))
+        children.forEach((c) => visit(c));
+      else out.push(node);
+      id = node?.edgeLayoutList?.nextIds?.[0];
+    }
+  };
+  visit(summary?.startingNodeId);
+  // anything unreachable from the start node (older payloads omit edges)
+  for (const [id, node] of Object.entries<any>(map))
+    if (!seen.has(id) && !/parallel/i.test(node?.nodeType || ''))
+      out.push(node);
+  return out;
+}
+
+function artifactsOf(summary: any, stages: any[]): PipelineArtifact[] {
+  const out: PipelineArtifact[] = [];
+  for (const img of summary?.moduleInfo?.ci?.imageDetailsList || [])
+    if (img?.imageName)
+      out.push({ name: img.imageName, tag: img.imageTag || undefined });
+  for (const node of stages) {
+    const primary = node?.moduleInfo?.cd?.serviceInfo?.artifacts?.primary;
+    if (primary?.imagePath)
+      out.push({
+        name: primary.imagePath,
+        tag: primary.tag || undefined,
+        stage: node.nodeIdentifier,
+      });
+  }
+  return out;
+}
+
+/** Map a Harness execution payload → PipelineRun (null when it isn't one) */
+export function mapHarnessRun(payload: any): PipelineRun | null {
+  const summary = payload?.data?.pipelineExecutionSummary;
+  if (!summary) return null;
+
+  const steps = stepsByStage(payload?.data?.executionGraph);
+  const stageNodes = orderedStageNodes(summary);
+  const stages: PipelineStage[] = stageNodes.map((node) => {
+    const id = String(node?.nodeIdentifier || node?.nodeUuid || node?.name);
+    return {
+      id,
+      name: String(node?.name || id),
+      type: node?.nodeType || node?.module || undefined,
+      status: toRunStatus(node?.status),
+      ...timing(node),
+      failure: failureOf(node),
+      steps: steps.get(id) ?? [],
+    };
+  });
+
+  const trigger = summary?.executionTriggerInfo;
+  const ci = summary?.moduleInfo?.ci;
+  const commit =
+    ci?.ciExecutionInfoDTO?.branch?.commits?.[0]?.id ||
+    ci?.ciExecutionInfoDTO?.pullRequest?.commits?.[0]?.id;
+
+  return {
+    id: String(summary.planExecutionId || summary.executionId || 'run'),
+    source: 'harness',
+    pipelineId: String(
+      summary.pipelineIdentifier || summary.name || 'pipeline'
+    ),
+    pipelineName: String(
+      summary.name || summary.pipelineIdentifier || 'Pipeline'
+    ),
+    runNumber: Number(summary.runSequence) || undefined,
+    status: toRunStatus(summary.status),
+    ...timing(summary),
+    trigger: trigger
+      ? {
+          type: String(trigger.triggerType || 'manual').toLowerCase(),
+          user:
+            trigger.triggeredBy?.extraInfo?.email ||
+            trigger.triggeredBy?.identifier ||
+            undefined,
+          branch: ci?.branch || undefined,
+          commit: commit || undefined,
+        }
+      : undefined,
+    stages,
+    artifacts: artifactsOf(summary, stageNodes),
+    failure: failureOf(summary),
+  };
+}
+
+/** One info finding per execution, carrying the run for the timeline views */
+export function runFinding(
+  run: PipelineRun,
+  createdAt?: string
+): HarnessFinding {
+  const failed = run.stages.filter((s) => isFailure(s.status));
+  const outcome = isFailure(run.status)
+    ? `Failed after ${formatDuration(run.durationMs)}`
+    : run.status === 'success'
+    ? `Succeeded in ${formatDuration(run.durationMs)}`
+    : `Status: ${run.status}`;
+  return {
+    id: `harness-run-${run.id}`,
+    tool: 'harness',
+    driver: 'Harness',
+    ruleId: RUN_RULE_ID,
+    title: `${run.pipelineName}${run.runNumber ? ` #${run.runNumber}` : ''}`,
+    message:
+      `${outcome} · ${run.stages.length} stages` +
+      (failed.length
+        ? ` · failed: ${failed.map((s) => s.name).join(', ')}`
+        : ''),
+    severity: 'info',
+    run,
+    fingerprints: { 'harness/execution': run.id },
+    createdAt: createdAt ?? run.endedAt ?? run.startedAt,
+  };
+}
+
+/** Uploaded Harness pipeline definition (top-level `pipeline:` key) */
+export function isHarnessPipelineYaml(payload: any): payload is YamlSource {
+  return isYamlSource(payload) && /^pipeline\s*:/m.test(payload.text);
+}
+
+// Git path of remote pipelines (inline pipelines only exist in Harness)
+const pipelineFile = (summary: any): string | undefined =>
+  summary?.gitDetails?.filePath || undefined;
+
+/**
+ * Harness execution JSON → run finding + pipeline rule findings.
+ * When the payload carries the resolved pipeline YAML (`data.resolvedYaml`
+ * or `data.executionYaml` from the execution metadata API) the YAML rules
+ * run with line numbers; otherwise only execution-level checks apply.
+ * A bare pipeline YAML upload gets the YAML rules alone, and throws when
+ * the YAML can't be read.
+ */
+export function mapHarnessToFindings(
+  payload: any,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  const createdAt = ctx?.createdAt ?? new Date().toISOString();
+
+  if (isHarnessPipelineYaml(payload))
+    return applyRulePolicy(
+      scanHarnessYaml(parseYaml(payload.text), payload.file, createdAt),
+      ctx?.rules
+    );
+
+  const summary = payload?.data?.pipelineExecutionSummary;
+  const run = mapHarnessRun(payload);
+  if (!summary || !run) return []; // nothing we understand
+
+  const out: HarnessFinding[] = [runFinding(run, ctx?.createdAt)];
+  const yaml = payload?.data?.resolvedYaml || payload?.data?.executionYaml;
+  const doc = typeof yaml === 'string' ? tryParseYaml(yaml) : null;
+  const file = pipelineFile(summary);
+
+  if (doc)
+    out.push(
+      ...scanHarnessYaml(doc, file || `${run.pipelineId}.yaml`, createdAt)
+    );
+  else
+    out.push(
+      ...scanHarnessRun(
+        run,
+        summary?.moduleInfo?.ci?.imageDetailsList || [],
+        file,
+        createdAt
+      )
+    );
+
+  return applyRulePolicy(out, ctx?.rules);
+}
@@ -0,0 +1,143 @@
+import type { HarnessFinding } from './finding.model';
+import type { PipelineRun, PipelineStage } from './pipeline-run.model';
+import { scanHarnessRun, scanHarnessYaml } from './harness.rules';
+import { parseYaml } from './yaml';
+
+const FILE = '.harness/build.yaml';
+
+const scan = (text: string, file = FILE) =>
+  scanHarnessYaml(parseYaml(text), file);
+
+const rules = (list: HarnessFinding[]) => list.map((f) => f.ruleId);
+
+const PIPELINE = `pipeline:
+  name: build
+  identifier: build
+  variables:
+    - name: API_TOKEN
+      type: String
+      value: hunter22
+  stages:
+    - stage:
+        name: Build
+        identifier: build
+        type: CI
+        spec:
+          execution:
+            steps:
+              - step:
+                  name: test
+                  identifier: test
+                  type: Run
+                  spec:
+                    image: node:latest
+                    privileged: true
+    - stage:
+        name: Deploy
+        identifier: deploy
+        type: Deployment
+        spec:
+          environment:
+            environmentRef: prod
+`;
+
+describe('scanHarnessYaml', () => {
+  const list = scan(PIPELINE);
+  const find = (ruleId: string) => list.find((f) => f.ruleId === ruleId);
+
+  it('runs every YAML check of the rule pack', () => {
+    expect(rules(list).sort()).toEqual(
+      [
+        'HARNESS-CI-IMAGE-TAG-LATEST',
+        'HARNESS-CI-PLAINTEXT-SECRET',
+        'HARNESS-CI-PRIVILEGED-CONTAINER',
+        'HARNESS-CI-PROD-NO-APPROVAL',
+        'HARNESS-CI-SCAN-MISSING',
+      ].sort()
+    );
+  });
+
+  it('points findings at the offending line', () => {
+    expect(find('HARNESS-CI-PLAINTEXT-SECRET')?.location?.line).toBe(7);
+    expect(find('HARNESS-CI-IMAGE-TAG-LATEST')?.location?.line).toBe(21);
+    expect(find('HARNESS-CI-PRIVILEGED-CONTAINER')?.location?.line).toBe(22);
+    expect(find('HARNESS-CI-IMAGE-TAG-LATEST')?.stage).toBe('build');
+  });
+
+  it('masks secret values in the snippet', () => {
+    expect(find('HARNESS-CI-PLAINTEXT-SECRET')?.location?.snippet).toBe(
+      'API_TOKEN: hu******'
+    );
+  });
+
+  it('accepts a production deploy behind an approval stage', () => {
+    const gated = PIPELINE.replace(
+      '    - stage:\n        name: Deploy',
+      '    - stage:\n        name: Approve\n        identifier: approve\n        type: Approval\n    - stage:\n        name: Deploy'
+    );
+    expect(rules(scan(gated))).not.toContain('HARNESS-CI-PROD-NO-APPROVAL');
+  });
+
+  it('does not take preprod for production', () => {
+    const preprod = PIPELINE.replace(
+      'environmentRef: prod',
+      'environmentRef: preprod'
+    );
+    expect(rules(scan(preprod))).not.toContain('HARNESS-CI-PROD-NO-APPROVAL');
+  });
+
+  it('gives the same finding in two files different ids', () => {
+    const a = scan(PIPELINE, '.harness/a.yaml').map((f) => f.id);
+    const b = scan(PIPELINE, '.harness/b.yaml').map((f) => f.id);
+    expect(new Set([...a, ...b]).size).toBe(a.length + b.length);
+  });
+});
+
+describe('scanHarnessRun', () => {
+  const stage = (over: Partial<PipelineStage>): PipelineStage => ({
+    id: 's',
+    name: 'stage',
+    status: 'success',
+    steps: [],
+    ...over,
+  });
+  const run = (stages: PipelineStage[]): PipelineRun => ({
+    id: 'exec-1',
+    source: 'harness',
+    pipelineId: 'build',
+    pipelineName: 'build',
+    status: 'success',
+    stages,
+    artifacts: [],
+  });
+
+  it('flags mutable images and ignored security failures', () => {
+    const list = scanHarnessRun(
+      run([
+        stage({ id: 'scan', name: 'Security scan', status: 'ignore_failed' }),
+        stage({ id: 'lint', name: 'Lint', status: 'ignore_failed' }),
+      ]),
+      [
+        { imageName: 'node', imageTag: 'latest' },
+        { imageName: 'node', imageTag: '20' },
+      ]
+    );
+    expect(rules(list)).toEqual([
+      'HARNESS-CI-IMAGE-TAG-LATEST',
+      'HARNESS-CI-SECURITY-IGNOREFAILED',
+      'HARNESS-CI-STAGE-IGNOREFAILED',
+    ]);
+  });
+
+  it('only reports a missing scan when the steps are known', () => {
+    const ci = stage({ type: 'CI' });
+    expect(rules(scanHarnessRun(run([ci]), []))).toEqual([]);
+    const withSteps = stage({
+      type: 'CI',
+      steps: [{ id: 'x', name: 'build', type: 'Run', status: 'success' }],
+    });
+    expect(rules(scanHarnessRun(run([withSteps]), []))).toEqual([
+      'HARNESS-CI-SCAN-MISSING',
+    ]);
+  });
+});
@@ -0,0 +1,550 @@
+import type { HarnessFinding } from './finding.model';
+import { withStableIds } from './finding.identity';
+import type { PipelineRun, PipelineStage } from './pipeline-run.model';
+import {
+  dig,
+  imageRef,
+  isMutableImage,
+  isPlainSecret,
+  isUnpinnedUses,
+  mask,
+  str,
+  type PipelineRule,
+} from './pipeline.checks';
+import {
+  asList,
+  isMap,
+  type YamlDoc,
+  type YamlMap,
+  type YamlValue,
+} from './yaml';
+
+export type HarnessRuleKey =
+  | 'plaintextSecret'
+  | 'mutableImage'
+  | 'unpinnedPlugin'
+  | 'privileged'
+  | 'prodWithoutApproval'
+  | 'securityIgnoreFailed'
+  | 'stageIgnoreFailed'
+  | 'scanDisabled'
+  | 'scanMissing';
+
+export const HARNESS_RULES: Record<HarnessRuleKey, PipelineRule> = {
+  plaintextSecret: {
+    id: 'HARNESS-CI-PLAINTEXT-SECRET',
+    title: 'Secret in plain pipeline variable',
+    severity: 'high',
+    cwe: ['CWE-798'],
+    help: 'Store the value as a Harness secret and reference it with <+secrets.getValue("...")>. Rotate the exposed value.',
+  },
+  mutableImage: {
+    id: 'HARNESS-CI-IMAGE-TAG-LATEST',
+    title: 'Mutable image tag in pipeline',
+    severity: 'medium',
+    cwe: ['CWE-829'],
+    help: 'Pin images to a digest (image@sha256:...) or an immutable version tag.',
+  },
+  unpinnedPlugin: {
+    id: 'HARNESS-CI-UNPINNED-PLUGIN',
+    title: 'Unpinned plugin or action',
+    severity: 'medium',
+    cwe: ['CWE-829'],
+    help: 'Pin plugin images to a digest and actions to a full commit SHA so upstream changes cannot alter the build.',
+  },
+  privileged: {
+    id: 'HARNESS-CI-PRIVILEGED-CONTAINER',
+    title: 'Privileged build container',
+    severity: 'high',
+    cwe: ['CWE-250'],
+    help: 'Drop `privileged: true`. Use rootless builders (kaniko, buildkit rootless) for image builds.',
+  },
+  prodWithoutApproval: {
+    id: 'HARNESS-CI-PROD-NO-APPROVAL',
+    title: 'Production deploy without approval gate',
+    severity: 'high',
+    cwe: ['CWE-284'],
+    help: 'Add an Approval stage, or a Harness/Jira/ServiceNow approval step, before deploying to production.',
+  },
+  securityIgnoreFailed: {
+    id: 'HARNESS-CI-SECURITY-IGNOREFAILED',
+    title: 'Security stage failures ignored',
+    severity: 'high',
+    help: 'Remove the Ignore failure strategy from security scans so findings above the threshold fail the pipeline.',
+  },
+  stageIgnoreFailed: {
+    id: 'HARNESS-CI-STAGE-IGNOREFAILED',
+    title: 'Stage configured to IgnoreFailed',
+    severity: 'low',
+    help: 'Fail fast instead of ignoring stage failures to avoid promoting broken artifacts.',
+  },
+  scanDisabled: {
+    id: 'HARNESS-CI-SCAN-DISABLED',
+    title: 'Security scan disabled',
+    severity: 'high',
+    help: 'Remove the `when` condition that skips the scan, or replace it with a condition that still runs on the default branch.',
+  },
+  scanMissing: {
+    id: 'HARNESS-CI-SCAN-MISSING',
+    title: 'No security scan in pipeline',
+    severity: 'medium',
+    help: 'Add a SAST / SCA step (Semgrep, Snyk, Trivy, ...) or a Security Tests stage to the build.',
+  },
+};
+
+/* -----------------------------
+   Scan / stage detection
+--------------------------------*/
+// Harness STO step types
+const SCAN_STEP_TYPE =
+  /^(Security|Semgrep|Snyk|AquaTrivy|Trivy|Grype|Gitleaks|Bandit|Sonarqube|Checkmarx|Veracode|Prowler|Zap|Wiz|Owasp|Brakeman|Mend|BlackDuck|Burp|Coverity|Fossa|CodeQL|Checkov|OsvScanner|Anchore|Sysdig|PrismaCloud|Fortify|Traceable)/i;
+// scanners invoked from Run steps or plugin images
+const SCANNER =
+  /\b(semgrep|trivy|grype|snyk|gitleaks|trufflehog|checkov|bandit|osv-scanner|codeql|sonar-scanner|tfsec|kics|npm audit|pip-audit)\b/i;
+const SECURITY_NAME = /secur|scan|sast|dast|\bsca\b|vuln/i;
+
+// "prod", "production", "prod-eu", "us_prod" but not "preprod" / "product"
+const PROD = /(^|[-_.\s])prod(uction)?($|[-_.\s\d])/i;
+
+const isScanStepType = (type?: string) => SCAN_STEP_TYPE.test(type || '');
+
+/* -----------------------------
+   Pipeline YAML
+--------------------------------*/
+interface Node {
+  value: YamlMap; // the stage / step body
+  holder: YamlMap; // the list item ({ stage: ... }), whose line is "- stage:"
+  key: 'stage' | 'step';
+}
+
+function stagesOf(pipeline: YamlMap): Node[] {
+  const out: Node[] = [];
+  const visit = (items: YamlValue[]) => {
+    for (const it of items) {
+      if (!isMap(it)) continue;
+      if (isMap(it['stage']))
+        out.push({ value: it['stage'], holder: it, key: 'stage' });
+      else visit(asList(it['parallel']));
+    }
+  };
+  visit(asList(pipeline['stages']));
+  return out;
+}
+
+// steps in order, flattening parallel blocks and step groups
+function stepsOf(stage: YamlMap): Node[] {
+  const out: Node[] = [];
+  const visit = (items: YamlValue[]) => {
+    for (const it of items) {
+      if (!isMap(it)) continue;
+      if (isMap(it['step']))
+        out.push({ value: it['step'], holder: it, key: 'step' });
+      else if (isMap(it['stepGroup'])) visit(asList(it['stepGroup']['steps']));
+      else visit(asList(it['parallel']));
+    }
+  };
+  const execution = dig(stage, 'spec', 'execution');
+  visit(asList(dig(execution, 'steps')));
+  visit(asList(dig(execution, 'rollbackSteps')));
+  return out;
+}
+
+function isScanStep(step: YamlMap): boolean {
+  return (
+    isScanStepType(str(step['type'])) ||
+    SCANNER.test(str(dig(step, 'spec', 'command'))) ||
+    SCANNER.test(str(dig(step, 'spec', 'image')))
+  );
+}
+
+// the action map of an "Ignore" failure strategy, if any
+function ignoreStrategy(node: YamlMap): YamlMap | undefined {
+  for (const fs of asList(node['failureStrategies'])) {
+    const action = dig(fs, 'onFailure', 'action');
+    if (isMap(action) && /^ignore$/i.test(str(action['type']))) return action;
+  }
+  return undefined;
+}
+
+// `when.condition` that can never be true
+function disabledBy(node: YamlMap): YamlMap | undefined {
+  const when = node['when'];
+  if (!isMap(when)) return undefined;
+  const cond = when['condition'];
+  return cond === false || /^\s*(false|<\+false>|0)\s*$/i.test(str(cond))
+    ? when
+    : undefined;
+}
+
+function isProdDeploy(stage: YamlMap): boolean {
+  if (str(stage['type']) !== 'Deployment') return false;
+  const infra = dig(stage, 'spec', 'infrastructure');
+  if (str(dig(infra, 'environment', 'type')) === 'Production') return true;
+  const env =
+    dig(stage, 'spec', 'environment', 'environmentRef') ??
+    dig(infra, 'environmentRef') ??
+    dig(infra, 'environment', 'identifier');
+  return PROD.test(str(env));
+}
+
+/**
+ * Run the pipeline rule pack over a Harness pipeline YAML.
+ * `file` is where the YAML lives (the remote Git path, or the pipeline's
+ * YAML view for inline pipelines); every finding points at a line in it.
+ */
+export function scanHarnessYaml(
+  doc: YamlDoc,
+  file: string,
+  createdAt?: string
+): HarnessFinding[] {
+  const root = isMap(doc.value) ? doc.value : {};
+  const pipeline = root['pipeline'];
+  if (!isMap(pipeline)) return [];
+  const out: HarnessFinding[] = [];
+
+  const report = (
+    key: HarnessRuleKey,
+    container: object,
+    field: string | number,
+    message: string,
+    extra: { stage?: string; snippet?: string } = {}
+  ) => {
+    const line = doc.lineOf(container, field);
+    const snippet =
+      extra.snippet ?? (line ? doc.source[line - 1].trim() : undefined);
+    out.push(
+      pipelineFinding(
+        key,
+        message,
+        { file, line, snippet },
+        extra.stage,
+        createdAt
+      )
+    );
+  };
+
+  const checkVariables = (list: YamlValue, stage?: string) => {
+    for (const v of asList(list)) {
+      if (!isMap(v) || /^secret$/i.test(str(v['type']))) continue;
+      const name = str(v['name']);
+      const value = str(v['value']);
+      if (isPlainSecret(name, value))
+        report(
+          'plaintextSecret',
+          v,
+          'value',
+          `Variable "${name}" holds a literal secret value.`,
+          {
+            stage,
+            snippet: `${name}: ${mask(value)}`,
+          }
+        );
+    }
+  };
+
+  const checkEnv = (
+    env: YamlValue | undefined,
+    where: string,
+    stage?: string
+  ) => {
+    if (!isMap(env)) return;
+    for (const [name, raw] of Object.entries(env)) {
+      const value = str(raw);
+      if (isPlainSecret(name, value))
+        report(
+          'plaintextSecret',
+          env,
+          name,
+          `${where} sets ${name} to a literal secret value.`,
+          {
+            stage,
+            snippet: `${name}: ${mask(value)}`,
+          }
+        );
+    }
+  };
+
+  checkVariables(pipeline['variables']);
+
+  const stages = stagesOf(pipeline);
+  let approved = false;
+  let builds = false;
+  let scans = false;
+
+  for (const { value: stage, holder } of stages) {
+    const stageId = str(stage['identifier']) || str(stage['name']);
+    const stageName = str(stage['name']) || stageId;
+    const type = str(stage['type']);
+    const steps = stepsOf(stage);
+    const scanSteps = steps.filter((s) => isScanStep(s.value));
+    const security =
+      type === 'SecurityTests' ||
+      SECURITY_NAME.test(`${stageName} ${stageId}`) ||
+      scanSteps.length > 0;
+
+    builds ||= type === 'CI';
+    scans ||= type === 'SecurityTests' || scanSteps.length > 0;
+
+    checkVariables(stage['variables'], stageId);
+
+    // approval gates
+    if (type === 'Approval') approved = true;
+    const gated = steps.some((s) => /Approval$/.test(str(s.value['type'])));
+    if (isProdDeploy(stage) && !approved && !gated)
+      report(
+        'prodWithoutApproval',
+        holder,
+        'stage',
+        `Stage "${stageName}" deploys to production without a preceding approval.`,
+        { stage: stageId, snippet: `stage: ${stageName} (${type})` }
+      );
+    approved ||= gated;
+
+    // privileged build infrastructure
+    const ctx = dig(
+      stage,
+      'spec',
+      'infrastructure',
+      'spec',
+      'containerSecurityContext'
+    );
+    if (
+      isMap(ctx) &&
+      (ctx['privileged'] === true || str(ctx['privileged']) === 'true')
+    )
+      report(
+        'privileged',
+        ctx,
+        'privileged',
+        `Stage "${stageName}" runs its build pod privileged.`,
+        {
+          stage: stageId,
+        }
+      );
+
+    // security stage allowed to fail / switched off
+    if (security) {
+      const ignore = ignoreStrategy(stage);
+      if (ignore)
+        report(
+          'securityIgnoreFailed',
+          ignore,
+          'type',
+          `Security stage "${stageName}" ignores failures, so scan results never block the pipeline.`,
+          { stage: stageId }
+        );
+      const off = disabledBy(stage);
+      if (off)
+        report(
+          'scanDisabled',
+          off,
+          'condition',
+          `Security stage "${stageName}" never runs.`,
+          {
+            stage: stageId,
+          }
+        );
+    }
+
+    for (const { value: step } of steps) {
+      const stepName = str(step['name']) || str(step['identifier']);
+      const stepType = str(step['type']);
+      const spec = isMap(step['spec']) ? step['spec'] : {};
+      const image = str(spec['image']);
+      const uses = str(spec['uses']);
+
+      checkEnv(spec['envVariables'], `Step "${stepName}"`, stageId);
+      if (stepType === 'Plugin')
+        checkEnv(spec['settings'], `Plugin "${stepName}"`, stageId);
+
+      if (stepType === 'Plugin' && isMutableImage(image))
+        report(
+          'unpinnedPlugin',
+          spec,
+          'image',
+          `Plugin "${stepName}" uses mutable image ${image}.`,
+          {
+            stage: stageId,
+          }
+        );
+      else if (isMutableImage(image))
+        report(
+          'mutableImage',
+          spec,
+          'image',
+          imageRef(image).tag
+            ? `Step "${stepName}" uses the :latest tag (${image}), which is not immutable.`
+            : `Step "${stepName}" uses ${image} without a tag, which resolves to :latest.`,
+          { stage: stageId }
+        );
+      if (isUnpinnedUses(uses))
+        report(
+          'unpinnedPlugin',
+          spec,
+          'uses',
+          `Step "${stepName}" uses ${uses}, which is not pinned to a commit SHA.`,
+          {
+            stage: stageId,
+          }
+        );
+
+      if (spec['privileged'] === true || str(spec['privileged']) === 'true')
+        report(
+          'privileged',
+          spec,
+          'privileged',
+          `Step "${stepName}" runs in a privileged container.`,
+          {
+            stage: stageId,
+          }
+        );
+
+      if (!isScanStep(step)) continue;
+      const ignore = ignoreStrategy(step);
+      if (ignore)
+        report(
+          'securityIgnoreFailed',
+          ignore,
+          'type',
+          `Scan step "${stepName}" ignores failures, so its results never block the pipeline.`,
+          { stage: stageId }
+        );
+      const off = disabledBy(step);
+      if (off)
+        report(
+          'scanDisabled',
+          off,
+          'condition',
+          `Scan step "${stepName}" never runs.`,
+          {
+            stage: stageId,
+          }
+        );
+    }
+  }
+
+  if (builds && !scans)
+    report(
+      'scanMissing',
+      pipeline,
+      'stages',
+      `Pipeline "${str(pipeline['name']) || 'pipeline'}" builds code but runs no security scan.`
+    );
+
+  return withStableIds(out);
+}
+
+/* -----------------------------
+   Execution JSON (no YAML available)
+--------------------------------*/
+const isSecurityStage = (s: PipelineStage) =>
+  s.type === 'SecurityTests' ||
+  SECURITY_NAME.test(`${s.name} ${s.id}`) ||
+  s.steps.some((st) => isScanStepType(st.type));
+
+/**
+ * Checks that can be made from an execution alone. Findings point at the
+ * pipeline file when Harness reports one (remote pipelines), without a line.
+ */
+export function scanHarnessRun(
+  run: PipelineRun,
+  images: Array<{ imageName?: string; imageTag?: string }>,
+  file?: string,
+  createdAt?: string
+): HarnessFinding[] {
+  const out: HarnessFinding[] = [];
+  const at = (snippet: string) => ({ file, snippet });
+
+  for (const img of images) {
+    if (!img?.imageName) continue;
+    const ref = img.imageTag
+      ? `${img.imageName}:${img.imageTag}`
+      : img.imageName;
+    if (isMutableImage(ref))
+      out.push(
+        pipelineFinding(
+          'mutableImage',
+          'Pipeline uses :latest image tag, which is not immutable. Pin to a digest or version tag.',
+          at(ref),
+          undefined,
+          createdAt
+        )
+      );
+  }
+
+  const steps = run.stages.flatMap((s) => s.steps);
+  for (const stage of run.stages) {
+    const security = isSecurityStage(stage);
+    if (stage.status === 'ignore_failed')
+      out.push(
+        security
+          ? pipelineFinding(
+              'securityIgnoreFailed',
+              `Security stage "${stage.name}" failed and the pipeline carried on (IgnoreFailed).`,
+              at(`${stage.name}: IgnoreFailed`),
+              stage.id,
+              createdAt
+            )
+          : pipelineFinding(
+              'stageIgnoreFailed',
+              'Stage executed with status IgnoreFailed. Consider failing fast to avoid promoting broken artifacts.',
+              at(`${stage.name}: IgnoreFailed`),
+              stage.id,
+              createdAt
+            )
+      );
+
+    for (const step of stage.steps)
+      if (isScanStepType(step.type) && step.status === 'skipped')
+        out.push(
+          pipelineFinding(
+            'scanDisabled',
+            `Scan step "${step.name}" was skipped in this run.`,
+            at(`${step.name}: Skipped`),
+            stage.id,
+            createdAt
+          )
+        );
+  }
+
+  // only judge "missing" when the execution graph (steps) came along
+  const builds = run.stages.some((s) =>
+    /^(CI|Integration)/i.test(s.type || '')
+  );
+  if (steps.length && builds && !run.stages.some(isSecurityStage))
+    out.push(
+      pipelineFinding(
+        'scanMissing',
+        `Pipeline "${run.pipelineName}" builds code but runs no security scan.`,
+        at(run.pipelineName),
+        undefined,
+        createdAt
+      )
+    );
+
+  return withStableIds(out);
+}
+
+function pipelineFinding(
+  key: HarnessRuleKey,
+  message: string,
+  location: { file?: string; line?: number; snippet?: string },
+  stage?: string,
+  createdAt?: string
+): HarnessFinding {
+  const rule = HARNESS_RULES[key];
+  return {
+    id: '', // assigned by withStableIds
+    tool: 'harness',
+    driver: 'Harness',
+    ruleId: rule.id,
+    title: rule.title,
+    message,
+    severity: rule.severity,
+    cwe: rule.cwe,
+    rule: { shortDescription: rule.title, help: rule.help },
+    stage,
+    location,
+    createdAt,
+  };
+}
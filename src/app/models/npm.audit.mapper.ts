@@ -0,0 +1,135 @@
+import type { Finding } from './finding.model';
+import { withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import {
+  dependencyFinding,
+  fixesInRange,
+  nextFixed,
+  type Advisory,
+  type FixVia,
+} from './dependency.model';
+
+const GHSA = /GHSA(-[23456789cfghjmpqrvwx]{4}){3}/i;
+
+/**
+ * Detect `npm audit --json` output: npm 7+ (`auditReportVersion: 2`,
+ * `vulnerabilities` keyed by package) or npm 6 (`advisories` keyed by id).
+ */
+export function isNpmAudit(payload: any): boolean {
+  return (
+    !!payload &&
+    typeof payload === 'object' &&
+    ((payload.auditReportVersion >= 2 && isObject(payload.vulnerabilities)) ||
+      (isObject(payload.advisories) && isObject(payload.metadata)))
+  );
+}
+
+const isObject = (v: unknown) => !!v && typeof v === 'object';
+
+const cweList = (v: unknown) =>
+  Array.isArray(v) ? v.map(String).filter(Boolean) : undefined;
+
+const cvssOf = (c: any) =>
+  c && (c.score || c.vectorString)
+    ? { score: c.score || undefined, vector: c.vectorString || undefined }
+    : undefined;
+
+/* -----------------------------
+   npm 7+ (auditReportVersion 2)
+--------------------------------*/
+// `fixAvailable` is true, false, or the (direct) package to install
+function fixViaOf(fix: any, pkg: string): FixVia | undefined {
+  if (!fix || typeof fix !== 'object' || fix.name === pkg) return undefined;
+  return { name: fix.name, version: fix.version, major: !!fix.isSemVerMajor };
+}
+
+function mapV2(payload: any, ctx: { file: string; createdAt: string }) {
+  const out: Finding[] = [];
+  for (const [name, v] of Object.entries<any>(payload.vulnerabilities)) {
+    const fixVia = fixViaOf(v.fixAvailable, name);
+    const ownFix =
+      v.fixAvailable?.name === name ? v.fixAvailable.version : undefined;
+
+    // string `via` entries point at other vulnerable packages; the advisories
+    // themselves are reported on the package they affect
+    for (const via of (v.via || []).filter(isObject)) {
+      const id = String(via.url || '').match(GHSA)?.[0] ?? `NPM-${via.source}`;
+      const advisory: Advisory = {
+        id,
+        summary: via.title,
+        url: via.url,
+        severity: via.severity,
+        cvss: cvssOf(via.cvss),
+        cwe: cweList(via.cwe),
+        affectedRange: via.range,
+        fixedVersion: nextFixed(fixesInRange(via.range)) ?? ownFix,
+        fixVia,
+        direct: !!v.isDirect,
+      };
+      out.push(
+        dependencyFinding(
+          'npm-audit',
+          'npm audit',
+          { name: via.dependency || name, ecosystem: 'npm' },
+          advisory,
+          ctx
+        )
+      );
+    }
+  }
+  return out;
+}
+
+/* -----------------------------
+   npm 6 (advisories)
+--------------------------------*/
+function mapV6(payload: any, ctx: { file: string; createdAt: string }) {
+  const out: Finding[] = [];
+  for (const a of Object.values<any>(payload.advisories)) {
+    const id = a.github_advisory_id || `NPM-${a.id}`;
+    // patched_versions: ">=4.17.21", ">=1.2.3 <2.0.0 || >=2.1.0"
+    const fixes = [
+      ...String(a.patched_versions || '').matchAll(/>=\s*v?([0-9][\w.+-]*)/g),
+    ].map((m) => m[1]);
+    // one finding per installed version of the module
+    for (const hit of a.findings?.length ? a.findings : [{}]) {
+      const advisory: Advisory = {
+        id,
+        aliases: a.cves,
+        summary: a.title,
+        details: a.overview,
+        url: a.url,
+        severity: a.severity,
+        cvss: cvssOf(a.cvss),
+        cwe: typeof a.cwe === 'string' ? [a.cwe] : cweList(a.cwe),
+        affectedRange: a.vulnerable_versions,
+        fixedVersion: nextFixed(fixes, hit.version),
+        direct: (hit.paths || []).some((p: string) => !p.includes('>')),
+      };
+      out.push(
+        dependencyFinding(
+          'npm-audit',
+          'npm audit',
+          { name: a.module_name, ecosystem: 'npm', version: hit.version },
+          advisory,
+          ctx
+        )
+      );
+    }
+  }
+  return out;
+}
+
+/** npm audit JSON → one finding per (package, advisory) */
+export function mapNpmAuditToFindings(
+  payload: any,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  if (!isNpmAudit(payload)) return [];
+  const c = {
+    file: 'package-lock.json',
+    createdAt: ctx?.createdAt ?? new Date().toISOString(),
+  };
+  const list = payload.advisories ? mapV6(payload, c) : mapV2(payload, c);
+  return withStableIds(applyRulePolicy(list, ctx?.rules));
+}
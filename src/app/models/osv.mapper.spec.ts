@@ -0,0 +1,61 @@
+import type { DependencyFinding } from './finding.model';
+import { mapOsvToFindings } from './osv.mapper';
+
+const result = (path: string) => ({
+  source: { path, type: 'lockfile' },
+  packages: [
+    {
+      package: { name: 'lodash', version: '4.17.20', ecosystem: 'npm' },
+      vulnerabilities: [
+        {
+          id: 'GHSA-35jh-r3h4-6jhm',
+          aliases: ['CVE-2021-23337'],
+          summary: 'Command injection in lodash',
+          database_specific: { severity: 'HIGH' },
+          affected: [
+            {
+              package: { name: 'lodash', ecosystem: 'npm' },
+              ranges: [
+                {
+                  type: 'SEMVER',
+                  events: [{ introduced: '0' }, { fixed: '4.17.21' }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      groups: [{ ids: ['GHSA-35jh-r3h4-6jhm'], aliases: ['CVE-2021-23337'] }],
+    },
+  ],
+});
+
+const PAYLOAD = {
+  results: [
+    result('apps/web/package-lock.json'),
+    result('apps/api/package-lock.json'),
+  ],
+};
+
+describe('mapOsvToFindings', () => {
+  const list = mapOsvToFindings(PAYLOAD) as DependencyFinding[];
+
+  it('reports the advisory once per manifest', () => {
+    expect(list.map((f) => f.location?.file)).toEqual([
+      'apps/web/package-lock.json',
+      'apps/api/package-lock.json',
+    ]);
+    expect(list[0].severity).toBe('high');
+    expect(list[0].fixedVersion).toBe('4.17.21');
+  });
+
+  it('gives the same package in two manifests different identities', () => {
+    expect(list[0].id).not.toBe(list[1].id);
+    expect(list[0].fingerprint).not.toBe(list[1].fingerprint);
+  });
+
+  it('keeps ids stable across scans', () => {
+    const again = mapOsvToFindings(PAYLOAD);
+    expect(again.map((f) => f.id)).toEqual(list.map((f) => f.id));
+  });
+});
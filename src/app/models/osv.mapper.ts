@@ -0,0 +1,112 @@
+import type { Finding } from './finding.model';
+import { withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import {
+  cvssBaseScore,
+  dependencyFinding,
+  nextFixed,
+  type Cvss,
+  type PackageRef,
+} from './dependency.model';
+
+/**
+ * Detect OSV-Scanner JSON (`osv-scanner --format json`):
+ * `{ results: [{ source, packages: [{ package, vulnerabilities, groups }] }] }`.
+ */
+export function isOsvScannerJson(payload: any): boolean {
+  const results = payload?.results;
+  return (
+    Array.isArray(results) &&
+    results.length > 0 &&
+    results.every((r: any) => Array.isArray(r?.packages))
+  );
+}
+
+/** CVSS v3 vector from an OSV `severity` list; score from the scanner's group */
+function cvssOf(vuln: any, groupScore?: string): Cvss | undefined {
+  const vector = (vuln.severity || []).find((s: any) =>
+    /^CVSS_V3/.test(s?.type)
+  )?.score;
+  const score = Number(groupScore) || cvssBaseScore(vector);
+  return score || vector ? { score: score || undefined, vector } : undefined;
+}
+
+/** `fixed` events of the ranges that apply to this package */
+function fixesFor(vuln: any, pkg: PackageRef): string[] {
+  return (vuln.affected || [])
+    .filter(
+      (a: any) =>
+        !a?.package?.name ||
+        (a.package.name === pkg.name &&
+          (!pkg.ecosystem || a.package.ecosystem === pkg.ecosystem))
+    )
+    .flatMap((a: any) => a.ranges || [])
+    .flatMap((r: any) => r.events || [])
+    .map((e: any) => e.fixed)
+    .filter((v: unknown): v is string => typeof v === 'string');
+}
+
+/** OSV-Scanner JSON → one finding per (package, vulnerability) */
+export function mapOsvToFindings(
+  payload: any,
+  ctx?: { createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  if (!isOsvScannerJson(payload)) return [];
+  const createdAt = ctx?.createdAt ?? new Date().toISOString();
+  const out: Finding[] = [];
+
+  for (const result of payload.results) {
+    const file = result.source?.path || undefined;
+    for (const p of result.packages) {
+      const pkg: PackageRef = {
+        name: String(p.package?.name ?? ''),
+        ecosystem: p.package?.ecosystem || undefined,
+        version: p.package?.version || undefined,
+        purl: p.package?.purl || undefined,
+      };
+      if (!pkg.name) continue;
+
+      // aliases of one issue (GHSA + CVE + PYSEC ...) are reported once, by group
+      const vulns: any[] = p.vulnerabilities || [];
+      const groups: any[] = p.groups?.length
+        ? p.groups
+        : vulns.map((v) => ({ ids: [v.id] }));
+      for (const g of groups) {
+        const members = vulns.filter((v) => g.ids?.includes(v.id));
+        const vuln = members.find((v) => /^GHSA-/.test(v.id)) ?? members[0];
+        if (!vuln) continue;
+        const ids: string[] = [
+          ...(g.ids || []),
+          ...(g.aliases || []),
+          ...members.flatMap((v) => v.aliases || []),
+        ];
+        const dbSpecific = vuln.database_specific || {};
+        out.push(
+          dependencyFinding(
+            'osv-scanner',
+            'OSV-Scanner',
+            pkg,
+            {
+              id: vuln.id,
+              aliases: [...new Set(ids)],
+              summary: vuln.summary,
+              details: vuln.details,
+              url:
+                vuln.references?.find((r: any) => r.type === 'ADVISORY')?.url ||
+                `https://osv.dev/vulnerability/${vuln.id}`,
+              severity: dbSpecific.severity,
+              cvss: cvssOf(vuln, g.max_severity),
+              cwe: dbSpecific.cwe_ids,
+              fixedVersion: nextFixed(
+                members.flatMap((v) => fixesFor(v, pkg)),
+                pkg.version
+              ),
+            },
+            { file, createdAt }
+          )
+        );
+      }
+    }
+  }
+  return withStableIds(applyRulePolicy(out, ctx?.rules));
+}
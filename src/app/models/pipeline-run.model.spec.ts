@@ -0,0 +1,117 @@
+import {
+  durationBetween,
+  formatDuration,
+  runTimeline,
+  slowStageIds,
+  toRunStatus,
+  type PipelineRun,
+  type PipelineStage,
+} from './pipeline-run.model';
+
+const stage = (over: Partial<PipelineStage>): PipelineStage => ({
+  id: 's',
+  name: 'stage',
+  status: 'success',
+  steps: [],
+  ...over,
+});
+
+const run = (stages: PipelineStage[], over: Partial<PipelineRun> = {}) =>
+  ({
+    id: 'exec-1',
+    source: 'harness',
+    pipelineId: 'build',
+    pipelineName: 'build',
+    status: 'success',
+    stages,
+    artifacts: [],
+    ...over,
+  }) as PipelineRun;
+
+describe('toRunStatus', () => {
+  it('normalizes CI status spellings', () => {
+    expect(toRunStatus('Success')).toBe('success');
+    expect(toRunStatus('IgnoreFailed')).toBe('ignore_failed');
+    expect(toRunStatus('APPROVAL_WAITING')).toBe('running');
+    expect(toRunStatus('NotStarted')).toBe('skipped');
+    expect(toRunStatus('Expired')).toBe('aborted');
+    expect(toRunStatus(undefined)).toBe('unknown');
+  });
+});
+
+describe('durationBetween / formatDuration', () => {
+  it('needs both ends in order', () => {
+    const a = '2025-01-01T00:00:00Z';
+    const b = '2025-01-01T00:09:54Z';
+    expect(durationBetween(a, b)).toBe(594_000);
+    expect(durationBetween(b, a)).toBeUndefined();
+    expect(durationBetween(a)).toBeUndefined();
+  });
+
+  it('prints the two largest units', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(594_000)).toBe('9m 54s');
+    expect(formatDuration(3_720_000)).toBe('1h 02m');
+    expect(formatDuration(undefined)).toBe('–');
+  });
+});
+
+describe('slowStageIds', () => {
+  it('flags stages twice the median and over a minute', () => {
+    const stages = [
+      stage({ id: 'a', durationMs: 60_000 }),
+      stage({ id: 'b', durationMs: 70_000 }),
+      stage({ id: 'c', durationMs: 300_000 }),
+    ];
+    expect([...slowStageIds(run(stages))]).toEqual(['c']);
+  });
+
+  it('never flags short pipelines', () => {
+    const stages = [
+      stage({ id: 'a', durationMs: 1_000 }),
+      stage({ id: 'b', durationMs: 20_000 }),
+    ];
+    expect(slowStageIds(run(stages)).size).toBe(0);
+  });
+});
+
+describe('runTimeline', () => {
+  it('places stages at their real offset', () => {
+    const t = runTimeline(
+      run(
+        [
+          stage({
+            id: 'a',
+            startedAt: '2025-01-01T00:00:00Z',
+            endedAt: '2025-01-01T00:01:00Z',
+          }),
+          stage({
+            id: 'b',
+            startedAt: '2025-01-01T00:01:00Z',
+            endedAt: '2025-01-01T00:04:00Z',
+          }),
+        ],
+        { startedAt: '2025-01-01T00:00:00Z', endedAt: '2025-01-01T00:04:00Z' }
+      )
+    );
+    expect(t.spanMs).toBe(240_000);
+    expect(t.stages.map((s) => [s.offset, s.width])).toEqual([
+      [0, 25],
+      [25, 75],
+    ]);
+  });
+
+  it('lays stages end to end without timestamps', () => {
+    const t = runTimeline(
+      run([
+        stage({ id: 'a', durationMs: 1_000 }),
+        stage({ id: 'b', durationMs: 3_000 }),
+      ])
+    );
+    expect(t.spanMs).toBe(4_000);
+    expect(t.stages.map((s) => [s.offset, s.width])).toEqual([
+      [0, 25],
+      [25, 75],
+    ]);
+  });
+});
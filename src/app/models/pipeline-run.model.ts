@@ -0,0 +1,218 @@
+// Normalized CI/CD execution, independent of the CI system it came from
+export type RunStatus =
+  | 'success'
+  | 'failed'
+  | 'running'
+  | 'queued'
+  | 'aborted'
+  | 'skipped'
+  | 'ignore_failed'
+  | 'unknown';
+
+export interface PipelineStep {
+  id: string;
+  name: string;
+  type?: string; // e.g. "Run", "BuildAndPushDockerRegistry", "K8sRollingDeploy"
+  status: RunStatus;
+  startedAt?: string; // ISO timestamp
+  endedAt?: string;
+  durationMs?: number;
+  failure?: string;
+}
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  type?: string; // "CI", "Deployment", "Approval", ...
+  status: RunStatus;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  failure?: string;
+  steps: PipelineStep[];
+}
+
+export interface PipelineTrigger {
+  type: string; // "manual", "webhook", "cron", ...
+  user?: string;
+  branch?: string;
+  commit?: string;
+}
+
+export interface PipelineArtifact {
+  name: string; // image or package name
+  tag?: string;
+  digest?: string;
+  stage?: string; // stage id that produced / deployed it
+}
+
+export interface PipelineRun {
+  id: string; // execution id
+  source: string; // "harness", later other CI systems
+  pipelineId: string;
+  pipelineName: string;
+  runNumber?: number;
+  status: RunStatus;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  trigger?: PipelineTrigger;
+  stages: PipelineStage[];
+  artifacts: PipelineArtifact[];
+  url?: string;
+  failure?: string;
+}
+
+/* -----------------------------
+   Helpers
+--------------------------------*/
+const STATUS_ALIASES: Record<string, RunStatus> = {
+  success: 'success',
+  succeeded: 'success',
+  passed: 'success',
+  failed: 'failed',
+  failure: 'failed',
+  errored: 'failed',
+  approvalrejected: 'failed',
+  running: 'running',
+  asyncwaiting: 'running',
+  taskwaiting: 'running',
+  timedwaiting: 'running',
+  interventionwaiting: 'running',
+  approvalwaiting: 'running',
+  resourcewaiting: 'running',
+  paused: 'running',
+  queued: 'queued',
+  waiting: 'queued',
+  aborted: 'aborted',
+  expired: 'aborted',
+  discontinuing: 'aborted',
+  skipped: 'skipped',
+  notstarted: 'skipped',
+  ignorefailed: 'ignore_failed',
+};
+
+/** Any CI system's status string → RunStatus ("IgnoreFailed", "APPROVAL_WAITING", ...) */
+export function toRunStatus(raw: unknown): RunStatus {
+  const key = String(raw ?? '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+  return STATUS_ALIASES[key] ?? 'unknown';
+}
+
+/** Duration between two ISO timestamps, when both are known */
+export function durationBetween(start?: string, end?: string): number | undefined {
+  if (!start || !end) return undefined;
+  const ms = Date.parse(end) - Date.parse(start);
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined;
+}
+
+/** "9m 54s", "1h 02m", "850ms" */
+export function formatDuration(ms?: number): string {
+  if (ms === undefined) return '–';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const s = Math.round(ms / 1000);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  if (h) return `${h}h ${String(m).padStart(2, '0')}m`;
+  if (m) return `${m}m ${String(sec).padStart(2, '0')}s`;
+  return `${sec}s`;
+}
+
+/**
+ * Stages that dominate a run: at least twice the median stage duration
+ * and over a minute (short pipelines never flag anything).
+ */
+export function slowStageIds(run: PipelineRun): Set<string> {
+  const timed = run.stages.filter((s) => s.durationMs !== undefined);
+  if (timed.length < 2) return new Set();
+  const sorted = timed.map((s) => s.durationMs!).sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const threshold = Math.max(2 * median, 60_000);
+  return new Set(
+    timed.filter((s) => s.durationMs! >= threshold).map((s) => s.id)
+  );
+}
+
+export function isFailure(status: RunStatus): boolean {
+  return status === 'failed' || status === 'aborted';
+}
+
+/* -----------------------------
+   Timeline layout (percent of the run's span)
+--------------------------------*/
+export interface TimelineBar<T> {
+  item: T;
+  offset: number; // % from the run start
+  width: number; // % of the run span
+}
+
+export interface StageBar extends TimelineBar<PipelineStage> {
+  slow: boolean;
+  steps: Array<TimelineBar<PipelineStep>>;
+}
+
+export interface RunTimeline {
+  run: PipelineRun;
+  spanMs?: number;
+  stages: StageBar[];
+}
+
+// keep zero-length / instant items visible
+const MIN_WIDTH = 0.8;
+
+/**
+ * Gantt layout for a run. Items with timestamps sit at their real offset;
+ * without them stages are laid end to end by duration (or equal widths).
+ */
+export function runTimeline(run: PipelineRun): RunTimeline {
+  const t0 = Date.parse(run.startedAt || run.stages[0]?.startedAt || '');
+  const ends = run.stages
+    .map((s) => Date.parse(s.endedAt || ''))
+    .filter(Number.isFinite);
+  const tEnd = Date.parse(run.endedAt || '') || Math.max(...ends, NaN);
+  const span = Number.isFinite(t0) && tEnd > t0 ? tEnd - t0 : undefined;
+  const slow = slowStageIds(run);
+
+  const place = (start?: string, end?: string) => {
+    const a = Date.parse(start || '');
+    if (!span || !Number.isFinite(a)) return null;
+    const b = Date.parse(end || '') || tEnd;
+    const offset = Math.min(100, Math.max(0, ((a - t0) / span) * 100));
+    const width = Math.max(
+      MIN_WIDTH,
+      Math.min(100 - offset, ((b - a) / span) * 100)
+    );
+    return { offset, width };
+  };
+
+  // sequential fallback when timestamps are missing
+  const total = run.stages.reduce((n, s) => n + (s.durationMs ?? 0), 0);
+  let cursor = 0;
+  const sequential = (s: PipelineStage) => {
+    const width = total
+      ? ((s.durationMs ?? 0) / total) * 100
+      : 100 / Math.max(1, run.stages.length);
+    const bar = { offset: cursor, width: Math.max(MIN_WIDTH, width) };
+    cursor += width;
+    return bar;
+  };
+
+  const stages = run.stages.map((stage): StageBar => {
+    const bar = place(stage.startedAt, stage.endedAt) ?? sequential(stage);
+    return {
+      item: stage,
+      ...bar,
+      slow: slow.has(stage.id),
+      steps: stage.steps.map((step) => ({
+        item: step,
+        ...(place(step.startedAt, step.endedAt) ?? bar),
+      })),
+    };
+  });
+
+  return { run, spanMs: span ?? (total || undefined), stages };
+}
@@ -0,0 +1,75 @@
+import type { Severity } from './finding.model';
+import { isMap, type YamlValue } from './yaml';
+
+/** One check of a CI rule pack (Harness, GitHub Actions, GitLab CI) */
+export interface PipelineRule {
+  id: string;
+  title: string;
+  severity: Severity;
+  cwe?: string[];
+  help: string;
+}
+
+// CI definitions worth importing from a local clone
+const PIPELINE_FILE =
+  /(^|\/)(\.github\/workflows\/[^/]+|\.gitlab-ci|\.harness\/.+)\.ya?ml$/i;
+
+export function isPipelineDefinition(path: string): boolean {
+  return PIPELINE_FILE.test(path);
+}
+
+const SECRET_NAME =
+  /secret|token|passw(or)?d|\bpwd\b|api[-_]?key|private[-_]?key|credential|access[-_]?key/i;
+const SECRET_VALUE =
+  /AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36}|glpat-[A-Za-z0-9_-]{20}|xox[abpr]-[A-Za-z0-9-]+|sk_live_[A-Za-z0-9]+|-----BEGIN [A-Z ]*PRIVATE KEY/;
+
+// Harness (<+...>), GitHub (${{ }}) and shell ($VAR / ${VAR}) expressions
+export const isExpression = (v: string) =>
+  /<\+|\$\{\{|\$\{|^\$[A-Za-z_]/.test(v);
+
+export const str = (v: YamlValue | undefined): string =>
+  typeof v === 'string' || typeof v === 'number' ? String(v) : '';
+
+export const dig = (v: YamlValue | undefined, ...path: string[]) =>
+  path.reduce<YamlValue | undefined>(
+    (cur, k) => (isMap(cur) ? cur[k] : undefined),
+    v
+  );
+
+/** True when a literal value looks like a credential */
+export function isPlainSecret(name: string, value: string): boolean {
+  const v = value.trim();
+  if (!v || isExpression(v)) return false;
+  return SECRET_VALUE.test(v) || (SECRET_NAME.test(name) && v.length >= 4);
+}
+
+export const mask = (v: string) => `${v.slice(0, 2)}******`;
+
+/** "repo/img:tag@sha256:..." → parts (registry ports aren't mistaken for tags) */
+export function imageRef(ref: string): {
+  name: string;
+  tag?: string;
+  digest?: string;
+} {
+  const [base, digest] = ref.trim().split('@');
+  const colon = base.lastIndexOf(':');
+  const hasTag = colon > base.lastIndexOf('/');
+  return {
+    name: hasTag ? base.slice(0, colon) : base,
+    tag: hasTag ? base.slice(colon + 1) : undefined,
+    digest: digest || undefined,
+  };
+}
+
+/** No digest and no tag, or ":latest" */
+export function isMutableImage(ref: string): boolean {
+  if (!ref.trim() || isExpression(ref)) return false;
+  const { tag, digest } = imageRef(ref);
+  return !digest && (!tag || tag.toLowerCase() === 'latest');
+}
+
+/** Actions / Bitrise steps are only immutable when pinned to a commit SHA */
+export function isUnpinnedUses(ref: string): boolean {
+  if (!ref.trim() || isExpression(ref) || ref.startsWith('./')) return false;
+  return !/@[0-9a-f]{40}$/i.test(ref.trim());
+}
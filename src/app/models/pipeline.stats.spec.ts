@@ -0,0 +1,119 @@
+import type { Finding } from './finding.model';
+import type {
+  PipelineRun,
+  PipelineStage,
+  RunStatus,
+} from './pipeline-run.model';
+import { pipelineStats, runsOf, trendBars } from './pipeline.stats';
+
+let seq = 0;
+const run = (
+  status: RunStatus,
+  over: Partial<PipelineRun> = {},
+  stages: Array<Partial<PipelineStage>> = []
+): PipelineRun => ({
+  id: `exec-${++seq}`,
+  source: 'harness',
+  pipelineId: 'build',
+  pipelineName: 'build',
+  status,
+  stages: stages.map((s) => ({
+    id: 'test',
+    name: 'Test',
+    status,
+    steps: [],
+    ...s,
+  })),
+  artifacts: [],
+  ...over,
+});
+
+describe('runsOf', () => {
+  it('collects the runs carried by findings', () => {
+    const r = run('success');
+    const list = [{ tool: 'harness', run: r }, { tool: 'semgrep' }];
+    expect(runsOf(list as Finding[])).toEqual([r]);
+  });
+});
+
+describe('pipelineStats', () => {
+  it('rates success over finished runs only', () => {
+    const [stats] = pipelineStats([
+      run('success'),
+      run('failed'),
+      run('ignore_failed'),
+      run('success'),
+      run('aborted'),
+    ]);
+    expect(stats.runs).toBe(5);
+    expect(stats.finished).toBe(4);
+    expect(stats.successRate).toBe(50);
+  });
+
+  it('groups by pipeline, most recently run first', () => {
+    const stats = pipelineStats([
+      run('success', { pipelineId: 'a' }),
+      run('success', { pipelineId: 'b' }),
+      run('failed', { pipelineId: 'a' }),
+    ]);
+    expect(stats.map((s) => [s.pipelineId, s.runs])).toEqual([
+      ['a', 2],
+      ['b', 1],
+    ]);
+    expect(stats[0].history.map((p) => p.status)).toEqual([
+      'success',
+      'failed',
+    ]);
+  });
+
+  it('flags a duration regression against the earlier median', () => {
+    const durations = [60_000, 62_000, 58_000, 61_000, 150_000];
+    const [stats] = pipelineStats(
+      durations.map((durationMs) => run('success', { durationMs }))
+    );
+    expect(stats.baselineMs).toBe(60_500);
+    expect(stats.regression).toBeCloseTo(150_000 / 60_500);
+  });
+
+  it('needs a baseline before it reports a regression', () => {
+    const [stats] = pipelineStats([
+      run('success', { durationMs: 10_000 }),
+      run('success', { durationMs: 200_000 }),
+    ]);
+    expect(stats.baselineMs).toBeUndefined();
+    expect(stats.regression).toBeUndefined();
+  });
+
+  it('counts stage failures and flags flip-flopping stages', () => {
+    const statuses: RunStatus[] = ['success', 'failed', 'success', 'success'];
+    const [stats] = pipelineStats(
+      statuses.map((s) => run(s, {}, [{ status: s }]))
+    );
+    expect(stats.stages[0]).toEqual(
+      jasmine.objectContaining({ id: 'test', samples: 4, failures: 1 })
+    );
+    expect(stats.stages[0].flips).toBe(2);
+    expect(stats.stages[0].flaky).toBeTrue();
+  });
+
+  it('flags a stage that passed and failed on the same commit', () => {
+    const trigger = { type: 'manual', commit: 'abc' };
+    const [stats] = pipelineStats([
+      run('failed', { trigger }, [{ status: 'failed' }]),
+      run('success', { trigger }, [{ status: 'success' }]),
+    ]);
+    expect(stats.stages[0].flips).toBe(1);
+    expect(stats.stages[0].flaky).toBeTrue();
+  });
+});
+
+describe('trendBars', () => {
+  it('scales to the slowest run and keeps unknown durations visible', () => {
+    const bars = trendBars([
+      { id: 'a', status: 'success', durationMs: 50 },
+      { id: 'b', status: 'success', durationMs: 100 },
+      { id: 'c', status: 'running' },
+    ]);
+    expect(bars.map((b) => b.height)).toEqual([50, 100, 8]);
+  });
+});
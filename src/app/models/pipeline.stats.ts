@@ -0,0 +1,199 @@
+import type { Finding, HarnessFinding } from './finding.model';
+import type { PipelineRun, RunStatus } from './pipeline-run.model';
+
+// a stage regressed when its latest run is this much slower than its baseline…
+const REGRESSION_RATIO = 1.5;
+// …and by at least this much (seconds-long stages jitter a lot)
+const REGRESSION_MIN_MS = 30_000;
+// earlier runs needed before a baseline means anything
+const MIN_BASELINE_RUNS = 3;
+// runs considered for baselines and flakiness
+const WINDOW = 10;
+// pass → fail → pass (or the reverse) within the window
+const FLAKY_FLIPS = 2;
+
+export interface StageStats {
+  id: string;
+  name: string;
+  samples: number; // runs the stage executed in
+  failures: number;
+  meanMs?: number;
+  latestMs?: number;
+  baselineMs?: number; // median of the earlier runs in the window
+  regression?: number; // latest / baseline, set only when it regressed
+  flips: number; // pass/fail changes within the window
+  flaky: boolean;
+}
+
+export interface RunPoint {
+  id: string;
+  runNumber?: number;
+  at?: string;
+  status: RunStatus;
+  durationMs?: number;
+}
+
+export interface PipelineStats {
+  pipelineId: string;
+  pipelineName: string;
+  runs: number;
+  finished: number; // runs with a pass / fail outcome
+  successRate?: number; // 0-100 over finished runs
+  meanMs?: number;
+  latestMs?: number;
+  baselineMs?: number;
+  regression?: number;
+  history: RunPoint[]; // oldest first
+  stages: StageStats[];
+}
+
+/** Execution runs carried by (Harness) pipeline findings */
+export function runsOf(findings: Finding[]): PipelineRun[] {
+  return findings
+    .map((f) => (f as HarnessFinding).run)
+    .filter((r): r is PipelineRun => !!r);
+}
+
+// pass / fail; null when a status says nothing about health (aborted, running, ...)
+function outcome(status: RunStatus): 'pass' | 'fail' | null {
+  if (status === 'success') return 'pass';
+  if (status === 'failed' || status === 'ignore_failed') return 'fail';
+  return null;
+}
+
+const mean = (xs: number[]) =>
+  xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : undefined;
+
+function median(xs: number[]): number | undefined {
+  if (!xs.length) return undefined;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/** Latest duration vs the median of the runs before it (chronological input) */
+function regressionOf(durations: number[]) {
+  const latestMs = durations[durations.length - 1];
+  const earlier = durations.slice(-WINDOW - 1, -1);
+  const baselineMs =
+    earlier.length >= MIN_BASELINE_RUNS ? median(earlier) : undefined;
+  const regressed =
+    latestMs !== undefined &&
+    baselineMs !== undefined &&
+    latestMs >= baselineMs * REGRESSION_RATIO &&
+    latestMs - baselineMs >= REGRESSION_MIN_MS;
+  return {
+    latestMs,
+    baselineMs,
+    regression: regressed ? latestMs / baselineMs : undefined,
+  };
+}
+
+/** Outcome changes in order, e.g. pass fail pass → 2 */
+function flipsOf(outcomes: Array<'pass' | 'fail'>): number {
+  let n = 0;
+  for (let i = 1; i < outcomes.length; i++)
+    if (outcomes[i] !== outcomes[i - 1]) n++;
+  return n;
+}
+
+function stageStats(runs: PipelineRun[]): StageStats[] {
+  // latest run's stage order first, then stages that only ran earlier
+  const order = new Map<string, string>();
+  for (const r of [...runs].reverse())
+    for (const s of r.stages) if (!order.has(s.id)) order.set(s.id, s.name);
+
+  return [...order].map(([id, name]) => {
+    const seen = runs
+      .map((r) => ({ run: r, stage: r.stages.find((s) => s.id === id) }))
+      .filter((x) => x.stage && x.stage.status !== 'skipped');
+    const durations = seen
+      .map((x) => x.stage!.durationMs)
+      .filter((d): d is number => d !== undefined);
+    const recent = seen
+      .slice(-WINDOW)
+      .map((x) => ({
+        commit: x.run.trigger?.commit,
+        result: outcome(x.stage!.status),
+      }))
+      .filter((x) => x.result);
+    const flips = flipsOf(recent.map((x) => x.result!));
+
+    // the same commit both passed and failed: flaky regardless of order
+    const byCommit = new Map<string, Set<string>>();
+    for (const x of recent)
+      if (x.commit)
+        byCommit.set(
+          x.commit,
+          (byCommit.get(x.commit) ?? new Set()).add(x.result!)
+        );
+    const retried = [...byCommit.values()].some((s) => s.size > 1);
+
+    return {
+      id,
+      name,
+      samples: seen.length,
+      failures: seen.filter((x) => outcome(x.stage!.status) === 'fail').length,
+      meanMs: mean(durations),
+      ...regressionOf(durations),
+      flips,
+      flaky: flips >= FLAKY_FLIPS || retried,
+    };
+  });
+}
+
+function statsFor(runs: PipelineRun[]): PipelineStats {
+  const latest = runs[runs.length - 1];
+  const finished = runs.filter((r) => outcome(r.status));
+  const passed = finished.filter((r) => outcome(r.status) === 'pass');
+  const durations = finished
+    .map((r) => r.durationMs)
+    .filter((d): d is number => d !== undefined);
+  return {
+    pipelineId: latest.pipelineId,
+    pipelineName: latest.pipelineName,
+    runs: runs.length,
+    finished: finished.length,
+    successRate: finished.length
+      ? (100 * passed.length) / finished.length
+      : undefined,
+    meanMs: mean(durations),
+    ...regressionOf(durations),
+    history: runs.map((r) => ({
+      id: r.id,
+      runNumber: r.runNumber,
+      at: r.startedAt,
+      status: r.status,
+      durationMs: r.durationMs,
+    })),
+    stages: stageStats(runs),
+  };
+}
+
+/**
+ * Run history analytics, one entry per pipeline (most recently run first).
+ * `runs` must be in chronological order.
+ */
+export function pipelineStats(runs: PipelineRun[]): PipelineStats[] {
+  // walk newest first so groups come out by most recent run
+  const groups = new Map<string, PipelineRun[]>();
+  for (const r of [...runs].reverse())
+    groups.set(r.pipelineId, [r, ...(groups.get(r.pipelineId) ?? [])]);
+  return [...groups.values()].map(statsFor);
+}
+
+export interface TrendBar {
+  point: RunPoint;
+  height: number; // % of the slowest run shown
+}
+
+/** Last `n` runs as bars scaled to the slowest (unknown durations stay visible) */
+export function trendBars(history: RunPoint[], n = 20): TrendBar[] {
+  const points = history.slice(-n);
+  const max = Math.max(0, ...points.map((p) => p.durationMs ?? 0));
+  return points.map((point) => ({
+    point,
+    height:
+      max && point.durationMs ? Math.max(8, (100 * point.durationMs) / max) : 8,
+  }));
+}
@@ -0,0 +1,62 @@
+import type { Finding } from './finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { buildRuleCatalog, ruleSightings } from './rule.catalog';
+
+const at = (file: string, extra: Partial<Finding> = {}) =>
+  finding({ ruleId: 'sql-injection', location: { file }, ...extra });
+
+describe('ruleSightings', () => {
+  it('lists each rule once per tool at its worst severity', () => {
+    const sightings = ruleSightings([
+      at('a.py', { severity: 'low' }),
+      at('b.py', { severity: 'high' }),
+      at('c.py', { tool: 'sarif', driver: 'CodeQL' }),
+      finding({ tool: 'vanta', ruleId: 'soc2' }),
+    ]);
+    expect(sightings.map((r) => [r.tool, r.severity])).toEqual([
+      ['semgrep', 'high'],
+      ['sarif', 'medium'],
+    ]);
+  });
+});
+
+describe('buildRuleCatalog', () => {
+  it('keeps rules of the same name from different tools apart', () => {
+    const catalog = buildRuleCatalog([
+      at('a.py'),
+      at('b.py'),
+      at('a.py', { tool: 'sarif', driver: 'CodeQL' }),
+    ]);
+    expect(catalog.map((e) => [e.key, e.hits])).toEqual([
+      ['semgrep:sql-injection', 2],
+      ['sarif:sql-injection', 1],
+    ]);
+    expect(catalog[0].files).toEqual(['a.py', 'b.py']);
+  });
+
+  it('counts stored scans from their summaries', () => {
+    const older = ruleSightings([at('a.py', { severity: 'critical' })]);
+    const oldRule = ruleSightings([at('x.py', { ruleId: 'retired-rule' })]);
+    const catalog = buildRuleCatalog([at('a.py')], [older, oldRule]);
+    const sqli = catalog.find((e) => e.ruleId === 'sql-injection')!;
+    expect(sqli.scans).toBe(2);
+    expect(sqli.severity).toBe('critical');
+    // a rule no longer reported (say, disabled) stays listed
+    const retired = catalog.find((e) => e.ruleId === 'retired-rule')!;
+    expect([retired.hits, retired.scans]).toEqual([0, 1]);
+  });
+
+  it('collects CWE, OWASP tags and the richest rule help', () => {
+    const [e] = buildRuleCatalog([
+      at('a.py', { rule: { name: 'x' } }),
+      at('b.py', {
+        tags: ['OWASP-A03:2021 - Injection', 'security'],
+        cwe: ['CWE-89'],
+        rule: { name: 'x', helpMarkdown: '**use parameters**' },
+      } as Partial<Finding>),
+    ]);
+    expect(e.cwe).toEqual(['CWE-89']);
+    expect(e.owasp).toEqual(['OWASP-A03:2021 - Injection']);
+    expect(e.rule?.helpMarkdown).toBe('**use parameters**');
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  categoryOf,
+  type Finding,
+  type RuleInfo,
+  type Severity,
+  type ToolCategory,
+  type ToolKind,
+} from './finding.model';
+import { cweOf } from './finding.filter';
+import { ruleKey } from './rule.policy';
+
+export interface RuleEntry {
+  key: string; // tool + rule id (see ruleKey)
+  ruleId: string;
+  tool: ToolKind;
+  category: ToolCategory;
+  driver?: string;
+  title: string;
+  rule?: RuleInfo; // richest metadata seen for the rule
+  severity: Severity; // worst severity the rule was reported at
+  cwe: string[];
+  owasp: string[];
+  hits: number; // findings in the open scan
+  scans: number; // stored scans the rule showed up in
+  files: string[]; // in the open scan
+}
+
+// A rule as a stored scan saw it; kept on the session summary
+export interface RuleSighting {
+  tool: ToolKind;
+  ruleId: string;
+  driver?: string;
+  title: string;
+  severity: Severity; // worst in that scan
+}
+
+const SEV_RANK: Record<Severity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+  unknown: 5,
+};
+
+/** OWASP Top 10 mappings carried as tags, e.g. "OWASP-A03:2021 - Injection" */
+export function owaspOf(f: Finding): string[] {
+  return (f.tags || []).filter((t) => /owasp/i.test(t));
+}
+
+// more descriptive fields win when the same rule comes from several scans
+const richness = (r?: RuleInfo) =>
+  r ? Object.values(r).filter(Boolean).join('').length : 0;
+
+/** Rules a scan reported, worst severity each; compliance frameworks left out */
+export function ruleSightings(list: Finding[]): RuleSighting[] {
+  const out = new Map<string, RuleSighting>();
+  for (const f of list) {
+    if (categoryOf(f.tool) === 'compliance') continue;
+    const seen = out.get(ruleKey(f));
+    if (!seen)
+      out.set(ruleKey(f), {
+        tool: f.tool,
+        ruleId: f.ruleId,
+        driver: f.driver,
+        title: f.rule?.shortDescription || f.title || f.ruleId,
+        severity: f.severity,
+      });
+    else if (SEV_RANK[f.severity] < SEV_RANK[seen.severity])
+      seen.severity = f.severity;
+  }
+  return [...out.values()];
+}
+
+/**
+ * One entry per rule (per tool) across scans.
+ * `current` is the open scan; `history` holds the rules of every other stored scan.
+ */
+export function buildRuleCatalog(
+  current: Finding[],
+  history: RuleSighting[][] = []
+): RuleEntry[] {
+  const entries = new Map<string, RuleEntry>();
+  const files = new Map<string, Set<string>>();
+
+  const entryOf = (r: RuleSighting) => {
+    const key = ruleKey(r);
+    let e = entries.get(key);
+    if (!e) {
+      e = {
+        key,
+        ruleId: r.ruleId,
+        tool: r.tool,
+        category: categoryOf(r.tool),
+        driver: r.driver,
+        title: r.title,
+        severity: r.severity,
+        cwe: [],
+        owasp: [],
+        hits: 0,
+        scans: 0,
+        files: [],
+      };
+      entries.set(key, e);
+      files.set(key, new Set());
+    }
+    if (SEV_RANK[r.severity] < SEV_RANK[e.severity]) e.severity = r.severity;
+    return e;
+  };
+
+  for (const r of ruleSightings(current)) entryOf(r).scans++;
+  for (const f of current) {
+    // compliance "findings" are frameworks, not rules
+    if (categoryOf(f.tool) === 'compliance') continue;
+    const e = entries.get(ruleKey(f))!;
+    if (richness(f.rule) > richness(e.rule)) e.rule = f.rule;
+    for (const c of cweOf(f)) if (!e.cwe.includes(c)) e.cwe.push(c);
+    for (const o of owaspOf(f)) if (!e.owasp.includes(o)) e.owasp.push(o);
+    if (f.location?.file) files.get(e.key)!.add(f.location.file);
+    e.hits++;
+  }
+  for (const scan of history) for (const r of scan) entryOf(r).scans++;
+
+  for (const e of entries.values()) e.files = [...files.get(e.key)!].sort();
+
+  return [...entries.values()].sort(
+    (a, b) =>
+      SEV_RANK[a.severity] - SEV_RANK[b.severity] ||
+      b.hits - a.hits ||
+      a.ruleId.localeCompare(b.ruleId) ||
+      a.tool.localeCompare(b.tool)
+  );
+}
@@ -0,0 +1,40 @@
+import { finding } from '../../testing/finding.fixture';
+import { applyRulePolicy, ruleKey } from './rule.policy';
+
+describe('applyRulePolicy', () => {
+  const semgrep = finding({ ruleId: 'sql-injection', severity: 'high' });
+  const codeql = finding({
+    tool: 'sarif',
+    ruleId: 'sql-injection',
+    severity: 'high',
+  });
+
+  it('drops disabled rules of that tool only', () => {
+    const policy = { [ruleKey(semgrep)]: { disabled: true } };
+    expect(applyRulePolicy([semgrep, codeql], policy)).toEqual([codeql]);
+  });
+
+  it('re-rates a rule and remembers what the scanner said', () => {
+    const policy = { [ruleKey(codeql)]: { severity: 'low' as const } };
+    const [s, c] = applyRulePolicy([semgrep, codeql], policy);
+    expect(s).toBe(semgrep);
+    expect(c.severity).toBe('low');
+    expect(c.originalSeverity).toBe('high');
+  });
+
+  it('keeps the first reported severity when re-rated twice', () => {
+    const rerated = { ...semgrep, severity: 'medium' as const };
+    const policy = { [ruleKey(semgrep)]: { severity: 'low' as const } };
+    const [f] = applyRulePolicy(
+      [{ ...rerated, originalSeverity: 'high' as const }],
+      policy
+    );
+    expect(f.originalSeverity).toBe('high');
+  });
+
+  it('returns the list untouched without a policy', () => {
+    const list = [semgrep];
+    expect(applyRulePolicy(list, {})).toBe(list);
+    expect(applyRulePolicy(list)).toBe(list);
+  });
+});
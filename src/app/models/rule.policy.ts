@@ -0,0 +1,36 @@
+import type { Finding, Severity, ToolKind } from './finding.model';
+
+// Local per-rule decision, edited on the Rules page
+export interface RuleOverride {
+  disabled?: boolean; // drop the rule's findings at ingestion
+  severity?: Severity; // report the rule at this severity instead
+}
+
+// keyed by ruleKey: Semgrep and CodeQL may both ship a rule called "sql-injection"
+export type RulePolicy = Record<string, RuleOverride>;
+
+export const ruleKey = (r: { tool: ToolKind; ruleId: string }) =>
+  `${r.tool}:${r.ruleId}`;
+
+/** Applied by the mappers, so disabled rules never reach the store */
+export function applyRulePolicy<T extends Finding>(
+  list: T[],
+  policy?: RulePolicy
+): T[] {
+  if (!policy || !Object.keys(policy).length) return list;
+  const out: T[] = [];
+  for (const f of list) {
+    const o = policy[ruleKey(f)];
+    if (o?.disabled) continue;
+    out.push(
+      o?.severity
+        ? {
+            ...f,
+            severity: o.severity,
+            originalSeverity: f.originalSeverity ?? f.severity,
+          }
+        : f
+    );
+  }
+  return out;
+}
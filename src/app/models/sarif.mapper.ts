@@ -0,0 +1,352 @@
+import type {
+  CodeFlow,
+  Finding,
+  FlowStep,
+  Location,
+  RemediationStatus,
+  RuleInfo,
+  SarifFinding,
+  Severity,
+  ToolKind,
+  Triage,
+  TriageState,
+  VantaControl,
+  VantaFinding,
+  HarnessFinding,
+} from './finding.model';
+import type { PipelineRun } from './pipeline-run.model';
+import { realFingerprints, withStableIds } from './finding.identity';
+import { toControlStatus } from './vanta.mapper';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+
+// run property our own SARIF export sets so findings return to their tool
+export const TOOL_PROPERTY = 'aisec/tool';
+
+/** Normalize to your 6-level severity scale */
+export function toSeverity(s?: string): Severity {
+  const v = (s || '').toLowerCase();
+  if (v === 'critical' || v === 'blocker') return 'critical';
+  if (v === 'high' || v === 'error') return 'high';
+  if (v === 'medium' || v === 'warning' || v === 'moderate') return 'medium';
+  if (v === 'low' || v === 'note' || v === 'info' || v === 'recommendation')
+    return 'low';
+  return 'unknown';
+}
+
+/** CVSS-style security-severity (0-10) → severity, same bands GitHub uses */
+export function fromSecuritySeverity(score?: number): Severity | undefined {
+  if (score === undefined || Number.isNaN(score)) return undefined;
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return 'info';
+}
+
+export function msgText(msg: any): string {
+  return (msg?.text || msg?.markdown || msg || '').toString().trim();
+}
+
+/** Index a run's driver rules by id (rules are scoped to their own run) */
+export function rulesById(run: any): Record<string, any> {
+  return (run?.tool?.driver?.rules || []).reduce((m: any, r: any) => {
+    if (r?.id) m[r.id] = r;
+    return m;
+  }, {});
+}
+
+/** Driver rule → the descriptive bits we keep on each finding */
+export function ruleInfoOf(rule: any): RuleInfo | undefined {
+  if (!rule) return undefined;
+  const info: RuleInfo = {
+    name: rule.name || undefined,
+    shortDescription: msgText(rule.shortDescription) || undefined,
+    fullDescription: msgText(rule.fullDescription) || undefined,
+    help: rule.help?.text || undefined,
+    helpMarkdown: rule.help?.markdown || undefined,
+    helpUri: rule.helpUri || undefined,
+  };
+  return Object.values(info).some(Boolean) ? info : undefined;
+}
+
+/** SARIF location (result.locations[] / relatedLocations[]) → Location */
+export function locationOf(loc: any): Location {
+  const phys = loc?.physicalLocation;
+  const region = phys?.region || {};
+  const ctx = phys?.contextRegion;
+  return {
+    file: phys?.artifactLocation?.uri || undefined,
+    line: Number(region?.startLine) || undefined,
+    column: Number(region?.startColumn) || undefined,
+    endLine: Number(region?.endLine) || undefined,
+    endColumn: Number(region?.endColumn) || undefined,
+    snippet: region?.snippet?.text || undefined,
+    message: msgText(loc?.message) || undefined,
+    context: ctx?.snippet?.text
+      ? {
+          line: Number(ctx.startLine) || undefined,
+          snippet: ctx.snippet.text,
+        }
+      : undefined,
+  };
+}
+
+/** All of a result's locations (or relatedLocations), undefined when empty */
+export function locationsOf(
+  r: any,
+  key: 'locations' | 'relatedLocations' = 'locations'
+): Location[] | undefined {
+  const list: any[] = Array.isArray(r?.[key]) ? r[key] : [];
+  return list.length ? list.map(locationOf) : undefined;
+}
+
+/** codeFlows → one ordered step list per threadFlow (source first, sink last) */
+export function codeFlowsOf(r: any): CodeFlow[] | undefined {
+  const flows: CodeFlow[] = [];
+  for (const cf of r?.codeFlows || []) {
+    for (const tf of cf?.threadFlows || []) {
+      const tfls: any[] = [...(tf?.locations || [])];
+      // executionOrder wins over array order when the tool provides it
+      if (tfls.every((s) => typeof s?.executionOrder === 'number'))
+        tfls.sort((a, b) => a.executionOrder - b.executionOrder);
+      const steps = tfls.map(
+        (s: any): FlowStep => ({
+          ...locationOf(s?.location),
+          kinds: Array.isArray(s?.kinds) ? s.kinds : undefined,
+          nestingLevel:
+            typeof s?.nestingLevel === 'number' ? s.nestingLevel : undefined,
+          importance: s?.importance || undefined,
+        })
+      );
+      if (steps.length)
+        flows.push({
+          message: msgText(tf?.message) || msgText(cf?.message) || undefined,
+          steps,
+        });
+    }
+  }
+  return flows.length ? flows : undefined;
+}
+
+/** Detect if payload looks like SARIF (any run carrying results counts) */
+export function isSarif(payload: any): boolean {
+  return (
+    !!payload &&
+    Array.isArray(payload?.runs) &&
+    payload.runs.some((run: any) => Array.isArray(run?.results))
+  );
+}
+
+/**
+ * Tool a run belongs to: the tool property of our own export wins, then a
+ * Semgrep driver name; undefined for any other driver.
+ */
+export function runToolOf(run: any): ToolKind | undefined {
+  const own = run?.properties?.[TOOL_PROPERTY];
+  if (typeof own === 'string' && own) return own;
+  return /semgrep/i.test(run?.tool?.driver?.name || '') ? 'semgrep' : undefined;
+}
+
+export const isSemgrepRun = (run: any) => runToolOf(run) === 'semgrep';
+
+const STATUSES: RemediationStatus[] = [
+  'open',
+  'in_progress',
+  'fixed',
+  'accepted_risk',
+];
+const TRIAGE_STATES: TriageState[] = [
+  'suppressed',
+  'false_positive',
+  'accepted_risk',
+];
+
+const text = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+
+/** Triage object from a result property bag, if it is a complete one */
+function triageOf(t: any): Triage | undefined {
+  if (!TRIAGE_STATES.includes(t?.state) || !text(t.justification))
+    return undefined;
+  return {
+    state: t.state,
+    justification: t.justification,
+    author: text(t.author) ?? 'unknown',
+    createdAt: text(t.createdAt) ?? new Date().toISOString(),
+    expiresAt: text(t.expiresAt),
+  };
+}
+
+const count = (v: unknown) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : undefined;
+
+/** Controls from a result property bag; entries without id and name are dropped */
+function controlsOf(list: unknown): VantaControl[] | undefined {
+  if (!Array.isArray(list)) return undefined;
+  return list
+    .filter((c) => text(c?.id) && text(c?.name))
+    .map((c) => ({ ...c, status: toControlStatus(c.status) }));
+}
+
+/** A pipeline run from a result property bag, if it has an id and stages */
+function runOf(run: any): PipelineRun | undefined {
+  return text(run?.id) && Array.isArray(run.stages) ? run : undefined;
+}
+
+type ExportedState = Pick<
+  Finding,
+  'aiExplanation' | 'aiRemediation' | 'status' | 'triage'
+> &
+  Partial<
+    Pick<
+      VantaFinding,
+      'frameworkId' | 'controlsDone' | 'controlsTotal' | 'controls' | 'owner'
+    >
+  > &
+  Partial<Pick<HarnessFinding, 'run' | 'stage'>>;
+
+/** Work our own SARIF export carries in result properties (see toSarif) */
+export function exportedStateOf(rp: any): ExportedState {
+  const state: ExportedState = {
+    aiExplanation: text(rp?.aiExplanation),
+    aiRemediation: text(rp?.aiRemediation),
+    status: STATUSES.includes(rp?.status) ? rp.status : undefined,
+    triage: triageOf(rp?.triage),
+  };
+  // compliance progress and pipeline runs, only set on findings that had them
+  const extra = {
+    frameworkId: text(rp?.frameworkId),
+    controlsDone: count(rp?.controlsDone),
+    controlsTotal: count(rp?.controlsTotal),
+    controls: controlsOf(rp?.controls),
+    owner: text(rp?.owner),
+    run: runOf(rp?.run),
+    stage: text(rp?.stage),
+  };
+  for (const [key, value] of Object.entries(extra))
+    if (value !== undefined) (state as any)[key] = value;
+  return state;
+}
+
+/**
+ * Pull CWE ids out of the usual places:
+ * - CodeQL / GitHub tags: "external/cwe/cwe-079"
+ * - Semgrep / Bandit properties.cwe: "CWE-89: Improper Neutralization..." or { id: 89 }
+ */
+function extractCwe(...bags: any[]): string[] | undefined {
+  const out = new Set<string>();
+  const add = (v: any) => {
+    const m = String(v?.id ?? v ?? '').match(/cwe[-_/]?0*(\d+)/i);
+    if (m) out.add(`CWE-${m[1]}`);
+    else if (typeof v === 'number' || /^\d+$/.test(String(v ?? '')))
+      out.add(`CWE-${Number(v)}`);
+  };
+  for (const p of bags) {
+    if (!p) continue;
+    const cwe = p.cwe ?? p.CWE;
+    if (Array.isArray(cwe)) cwe.forEach(add);
+    else if (cwe !== undefined) add(cwe);
+    for (const t of p.tags || []) if (/cwe/i.test(String(t))) add(t);
+  }
+  return out.size ? [...out] : undefined;
+}
+
+/** Tags from result + rule property bags, deduped, CWE tags dropped (see cwe) */
+function extractTags(...bags: any[]): string[] | undefined {
+  const out = new Set<string>();
+  for (const p of bags) {
+    for (const t of p?.tags || []) {
+      const tag = String(t);
+      if (!/cwe/i.test(tag)) out.add(tag);
+    }
+  }
+  return out.size ? [...out] : undefined;
+}
+
+/**
+ * Generic: map SARIF 2.1.0 from any driver → Finding[].
+ * Semgrep runs are left to mapSemgrepSarifToFindings, which keeps their extras.
+ */
+export function mapSarifToFindings(
+  sarif: any,
+  ctx?: { repo?: string; createdAt?: string; tool?: ToolKind; rules?: RulePolicy }
+): Finding[] {
+  const runs: any[] = Array.isArray(sarif?.runs)
+    ? sarif.runs.filter((run: any) => !isSemgrepRun(run))
+    : [];
+  return withStableIds(
+    applyRulePolicy(runs.flatMap((run) => mapRun(run, ctx)), ctx?.rules)
+  );
+}
+
+function mapRun(
+  run: any,
+  ctx?: { repo?: string; createdAt?: string; tool?: ToolKind; rules?: RulePolicy }
+): SarifFinding[] {
+  const results: any[] = run?.results || [];
+  const driverName: string | undefined = run?.tool?.driver?.name || undefined;
+  const driverRules = rulesById(run);
+
+  return results.map((r: any): SarifFinding => {
+    const locations = locationsOf(r);
+
+    // ruleId may be missing when only ruleIndex is given
+    const ruleIndexed =
+      typeof r?.ruleIndex === 'number'
+        ? run?.tool?.driver?.rules?.[r.ruleIndex]
+        : undefined;
+    const ruleId: string = r?.ruleId || r?.rule?.id || ruleIndexed?.id || 'rule';
+    const driverRule = driverRules[ruleId] || ruleIndexed;
+    const title =
+      driverRule?.shortDescription?.text || driverRule?.name || ruleId;
+
+    const rp = r?.properties || {};
+    const dp = driverRule?.properties || {};
+
+    // Severity precedence: security-severity score → explicit severities → SARIF level
+    const secRaw = rp['security-severity'] ?? dp['security-severity'];
+    const securitySeverity =
+      secRaw !== undefined && secRaw !== '' ? Number(secRaw) : undefined;
+    const sevRaw: string | undefined =
+      rp.severity ||
+      rp.issue_severity ||
+      dp.severity ||
+      rp['problem.severity'] ||
+      dp['problem.severity'] ||
+      r?.level ||
+      driverRule?.defaultConfiguration?.level ||
+      undefined;
+    const severity =
+      fromSecuritySeverity(securitySeverity) ?? toSeverity(sevRaw);
+
+    const message = msgText(r?.message);
+
+    return {
+      id: '', // assigned by withStableIds
+      tool: ctx?.tool ?? runToolOf(run) ?? 'sarif',
+      driver: driverName,
+      ruleId,
+      title,
+      message,
+      severity,
+      location: locations?.[0] ?? {},
+      locations,
+      relatedLocations: locationsOf(r, 'relatedLocations'),
+      codeFlows: codeFlowsOf(r),
+      rule: ruleInfoOf(driverRule),
+      fingerprints:
+        realFingerprints(r?.fingerprints) ??
+        realFingerprints(r?.partialFingerprints),
+      tags: extractTags(rp, dp),
+      createdAt: ctx?.createdAt,
+      raw: r,
+
+      cwe: extractCwe(rp, dp),
+      precision: dp.precision || rp.precision || undefined,
+      securitySeverity:
+        securitySeverity !== undefined && !Number.isNaN(securitySeverity)
+          ? securitySeverity
+          : undefined,
+      ...exportedStateOf(rp),
+    };
+  });
+}
@@ -12,14 +12,47 @@ export interface SarifRule {
   fullDescription?: { text: string };
   help?: { text?: string; markdown?: string };
 }
+export interface SarifMessage {
+  text?: string;
+  markdown?: string;
+}
+export interface SarifRegion {
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: { text?: string };
+}
+export interface SarifPhysicalLocation {
+  artifactLocation?: { uri?: string; uriBaseId?: string };
+  region?: SarifRegion;
+  contextRegion?: SarifRegion; // surrounding lines, wider than region
+}
+export interface SarifLocation {
+  id?: number;
+  physicalLocation?: SarifPhysicalLocation;
+  message?: SarifMessage;
+}
+export interface SarifThreadFlowLocation {
+  location?: SarifLocation;
+  kinds?: string[]; // e.g. "source", "sink", "taint"
+  nestingLevel?: number;
+  executionOrder?: number;
+  importance?: 'important' | 'essential' | 'unimportant';
+}
+export interface SarifThreadFlow {
+  message?: SarifMessage;
+  locations: SarifThreadFlowLocation[];
+}
+export interface SarifCodeFlow {
+  message?: SarifMessage;
+  threadFlows: SarifThreadFlow[];
+}
 export interface SarifResult {
   ruleId?: string;
   level?: 'none' | 'note' | 'warning' | 'error';
-  message: { text?: string; markdown?: string };
-  locations?: Array<{
-    physicalLocation?: {
-      artifactLocation?: { uri?: string };
-      region?: { startLine?: number; startColumn?: number };
-    };
-  }>;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  codeFlows?: SarifCodeFlow[];
 }
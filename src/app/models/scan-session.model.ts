@@ -0,0 +1,26 @@
+import type { Finding, ToolKind } from './finding.model';
+import type { FilterStats } from './finding.ignore';
+import type { RuleSighting } from './rule.catalog';
+import type { PipelineRun } from './pipeline-run.model';
+
+/** One stored scan: who/what was scanned plus the (possibly AI-enriched) findings */
+export interface ScanSessionMeta {
+  id: string;
+  repo: string;
+  tool: ToolKind;
+  taskId: string;
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp of the last write (unset before it)
+  filtered?: FilterStats; // dropped at ingestion by ignore globs / baseline
+}
+
+export interface ScanSessionRecord extends ScanSessionMeta {
+  findings: Finding[];
+}
+
+/** What the history lists: the session without its findings */
+export interface ScanSessionSummary extends ScanSessionMeta {
+  count: number;
+  rules?: RuleSighting[]; // feeds the rule catalog without reading findings
+  runs?: PipelineRun[]; // pipeline executions, for the same reason
+}
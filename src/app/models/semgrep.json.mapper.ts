@@ -0,0 +1,75 @@
+import type { Finding, SemgrepFinding } from './finding.model';
+import { realFingerprints, withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import { toSeverity } from './sarif.mapper';
+
+const asList = (v: any): string[] =>
+  Array.isArray(v) ? v.map(String) : v ? [String(v)] : [];
+
+/** Category + OWASP mappings from rule metadata, as tags */
+function tagsOf(meta: any): string[] | undefined {
+  const tags = [...asList(meta?.category), ...asList(meta?.owasp)];
+  return tags.length ? tags : undefined;
+}
+
+/** Detect `semgrep --json` output: { results: [{ check_id, path, ... }], errors } */
+export function isSemgrepJson(payload: any): boolean {
+  return (
+    !!payload &&
+    Array.isArray(payload?.results) &&
+    (payload.results.length === 0 || !!payload.results[0]?.check_id)
+  );
+}
+
+/** Map native Semgrep JSON → Finding[] */
+export function mapSemgrepJsonToFindings(
+  payload: any,
+  ctx?: { repo?: string; createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  const results: any[] = payload?.results || [];
+
+  const findings = results.map((r: any): SemgrepFinding => {
+    const ruleId: string = r?.check_id || 'rule';
+    const file: string = r?.path || '';
+    const line = Number(r?.start?.line) || undefined;
+    const col = Number(r?.start?.col) || undefined;
+    const extra = r?.extra || {};
+    const meta = extra?.metadata || {};
+    const message = (extra?.message || '').toString().trim();
+    const cwe = meta?.cwe;
+    // OSS semgrep prints a placeholder instead of a real fingerprint
+    const fingerprints = realFingerprints({
+      matchBasedId: String(extra?.fingerprint ?? ''),
+    });
+
+    return {
+      id: '', // assigned by withStableIds
+      tool: 'semgrep',
+      driver: 'Semgrep',
+      ruleId,
+      title: ruleId.split('.').pop(),
+      message,
+      severity: toSeverity(meta?.impact || extra?.severity),
+      location: {
+        file: file || undefined,
+        line,
+        column: col,
+        snippet: extra?.lines || undefined,
+      },
+      // native output carries no rule descriptions, only a link to the registry
+      rule:
+        meta?.source || meta?.shortlink
+          ? { helpUri: meta.source || meta.shortlink }
+          : undefined,
+      fingerprints,
+      tags: tagsOf(meta),
+      createdAt: ctx?.createdAt,
+      raw: r,
+
+      ruleSeverity: extra?.severity,
+      ruleShortId: ruleId.split('.').pop(),
+      cwe: Array.isArray(cwe) ? cwe : cwe ? [cwe] : undefined,
+    };
+  });
+  return withStableIds(applyRulePolicy(findings, ctx?.rules));
+}
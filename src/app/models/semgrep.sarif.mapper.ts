@@ -1,64 +1,59 @@
-import type { Finding, SemgrepFinding, Severity } from './finding.model';
+import type { Finding, SemgrepFinding } from './finding.model';
+import { realFingerprints, withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+import {
+  codeFlowsOf,
+  exportedStateOf,
+  fromSecuritySeverity,
+  isSarif,
+  isSemgrepRun,
+  locationsOf,
+  msgText,
+  ruleInfoOf,
+  rulesById,
+  toSeverity,
+} from './sarif.mapper';
 
-/** Normalize to your 6-level severity scale */
-function toSeverity(s?: string): Severity {
-  const v = (s || '').toLowerCase();
-  if (v === 'critical' || v === 'blocker') return 'critical';
-  if (v === 'high' || v === 'error') return 'high';
-  if (v === 'medium' || v === 'warning') return 'medium';
-  if (v === 'low' || v === 'note' || v === 'info') return 'low';
-  return 'unknown';
-}
-
-/** Simple stable hash for UI keys */
-function hashId(input: string): string {
-  let h = 0;
-  for (let i = 0; i < input.length; i++) h = (h * 31 + input.charCodeAt(i)) | 0;
-  return Math.abs(h).toString(36);
-}
+export { isSarif };
 
-function msgText(msg: any): string {
-  return (msg?.text || msg?.markdown || msg || '').toString().trim();
-}
-
-/** Detect if payload looks like SARIF */
-export function isSarif(payload: any): boolean {
-  return (
-    !!payload &&
-    Array.isArray(payload?.runs) &&
-    Array.isArray(payload?.runs[0]?.results)
-  );
-}
-
-/** Main: map Semgrep SARIF → Finding[] */
+/** Main: map Semgrep SARIF → Finding[] (each Semgrep run, not just the first) */
 export function mapSemgrepSarifToFindings(
   sarif: any,
-  ctx?: { repo?: string; createdAt?: string }
+  ctx?: { repo?: string; createdAt?: string; rules?: RulePolicy }
 ): Finding[] {
-  const run = sarif?.runs?.[0] || {};
+  const runs: any[] = Array.isArray(sarif?.runs)
+    ? sarif.runs.filter(isSemgrepRun)
+    : [];
+  return withStableIds(
+    applyRulePolicy(runs.flatMap((run) => mapRun(run, ctx)), ctx?.rules)
+  );
+}
+
+/** Map a single SARIF run, resolving rule metadata against that run's driver */
+function mapRun(
+  run: any,
+  ctx?: { repo?: string; createdAt?: string; rules?: RulePolicy }
+): SemgrepFinding[] {
   const results: any[] = run?.results || [];
   const driver = run?.tool?.driver;
-  const driverRules: Record<string, any> = (driver?.rules || []).reduce(
-    (m: any, r: any) => {
-      if (r?.id) m[r.id] = r;
-      return m;
-    },
-    {}
-  );
+  const driverName: string | undefined = driver?.name || undefined;
+  const driverRules = rulesById(run);
 
-  return results.map((r: any, idx: number): SemgrepFinding => {
-    const firstLoc = r?.locations?.[0]?.physicalLocation;
-    const file = firstLoc?.artifactLocation?.uri || '';
-    const region = firstLoc?.region || {};
-    const line = Number(region?.startLine) || undefined;
-    const col = Number(region?.startColumn) || undefined;
-    const snippet = region?.snippet?.text || undefined;
+  return results.map((r: any): SemgrepFinding => {
+    const locations = locationsOf(r);
 
     const ruleId: string = r?.ruleId || 'rule';
     const driverRule = driverRules[ruleId];
     const title =
       driverRule?.shortDescription?.text || driverRule?.name || ruleId;
 
+    // a security-severity score (GitHub convention, also in our own export) wins
+    const secRaw =
+      r?.properties?.['security-severity'] ??
+      driverRule?.properties?.['security-severity'];
+    const securitySeverity =
+      secRaw !== undefined && secRaw !== '' ? Number(secRaw) : undefined;
+
     // severity could be on result.level, or in properties, or in rule
     const sevRaw =
       (r?.level as string) ||
@@ -68,23 +63,22 @@ export function mapSemgrepSarifToFindings(
       undefined;
 
     const message = msgText(r?.message);
-    const idBase = `${ruleId}|${file}|${line || ''}|${message.slice(0, 140)}`;
-    const id = hashId(idBase) + '-' + idx.toString(36);
 
     return {
-      id,
+      id: '', // assigned by withStableIds
       tool: 'semgrep',
+      driver: driverName,
       ruleId,
       title,
       message,
-      severity: toSeverity(sevRaw),
-      location: {
-        file: file || undefined,
-        line,
-        column: col,
-        snippet,
-      },
-      fingerprints: r?.fingerprints || undefined,
+      severity: fromSecuritySeverity(securitySeverity) ?? toSeverity(sevRaw),
+      location: locations?.[0] ?? {},
+      locations,
+      // Semgrep Pro taint rules: source → sink paths and the sanitizer/propagator spots
+      relatedLocations: locationsOf(r, 'relatedLocations'),
+      codeFlows: codeFlowsOf(r),
+      rule: ruleInfoOf(driverRule),
+      fingerprints: realFingerprints(r?.fingerprints),
       tags: r?.properties?.tags || driverRule?.properties?.tags || undefined,
       createdAt: ctx?.createdAt,
       raw: r,
@@ -93,6 +87,7 @@ export function mapSemgrepSarifToFindings(
       ruleSeverity: typeof sevRaw === 'string' ? sevRaw : undefined,
       ruleShortId: ruleId.split('.').pop(),
       cwe: (r?.properties?.cwe || driverRule?.properties?.cwe) ?? undefined,
+      ...exportedStateOf(r?.properties),
     };
   });
 }
@@ -0,0 +1,86 @@
+import type { Finding } from './finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { normalizeFindings } from './finding.normalize';
+import {
+  describeSeverityRule,
+  effectiveSeverity,
+  severityRuleMatches,
+  type SeverityPolicy,
+} from './severity.policy';
+
+const sqli = finding({
+  ruleId: 'python.django.sqli',
+  severity: 'high',
+  cwe: ['CWE-089'],
+  tags: ['Injection'],
+  location: { file: 'app/tests/test_db.py' },
+} as Partial<Finding>);
+
+describe('severityRuleMatches', () => {
+  it('needs every matcher that is set', () => {
+    expect(
+      severityRuleMatches({ id: '1', rule: 'python.django.*' }, sqli)
+    ).toBeTrue();
+    expect(
+      severityRuleMatches({ id: '1', rule: 'python.*', path: 'src/**' }, sqli)
+    ).toBeFalse();
+    expect(severityRuleMatches({ id: '1', cwe: '89' }, sqli)).toBeTrue();
+    expect(severityRuleMatches({ id: '1', tag: 'injection' }, sqli)).toBeTrue();
+  });
+
+  it('never matches a rule without matchers', () => {
+    expect(severityRuleMatches({ id: '1', set: 'info' }, sqli)).toBeFalse();
+  });
+});
+
+describe('effectiveSeverity', () => {
+  it('runs rules top to bottom, each on the previous result', () => {
+    const policy: SeverityPolicy = [
+      { id: '1', path: '**/tests/**', set: 'low' },
+      { id: '2', cwe: 'CWE-89', shift: 1 },
+    ];
+    expect(effectiveSeverity(sqli, policy)).toBe('medium');
+    expect(effectiveSeverity(sqli, [...policy].reverse())).toBe('low');
+  });
+
+  it('clamps shifts to the scale and leaves unknown alone', () => {
+    const up: SeverityPolicy = [{ id: '1', tag: 'injection', shift: 3 }];
+    expect(effectiveSeverity(sqli, up)).toBe('critical');
+    expect(effectiveSeverity({ ...sqli, severity: 'unknown' }, up)).toBe(
+      'unknown'
+    );
+    expect(
+      effectiveSeverity(sqli, [{ id: '1', tag: 'injection', set: 'info' }])
+    ).toBe('info');
+  });
+});
+
+describe('normalizeFindings', () => {
+  it('keeps the scanner severity when the policy changes it', () => {
+    const [f] = normalizeFindings([sqli], {
+      severity: [{ id: '1', path: '**/tests/**', set: 'low' }],
+    });
+    expect(f.severity).toBe('low');
+    expect(f.originalSeverity).toBe('high');
+    expect(f.fingerprint).toBeTruthy();
+  });
+
+  it('coerces scanner wording and drops an unchanged original', () => {
+    const [f] = normalizeFindings([
+      { ...sqli, severity: 'ERROR' as any, originalSeverity: undefined },
+    ]);
+    expect(f.severity).toBe('high');
+    expect(f.originalSeverity).toBeUndefined();
+  });
+});
+
+describe('describeSeverityRule', () => {
+  it('summarizes matchers and effect', () => {
+    expect(
+      describeSeverityRule({ id: '1', path: '**/test/**', shift: -2 })
+    ).toBe('path **/test/** → 2 levels down');
+    expect(describeSeverityRule({ id: '1', cwe: 'cwe-89', set: 'high' })).toBe(
+      'CWE-89 → always high'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import type { Finding, Severity } from './finding.model';
+import { cweNumber, cweOf } from './finding.filter';
+import { globMatch } from './glob';
+
+// least → most severe; shifting moves along this scale
+const SCALE: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * One remapping rule. Every matcher that is set must match;
+ * then the severity is either replaced (set) or moved up/down (shift).
+ */
+export interface SeverityRule {
+  id: string;
+  rule?: string; // rule id glob, e.g. "python.django.*"
+  path?: string; // file glob, e.g. "**/test/**"
+  cwe?: string; // e.g. "CWE-89"
+  tag?: string; // exact tag, case-insensitive
+  set?: Severity;
+  shift?: number; // -1 = one level down, +1 = one level up
+}
+
+// rules run top to bottom; each one sees the result of the previous ones
+export type SeverityPolicy = SeverityRule[];
+
+export function severityRuleMatches(r: SeverityRule, f: Finding): boolean {
+  if (!r.rule && !r.path && !r.cwe && !r.tag) return false;
+  if (r.rule && !globMatch(r.rule, f.ruleId)) return false;
+  if (r.path && !globMatch(r.path, f.location?.file)) return false;
+  if (r.cwe) {
+    const want = cweNumber(r.cwe);
+    if (!want || !cweOf(f).some((c) => cweNumber(c) === want)) return false;
+  }
+  if (r.tag) {
+    const want = r.tag.toLowerCase();
+    if (!(f.tags || []).some((t) => t.toLowerCase() === want)) return false;
+  }
+  return true;
+}
+
+function shifted(sev: Severity, by: number): Severity {
+  const i = SCALE.indexOf(sev);
+  if (i < 0) return sev; // unknown stays unknown
+  return SCALE[Math.max(0, Math.min(SCALE.length - 1, i + by))];
+}
+
+/** Effective severity of a finding under the policy */
+export function effectiveSeverity(
+  f: Finding,
+  policy: SeverityPolicy,
+  from: Severity = f.severity
+): Severity {
+  let sev = from;
+  for (const r of policy) {
+    if (!severityRuleMatches(r, f)) continue;
+    if (r.set) sev = r.set;
+    else if (r.shift) sev = shifted(sev, r.shift);
+  }
+  return sev;
+}
+
+/** Human readable summary, e.g. "path **\/test/** → one level down" */
+export function describeSeverityRule(r: SeverityRule): string {
+  const when = [
+    r.rule && `rule ${r.rule}`,
+    r.path && `path ${r.path}`,
+    r.cwe && r.cwe.toUpperCase(),
+    r.tag && `tag ${r.tag}`,
+  ]
+    .filter(Boolean)
+    .join(' + ');
+  const then = r.set
+    ? `always ${r.set}`
+    : r.shift
+    ? `${Math.abs(r.shift)} level${Math.abs(r.shift) > 1 ? 's' : ''} ${
+        r.shift > 0 ? 'up' : 'down'
+      }`
+    : 'no change';
+  return `${when || 'nothing'} → ${then}`;
+}
@@ -0,0 +1,89 @@
+import type { VantaFinding } from './finding.model';
+import {
+  complianceProgress,
+  isVantaExport,
+  mapVantaToFindings,
+  toControlStatus,
+} from './vanta.mapper';
+import { finding } from '../../testing/finding.fixture';
+
+const SOC2 = {
+  id: 'soc2',
+  shorthandName: 'SOC2',
+  displayName: 'SOC 2',
+  owner: { displayName: 'Alice' },
+  controls: [
+    { externalId: 'CC6.1', name: 'Access', status: 'PASSING' },
+    { externalId: 'CC7.1', name: 'Monitoring', status: 'needs attention' },
+    { externalId: 'CC8.1', name: 'Change', status: 'in-progress' },
+    { externalId: 'A1.1', name: 'Capacity', status: 'Not applicable' },
+  ],
+};
+
+describe('isVantaExport', () => {
+  it('accepts the export shapes we understand', () => {
+    expect(isVantaExport(SOC2)).toBeTrue();
+    expect(isVantaExport([SOC2])).toBeTrue();
+    expect(isVantaExport({ frameworks: [SOC2] })).toBeTrue();
+    expect(isVantaExport({ results: { data: [SOC2] } })).toBeTrue();
+  });
+
+  it('rejects other payloads', () => {
+    expect(isVantaExport({ runs: [] })).toBeFalse();
+    expect(isVantaExport([])).toBeFalse();
+    expect(isVantaExport([SOC2, { name: 'x' }])).toBeFalse();
+  });
+});
+
+describe('toControlStatus', () => {
+  it('normalizes status spellings', () => {
+    expect(toControlStatus('Passed')).toBe('passing');
+    expect(toControlStatus('NOT_MET')).toBe('failing');
+    expect(toControlStatus('partially met')).toBe('in_progress');
+    expect(toControlStatus('N/A')).toBe('not_applicable');
+    expect(toControlStatus(undefined)).toBe('not_started');
+  });
+});
+
+describe('mapVantaToFindings', () => {
+  const [soc2] = mapVantaToFindings(SOC2) as VantaFinding[];
+
+  it('counts applicable controls when no summary counts are given', () => {
+    expect(soc2.controlsDone).toBe(1);
+    expect(soc2.controlsTotal).toBe(3);
+    expect(soc2.message).toBe('33.3% complete (1/3 controls) · 1 failing');
+    expect(soc2.controls?.map((c) => c.status)).toEqual([
+      'passing',
+      'failing',
+      'in_progress',
+      'not_applicable',
+    ]);
+  });
+
+  it('prefers the summary counts', () => {
+    const [f] = mapVantaToFindings({
+      ...SOC2,
+      numControlsTotal: 10,
+      numControlsCompleted: 9,
+    }) as VantaFinding[];
+    expect(complianceProgress(f)).toEqual({ percent: 90, done: 9, total: 10 });
+  });
+
+  it('keeps the same id across exports with different progress', () => {
+    const [later] = mapVantaToFindings({
+      ...SOC2,
+      numControlsTotal: 3,
+      numControlsCompleted: 3,
+    });
+    expect(later.id).toBe(soc2.id);
+    expect(soc2.tool).toBe('vanta');
+    expect(soc2.owner).toBe('Alice');
+  });
+});
+
+describe('complianceProgress', () => {
+  it('is null for non-framework findings', () => {
+    expect(complianceProgress(finding())).toBeNull();
+    expect(complianceProgress(finding({ tool: 'vanta' }))).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import type {
+  ControlEvidence,
+  ControlStatus,
+  Finding,
+  VantaControl,
+  VantaFinding,
+} from './finding.model';
+import { withStableIds } from './finding.identity';
+import { applyRulePolicy, type RulePolicy } from './rule.policy';
+
+// fingerprint key for a framework; progress changes between exports, the id doesn't
+export const FRAMEWORK_KEY = 'vanta/framework';
+
+export interface ComplianceProgress {
+  percent: number; // 0-100
+  done: number;
+  total: number;
+}
+
+/** Completion of a compliance finding from its structured fields (null = not a framework) */
+export function complianceProgress(f: Finding): ComplianceProgress | null {
+  if (f.tool !== 'vanta') return null;
+  const { controlsDone: done, controlsTotal: total } = f as VantaFinding;
+  if (total === undefined || done === undefined) return null;
+  return { percent: total > 0 ? (100 * done) / total : 0, done, total };
+}
+
+/* -----------------------------
+   Detection
+--------------------------------*/
+const isFramework = (v: any): boolean =>
+  !!v &&
+  typeof v === 'object' &&
+  (typeof v.numControlsTotal === 'number' ||
+    (Array.isArray(v.controls) && !!(v.displayName || v.name || v.id)));
+
+/** Frameworks in any of the export shapes we understand, else null */
+function frameworksOf(payload: any): any[] | null {
+  const list = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.results?.data) // API page: { results: { data } }
+    ? payload.results.data
+    : Array.isArray(payload?.frameworks)
+    ? payload.frameworks
+    : isFramework(payload)
+    ? [payload]
+    : null;
+  return list && list.length && list.every(isFramework) ? list : null;
+}
+
+/**
+ * Detect a Vanta framework export: a single framework, an array of them,
+ * `{ frameworks: [...] }` or an API page `{ results: { data: [...] } }`.
+ * A framework carries `numControlsTotal` or a `controls` array.
+ */
+export function isVantaExport(payload: unknown): boolean {
+  return frameworksOf(payload) !== null;
+}
+
+/* -----------------------------
+   Mapping
+--------------------------------*/
+export function toControlStatus(raw: unknown): ControlStatus {
+  const s = String(raw ?? '')
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  if (['passing', 'passed', 'pass', 'ok', 'complete', 'completed', 'done', 'met'].includes(s))
+    return 'passing';
+  if (['failing', 'failed', 'fail', 'needs_attention', 'not_met', 'overdue'].includes(s))
+    return 'failing';
+  if (['in_progress', 'partial', 'partially_met', 'needs_review'].includes(s))
+    return 'in_progress';
+  if (['not_applicable', 'n/a', 'na', 'out_of_scope', 'excluded'].includes(s))
+    return 'not_applicable';
+  return 'not_started';
+}
+
+// owner may be a plain string or a Vanta user object
+const personOf = (v: any): string | undefined =>
+  typeof v === 'string'
+    ? v || undefined
+    : v?.displayName || v?.emailAddress || v?.email || v?.name || undefined;
+
+const dayOf = (v: any): string | undefined =>
+  v ? String(v).slice(0, 10) : undefined;
+
+function evidenceOf(c: any): ControlEvidence[] | undefined {
+  const items: any[] = [
+    ...(c?.evidence || []),
+    ...(c?.documents || []),
+    ...(c?.tests || []),
+  ];
+  const out = items
+    .map(
+      (e: any): ControlEvidence => ({
+        name: String(e?.name || e?.displayName || e?.title || e?.id || 'evidence'),
+        status:
+          e?.status !== undefined || e?.outcome !== undefined
+            ? toControlStatus(e?.status ?? e?.outcome)
+            : undefined,
+        url: e?.url || e?.link || undefined,
+        updatedAt: e?.updatedAt || e?.lastUpdated || undefined,
+      })
+    )
+    .filter((e) => !!e.name);
+  return out.length ? out : undefined;
+}
+
+function controlOf(c: any, i: number): VantaControl {
+  return {
+    id: String(c?.externalId || c?.id || `control-${i + 1}`),
+    name: String(c?.name || c?.title || c?.externalId || c?.id || 'Control'),
+    description: c?.description || undefined,
+    domain: (Array.isArray(c?.domains) ? c.domains[0] : c?.domain) || undefined,
+    status: toControlStatus(c?.status),
+    owner: personOf(c?.owner),
+    dueDate: dayOf(c?.dueDate ?? c?.dueAt),
+    evidence: evidenceOf(c),
+  };
+}
+
+/** Map a Vanta framework/control export → one VantaFinding per framework */
+export function mapVantaToFindings(
+  payload: unknown,
+  ctx?: { repo?: string; createdAt?: string; rules?: RulePolicy }
+): Finding[] {
+  const frameworks = frameworksOf(payload) ?? [];
+
+  const findings = frameworks.map((fw: any): VantaFinding => {
+    const controls: VantaControl[] | undefined = Array.isArray(fw.controls)
+      ? fw.controls.map(controlOf)
+      : undefined;
+    const applicable = (controls ?? []).filter(
+      (c) => c.status !== 'not_applicable'
+    );
+
+    // summary counts win; otherwise count the controls we were given
+    const total: number =
+      typeof fw.numControlsTotal === 'number'
+        ? fw.numControlsTotal
+        : applicable.length;
+    const done: number =
+      typeof fw.numControlsCompleted === 'number'
+        ? fw.numControlsCompleted
+        : applicable.filter((c) => c.status === 'passing').length;
+    const percent = total > 0 ? (100 * done) / total : 0;
+
+    const frameworkId = String(fw.id || fw.shorthandName || fw.displayName);
+    const failing = applicable.filter((c) => c.status === 'failing').length;
+
+    return {
+      id: '', // assigned by withStableIds
+      tool: 'vanta',
+      driver: 'Vanta',
+      ruleId: String(fw.shorthandName || fw.id || fw.displayName),
+      title: fw.displayName || fw.name || fw.shorthandName,
+      message:
+        `${Number(percent.toFixed(1))}% complete (${done}/${total} controls)` +
+        (failing ? ` · ${failing} failing` : ''),
+      severity: 'info',
+      frameworkId,
+      controlsDone: done,
+      controlsTotal: total,
+      controls,
+      owner: personOf(fw.owner),
+      fingerprints: { [FRAMEWORK_KEY]: frameworkId },
+      createdAt: ctx?.createdAt,
+      raw: fw,
+    };
+  });
+
+  return withStableIds(applyRulePolicy(findings, ctx?.rules));
+}
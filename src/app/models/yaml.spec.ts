@@ -0,0 +1,153 @@
+import { asList, isMap, parseYaml, tryParseYaml, type YamlMap } from './yaml';
+
+const TEXT = `# pipeline
+name: build
+on: [push, "pull_request"]
+env:
+  NODE: 20 # inline comment
+  DEBUG: true
+  URL: "http://x#y"
+jobs:
+  test:
+    image: node:20
+    script:
+      - npm ci
+      - |
+        echo one
+        echo two
+    note: >
+      folded
+      text
+steps:
+- checkout
+- name: run
+  with:
+    ref: main
+`;
+
+describe('parseYaml', () => {
+  const doc = parseYaml(TEXT);
+  // plain records: jasmine's matcher types recurse forever on YamlValue
+  const root = doc.value as Record<string, unknown>;
+  const job = (root['jobs'] as YamlMap)['test'] as Record<string, unknown>;
+
+  it('reads mappings, scalars and flow sequences', () => {
+    expect(root['name']).toBe('build');
+    expect(root['on']).toEqual(['push', 'pull_request']);
+    expect(root['env']).toEqual({ NODE: 20, DEBUG: true, URL: 'http://x#y' });
+  });
+
+  it('splits plain keys on the first colon only', () => {
+    expect(job['image']).toBe('node:20');
+  });
+
+  it('keeps literal block scalars and folds folded ones', () => {
+    expect(job['script']).toEqual(['npm ci', 'echo one\necho two']);
+    expect(job['note']).toBe('folded text');
+  });
+
+  it('reads sequences at the parent key indent and nested item maps', () => {
+    const steps: unknown[] = asList(root['steps']);
+    expect(steps[0]).toBe('checkout');
+    expect(steps[1]).toEqual({ name: 'run', with: { ref: 'main' } });
+  });
+
+  it('knows the line of every key and item', () => {
+    expect(doc.lineOf(root, 'name')).toBe(2);
+    expect(doc.lineOf(job, 'image')).toBe(10);
+    expect(doc.lineOf(job['script'], 1)).toBe(13);
+    const step = asList(root['steps'])[1] as YamlMap;
+    expect(doc.lineOf(step['with'], 'ref')).toBe(23);
+    expect(doc.lineOf('not a container', 'x')).toBeUndefined();
+  });
+
+  it('keeps the raw lines for snippets', () => {
+    expect(doc.source[9].trim()).toBe('image: node:20');
+  });
+});
+
+describe('parseYaml wrapped values', () => {
+  const doc = parseYaml(`jobs:
+  deploy:
+    if: github.event_name == 'push' &&
+      github.ref == 'refs/heads/main'
+    needs: [build,
+      test]
+    env:
+      MSG: "one
+        two"
+  release:
+    runs-on: ubuntu-latest
+`);
+  const jobs = (doc.value as YamlMap)['jobs'] as Record<string, unknown>;
+  const deploy = jobs['deploy'] as Record<string, unknown>;
+
+  it('folds a plain scalar that wraps onto the next line', () => {
+    expect(deploy['if']).toBe(
+      "github.event_name == 'push' && github.ref == 'refs/heads/main'"
+    );
+  });
+
+  it('reads flow collections and quoted scalars across lines', () => {
+    expect(deploy['needs']).toEqual(['build', 'test']);
+    expect(deploy['env']).toEqual({ MSG: 'one two' });
+  });
+
+  it('keeps reading the mapping after a wrapped value', () => {
+    expect(Object.keys(jobs)).toEqual(['deploy', 'release']);
+    expect(doc.lineOf(jobs, 'release')).toBe(10);
+  });
+});
+
+describe('parseYaml on YAML it cannot follow', () => {
+  it('rejects anchors, aliases and merge keys', () => {
+    const anchored = `defaults: &defaults
+  image: node:20
+test:
+  <<: *defaults
+`;
+    expect(() => parseYaml(anchored)).toThrowError(/line 1: anchors/);
+    expect(() => parseYaml('test:\n  <<: x\n')).toThrowError(
+      /line 2: merge keys/
+    );
+    expect(() => parseYaml('a: *ref\n')).toThrowError(/line 1/);
+  });
+
+  it('rejects lines it cannot place instead of dropping them', () => {
+    expect(() => parseYaml('a:\n  b: 1\n c: 2\n')).toThrowError(
+      /line 3: unexpected indentation/
+    );
+    expect(() => parseYaml('a: 1\njust text\n')).toThrowError(
+      /line 2: expected "key: value"/
+    );
+    expect(() => parseYaml('a: 1\n  b: 2\n')).toThrowError(
+      /line 2: a mapping cannot follow/
+    );
+    expect(() => parseYaml('a: [1, 2\nb: 3\n')).toThrowError(
+      /line 1: unterminated \[/
+    );
+    expect(() => parseYaml('a: 1\n---\nb: 2\n')).toThrowError(
+      /line 2: only one document/
+    );
+  });
+});
+
+describe('tryParseYaml', () => {
+  it('parses an empty document to null', () => {
+    expect(tryParseYaml('')?.value).toBeNull();
+  });
+
+  it('returns null instead of throwing', () => {
+    expect(tryParseYaml('a: &x 1\n')).toBeNull();
+  });
+});
+
+describe('isMap / asList', () => {
+  it('tells mappings from lists and scalars', () => {
+    expect(isMap({ a: 1 })).toBeTrue();
+    expect(isMap([1])).toBeFalse();
+    expect(isMap(null)).toBeFalse();
+    expect(asList('x') as unknown[]).toEqual([]);
+    expect(asList([1, 2]) as unknown[]).toEqual([1, 2]);
+  });
+});
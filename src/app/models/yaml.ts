@@ -0,0 +1,274 @@
+export type YamlValue =
+  null | boolean | number | string | YamlValue[] | YamlMap;
+
+export interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+// A YAML file handed to adapters (uploads are JSON everywhere else)
+export interface YamlSource {
+  file: string;
+  text: string;
+}
+
+export function isYamlSource(payload: any): payload is YamlSource {
+  return typeof payload?.file === 'string' && typeof payload?.text === 'string';
+}
+
+export interface YamlDoc {
+  value: YamlValue;
+  source: string[]; // raw lines, for snippets
+  /** 1-based line of a mapping key or sequence item */
+  lineOf(container: unknown, key: string | number): number | undefined;
+}
+
+interface Line {
+  no: number; // 1-based
+  indent: number;
+  text: string; // trimmed, comments kept
+}
+
+const isItem = (t: string) => t === '-' || t.startsWith('- ');
+
+// key: rest — plain keys stop at the first ": " so "image: node:20" splits once
+const KEY =
+  /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"{[#][^#]*?)\s*:(?:\s+(.*))?$/;
+
+function keyOf(text: string): { key: string; rest: string } | null {
+  const m = text.match(KEY);
+  if (!m) return null;
+  return { key: String(scalar(m[1])), rest: stripComment(m[2] ?? '') };
+}
+
+function stripComment(v: string): string {
+  let quote = '';
+  for (let i = 0; i < v.length; i++) {
+    const c = v[i];
+    if (quote) {
+      if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '#' && (i === 0 || /\s/.test(v[i - 1])))
+      return v.slice(0, i).trim();
+  }
+  return v.trim();
+}
+
+/** Split a one-line flow collection body on top-level commas */
+function splitFlow(body: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let cur = '';
+  for (const c of body) {
+    if (quote) {
+      if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '[' || c === '{') depth++;
+    else if (c === ']' || c === '}') depth--;
+    else if (c === ',' && !depth) {
+      out.push(cur.trim());
+      cur = '';
+      continue;
+    }
+    cur += c;
+  }
+  if (cur.trim()) out.push(cur.trim());
+  return out;
+}
+
+function scalar(v: string): YamlValue {
+  if (v === '' || v === '~' || v === 'null' || v === 'Null') return null;
+  if (v.startsWith('"') && v.endsWith('"') && v.length > 1) {
+    try {
+      return JSON.parse(v);
+    } catch {
+      return v.slice(1, -1);
+    }
+  }
+  if (v.startsWith("'") && v.endsWith("'") && v.length > 1)
+    return v.slice(1, -1).replace(/''/g, "'");
+  if (v.startsWith('[') && v.endsWith(']'))
+    return splitFlow(v.slice(1, -1)).map(scalar);
+  if (v.startsWith('{') && v.endsWith('}')) {
+    const out: YamlMap = {};
+    for (const part of splitFlow(v.slice(1, -1))) {
+      const kv = keyOf(part);
+      if (kv) out[kv.key] = scalar(kv.rest);
+    }
+    return out;
+  }
+  if (/^(true|false)$/i.test(v)) return v.toLowerCase() === 'true';
+  if (/^[-+]?\d+(\.\d+)?$/.test(v)) return Number(v);
+  return v;
+}
+
+const fail = (l: Line, why: string): never => {
+  throw new Error(`YAML line ${l.no}: ${why}`);
+};
+
+// opening → closing character of quoted scalars and flow collections
+const CLOSER: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '[': ']',
+  '{': '}',
+};
+
+/**
+ * Small YAML reader for CI definitions (Harness, GitHub Actions, GitLab CI):
+ * block mappings and sequences, plain and quoted scalars and flow collections
+ * (all of which may wrap onto further lines) and `|` / `>` block scalars.
+ * Unlike a general parser it keeps the line of every key and list item, so
+ * rules can point at the exact spot in the file. Anything else (anchors,
+ * aliases, tags, several documents, a line it cannot place) throws: a partial
+ * document would hide the rest of the pipeline from the rules.
+ */
+export function parseYaml(text: string): YamlDoc {
+  const source = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: Line[] = [];
+  source.forEach((raw, i) => {
+    const t = raw.trim();
+    if (t === '---' && lines.length)
+      fail({ no: i + 1, indent: 0, text: t }, 'only one document is supported');
+    if (!t || t.startsWith('#') || t === '---' || t === '...') return;
+    lines.push({
+      no: i + 1,
+      indent: raw.length - raw.trimStart().length,
+      text: t,
+    });
+  });
+
+  const where = new WeakMap<object, Map<string | number, number>>();
+  const mark = (container: object, key: string | number, no: number) => {
+    const m = where.get(container) ?? new Map();
+    m.set(key, no);
+    where.set(container, m);
+  };
+
+  let pos = 0;
+
+  // `|` / `>` content: raw lines deeper than the owner, blank lines included
+  const blockScalar = (folded: boolean, owner: Line, ownerIndent: number) => {
+    const body: string[] = [];
+    let last = owner.no;
+    for (let i = owner.no; i < source.length; i++) {
+      const raw = source[i];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() && indent <= ownerIndent) break;
+      body.push(raw);
+      if (raw.trim()) last = i + 1;
+    }
+    while (pos < lines.length && lines[pos].no <= last) pos++;
+    const kept = body.slice(0, last - owner.no);
+    const strip = Math.min(
+      ...kept
+        .filter((l) => l.trim())
+        .map((l) => l.length - l.trimStart().length)
+    );
+    const out = kept.map((l) => l.slice(strip));
+    return folded ? out.join(' ').replace(/\s+/g, ' ').trim() : out.join('\n');
+  };
+
+  // a scalar or flow collection continues on every deeper line (folded to spaces)
+  const inline = (rest: string, owner: Line, ownerIndent: number) => {
+    const closer = CLOSER[rest[0]];
+    let value = rest;
+    while (pos < lines.length && lines[pos].indent > ownerIndent) {
+      const l = lines[pos++];
+      if (!closer && keyOf(l.text))
+        fail(l, 'a mapping cannot follow a scalar value');
+      value += ' ' + l.text;
+    }
+    value = stripComment(value);
+    if (closer && (value.length < 2 || !value.endsWith(closer)))
+      fail(owner, `unterminated ${rest[0]}`);
+    return scalar(value);
+  };
+
+  const valueOf = (rest: string, owner: Line, ownerIndent: number) => {
+    if (/^[&*!]/.test(rest))
+      fail(owner, 'anchors, aliases and tags are not supported');
+    return /^[|>][-+0-9]*$/.test(rest)
+      ? blockScalar(rest[0] === '>', owner, ownerIndent)
+      : inline(rest, owner, ownerIndent);
+  };
+
+  const parseBlock = (): YamlValue => {
+    const l = lines[pos];
+    if (!l) return null;
+    return isItem(l.text) ? parseSeq(l.indent) : parseMap(l.indent);
+  };
+
+  const parseSeq = (indent: number): YamlValue[] => {
+    const out: YamlValue[] = [];
+    while (pos < lines.length) {
+      const l = lines[pos];
+      if (l.indent !== indent || !isItem(l.text)) break;
+      mark(out, out.length, l.no);
+      const rest = l.text.slice(1).trimStart();
+      if (!rest) {
+        pos++;
+        const next = lines[pos];
+        out.push(next && next.indent > indent ? parseBlock() : null);
+      } else if (isItem(rest) || keyOf(rest)) {
+        // "- key: v" opens a nested block at the column of its content
+        l.indent += l.text.length - rest.length;
+        l.text = rest;
+        out.push(parseBlock());
+      } else {
+        pos++;
+        out.push(valueOf(stripComment(rest), l, indent));
+      }
+    }
+    return out;
+  };
+
+  const parseMap = (indent: number): YamlMap => {
+    const out: YamlMap = {};
+    while (pos < lines.length) {
+      const l = lines[pos];
+      if (l.indent !== indent || isItem(l.text)) break;
+      pos++;
+      const kv = keyOf(l.text) ?? fail(l, 'expected "key: value"');
+      if (kv.key === '<<') fail(l, 'merge keys are not supported');
+      mark(out, kv.key, l.no);
+      if (kv.rest) {
+        out[kv.key] = valueOf(kv.rest, l, indent);
+        continue;
+      }
+      // nested block; sequences may also sit at the key's own indent
+      const next = lines[pos];
+      const nested =
+        next &&
+        (next.indent > indent || (next.indent === indent && isItem(next.text)));
+      out[kv.key] = nested ? parseBlock() : null;
+    }
+    return out;
+  };
+
+  const value = parseBlock();
+  // a line no block could take, e.g. indented deeper or less than its siblings
+  if (pos < lines.length) fail(lines[pos], 'unexpected indentation');
+  return {
+    value,
+    source,
+    lineOf: (container, key) =>
+      container && typeof container === 'object'
+        ? where.get(container)?.get(key)
+        : undefined,
+  };
+}
+
+/** Parse without throwing; null when the text isn't YAML this reader handles */
+export function tryParseYaml(text: string): YamlDoc | null {
+  try {
+    return parseYaml(text);
+  } catch {
+    return null;
+  }
+}
+
+export const isMap = (v: unknown): v is YamlMap =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+export const asList = (v: unknown): YamlValue[] => (Array.isArray(v) ? v : []);
@@ -1,25 +1,96 @@
-import { Injectable, computed, signal } from '@angular/core';
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
 
-import { Finding, ToolKind } from '../models/finding.model';
+import {
+  categoryOf,
+  Finding,
+  isSuppressed,
+  ToolCategory,
+  ToolKind,
+  Triage,
+} from '../models/finding.model';
+import type {
+  ScanSessionMeta,
+  ScanSessionRecord,
+  ScanSessionSummary,
+} from '../models/scan-session.model';
+import { mergeFilterStats, type FilterStats } from '../models/finding.ignore';
+import { withControls } from '../models/control.mapping';
 import { environment } from '../../environments/environment';
+import { SessionStoreService } from './session-store.service';
+import { TriageStoreService } from './triage-store.service';
+
+const ACTIVE_SESSION_KEY = 'aisec.activeSessionId';
 
 @Injectable({ providedIn: 'root' })
 export class FindingsService {
+  private db = inject(SessionStoreService);
+  private triageStore = inject(TriageStoreService);
+
   // all findings in one place
   private readonly _all = signal<Finding[]>([]);
 
+  // the session the findings above belong to (null = not persisted)
+  private readonly _active = signal<ScanSessionMeta | null>(null);
+  readonly activeSession = computed(() => this._active());
+
+  // stored sessions, newest first
+  readonly sessions = signal<ScanSessionSummary[]>([]);
+
+  constructor() {
+    // write-through: every change to the active session's findings
+    // (new results, AI enrichment, patches) lands in IndexedDB
+    effect(() => {
+      const meta = this._active();
+      const findings = this._all();
+      if (!meta) return;
+      const record: ScanSessionRecord = {
+        ...meta,
+        findings,
+        updatedAt: new Date().toISOString(),
+      };
+      this.db
+        .put(record)
+        .then((summary) => this.upsertSummary(summary))
+        .catch((e) => console.error('❌ Failed to persist session:', e));
+    });
+
+    this.loadSessions();
+  }
+
   // public read-only views
   readonly all = computed(() => this._all());
   readonly count = computed(() => this._all().length);
 
+  // everything not suppressed / false positive / accepted (what counts)
+  readonly active = computed(() => this._all().filter((f) => !isSuppressed(f)));
+  readonly suppressedCount = computed(
+    () => this._all().length - this.active().length
+  );
+
   byTool = (tool: ToolKind) =>
     computed(() => this._all().filter((f) => f.tool === tool));
 
-  // add or replace by id
+  // every tool registered under a category (e.g. all code scanners);
+  // triaged findings are left out unless asked for
+  byCategory = (category: ToolCategory, includeSuppressed = false) =>
+    computed(() =>
+      (includeSuppressed ? this._all() : this.active()).filter(
+        (f) => categoryOf(f.tool) === category
+      )
+    );
+
+  // add or replace by id; earlier triage decisions carry over by fingerprint
   add(list: Finding[]) {
     if (!list?.length) return;
     const map = new Map(this._all().map((f) => [f.id, f]));
-    for (const f of list) map.set(f.id, { ...map.get(f.id), ...f });
+    for (const f of list) {
+      const merged = { ...map.get(f.id), ...f } as Finding;
+      if (!merged.triage) {
+        const triage = this.triageStore.lookup(merged);
+        if (triage) merged.triage = triage;
+      }
+      map.set(f.id, merged);
+    }
     this._all.set([...map.values()]);
   }
 
@@ -39,6 +110,108 @@ export class FindingsService {
     );
   }
 
+  // dismiss findings (and remember it for future scans)
+  triage(ids: Iterable<string>, triage: Triage) {
+    const set = new Set(ids);
+    for (const f of this._all()) if (set.has(f.id)) this.triageStore.remember(f, triage);
+    this.patchMany(set, { triage });
+  }
+
+  // bring triaged findings back
+  untriage(ids: Iterable<string>) {
+    const set = new Set(ids);
+    for (const f of this._all()) if (set.has(f.id)) this.triageStore.forget(f);
+    this.patchMany(set, { triage: undefined });
+  }
+
+  // update many findings at once (bulk actions)
+  patchMany(ids: Iterable<string>, patch: Partial<Finding>) {
+    const set = new Set(ids);
+    if (!set.size) return;
+    this._all.update((arr) =>
+      arr.map((f) => (set.has(f.id) ? { ...f, ...patch } : f))
+    );
+  }
+
+  /* -----------------------------
+     Sessions (IndexedDB-backed)
+  --------------------------------*/
+
+  /** Start a fresh session; current findings are dropped from view (not from history) */
+  beginSession(meta: Omit<ScanSessionMeta, 'id' | 'createdAt'>) {
+    const createdAt = new Date().toISOString();
+    const session: ScanSessionMeta = {
+      ...meta,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt,
+    };
+    this._all.set([]);
+    this._active.set(session);
+    localStorage.setItem(ACTIVE_SESSION_KEY, session.id);
+    return session;
+  }
+
+  /** Remember what ingestion filtered out of the active session */
+  recordFiltered(stats: FilterStats) {
+    this._active.update((m) =>
+      m ? { ...m, filtered: mergeFilterStats(m.filtered, stats) } : m
+    );
+  }
+
+  /** Make a stored session the active one */
+  async openSession(id: string): Promise<ScanSessionMeta | null> {
+    const record = await this.db.get(id);
+    if (!record) return null;
+    const { findings, ...meta } = record;
+    this._active.set(meta);
+    this._all.set(findings || []);
+    localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    return meta;
+  }
+
+  /** Reopen whatever session was active before the last reload */
+  restoreLastSession(): Promise<ScanSessionMeta | null> {
+    const id = localStorage.getItem(ACTIVE_SESSION_KEY);
+    return id ? this.openSession(id) : Promise.resolve(null);
+  }
+
+  /** Stop persisting into the active session (data stays in history) */
+  closeSession() {
+    this._active.set(null);
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+
+  async deleteSession(id: string) {
+    await this.db.delete(id);
+    this.sessions.update((list) => list.filter((s) => s.id !== id));
+    if (this._active()?.id === id) {
+      this.closeSession();
+      this._all.set([]);
+    }
+  }
+
+  /** Findings of any stored session (the active one is served from memory) */
+  async sessionFindings(id: string): Promise<Finding[]> {
+    if (this._active()?.id === id) return this._all();
+    return (await this.db.get(id))?.findings ?? [];
+  }
+
+  async loadSessions() {
+    try {
+      this.sessions.set(await this.db.list());
+    } catch (e) {
+      console.error('❌ Failed to load session history:', e);
+    }
+  }
+
+  private upsertSummary(summary: ScanSessionSummary) {
+    this.sessions.update((list) =>
+      [summary, ...list.filter((s) => s.id !== summary.id)].sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt)
+      )
+    );
+  }
+
   loadMockFindings() {
     const mock: Finding[] = [
       {
@@ -49,6 +222,8 @@ export class FindingsService {
         message:
           'Agent loop without max iterations / timeouts. Add guards. (Agentic T4 / LLM04)',
         severity: 'unknown',
+        cwe: ['CWE-835'],
+        tags: ['Agentic T4', 'OWASP LLM04'],
         location: {
           file: 'repo/src/requests/models.py',
           line: 831,
@@ -71,6 +246,8 @@ export class FindingsService {
         message:
           'LLM output flows into a shell command. Validate/whitelist or sandbox. (OWASP LLM02)',
         severity: 'high',
+        cwe: ['CWE-78'],
+        tags: ['OWASP LLM02'],
         location: {
           file: 'repo/setup.py',
           line: 32,
@@ -88,6 +265,8 @@ export class FindingsService {
         title: 'MD5 used for hashing',
         message: 'Insecure hash (MD5) used for security-sensitive context.',
         severity: 'low',
+        cwe: ['CWE-328'],
+        tags: ['A02:2021 - Cryptographic Failures'],
         location: {
           file: 'repo/auth/utils.py',
           line: 44,
@@ -106,6 +285,8 @@ export class FindingsService {
         message:
           'LLM output flows into a shell command. Validate/whitelist or sandbox. (OWASP LLM02)',
         severity: 'high',
+        cwe: ['CWE-78'],
+        tags: ['OWASP LLM02'],
         location: {
           file: 'repo/setup.py',
           line: 32,
@@ -123,6 +304,8 @@ export class FindingsService {
         title: 'MD5 used for hashing',
         message: 'Insecure hash (MD5) used for security-sensitive context.',
         severity: 'low',
+        cwe: ['CWE-328'],
+        tags: ['A02:2021 - Cryptographic Failures'],
         location: {
           file: 'repo/auth/utils.py',
           line: 44,
@@ -175,6 +358,8 @@ export class FindingsService {
         message:
           'Potential SQL injection via formatted SQL string. Use bound parameters.',
         severity: 'critical',
+        cwe: ['CWE-89'],
+        tags: ['A03:2021 - Injection'],
         location: {
           file: 'repo/db/queries.py',
           line: 19,
@@ -187,7 +372,8 @@ export class FindingsService {
       },
     ];
 
-    this._all.set(mock);
+    // mock data skips ingestion, so map controls here
+    this._all.set(withControls(mock));
 
     // Optional: simulate latency so spinners can be tested
     // setTimeout(() => this._all.set(mock), 600);
@@ -0,0 +1,44 @@
+import { Injectable, signal } from '@angular/core';
+
+import { EMPTY_IGNORE, type IgnoreConfig } from '../models/finding.ignore';
+
+const IGNORE_KEY = 'aisec.ignore';
+
+/** Ignore globs + baseline fingerprints, one configuration per repo */
+@Injectable({ providedIn: 'root' })
+export class IgnoreConfigService {
+  readonly configs = signal<Record<string, IgnoreConfig>>(this.load());
+
+  configFor(repo?: string): IgnoreConfig {
+    return this.configs()[repo || ''] ?? EMPTY_IGNORE;
+  }
+
+  setPaths(repo: string | undefined, paths: string[]) {
+    this.update(repo, { paths });
+  }
+
+  setBaseline(repo: string | undefined, baseline: string[]) {
+    this.update(repo, { baseline: [...new Set(baseline)] });
+  }
+
+  private update(repo: string | undefined, patch: Partial<IgnoreConfig>) {
+    const key = repo || '';
+    this.configs.update((all) => ({
+      ...all,
+      [key]: { ...(all[key] ?? EMPTY_IGNORE), ...patch },
+    }));
+    this.save();
+  }
+
+  private load(): Record<string, IgnoreConfig> {
+    try {
+      return JSON.parse(localStorage.getItem(IGNORE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private save() {
+    localStorage.setItem(IGNORE_KEY, JSON.stringify(this.configs()));
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, computed, inject } from '@angular/core';
+
+import type { PipelineRun } from '../models/pipeline-run.model';
+import { pipelineStats, runsOf } from '../models/pipeline.stats';
+import { FindingsService } from './findings.service';
+
+/**
+ * Every pipeline execution stored for the active repo: the runs carried by
+ * its scan sessions, merged and de-duplicated by execution id. Stored
+ * sessions list their runs in their summary, so no findings are read here.
+ */
+@Injectable({ providedIn: 'root' })
+export class PipelineHistoryService {
+  private store = inject(FindingsService);
+
+  // oldest first
+  readonly runs = computed(() => {
+    const active = this.store.activeSession();
+    const live = {
+      at: active?.createdAt ?? '',
+      runs: runsOf(this.store.all()), // triage doesn't hide executions
+    };
+    if (!active) return chronological([live]);
+    const stored = this.store
+      .sessions()
+      .filter((s) => s.repo === active.repo && s.id !== active.id)
+      .map((s) => ({ at: s.createdAt, runs: s.runs ?? [] }));
+    return chronological([...stored, live]);
+  });
+
+  readonly stats = computed(() => pipelineStats(this.runs()));
+}
+
+/** Merge per-session runs; a re-imported execution keeps its newest copy */
+function chronological(batches: Array<{ at: string; runs: PipelineRun[] }>) {
+  const byId = new Map<string, { at: string; run: PipelineRun }>();
+  for (const b of [...batches].sort((x, y) => x.at.localeCompare(y.at)))
+    for (const run of b.runs)
+      byId.set(run.id, { at: run.startedAt || b.at, run });
+  return [...byId.values()]
+    .sort((x, y) => x.at.localeCompare(y.at))
+    .map((x) => x.run);
+}
@@ -0,0 +1,50 @@
+import type { Finding } from '../models/finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { priorityOf, remediationQueue } from './remediation.service';
+
+const at = (file: string, extra: Partial<Finding> = {}) =>
+  finding({ location: { file }, ...extra });
+
+describe('priorityOf', () => {
+  it('boosts attacker-reachable rules, tags and CWEs', () => {
+    const plain = priorityOf(at('src/util.py'));
+    expect(priorityOf(at('src/util.py', { ruleId: 'py.sql_injection' }))).toBe(
+      plain * 1.5
+    );
+    expect(priorityOf(at('src/util.py', { tags: ['xss.reflected'] }))).toBe(
+      plain * 1.5
+    );
+    expect(priorityOf(at('src/util.py', { message: 'See CWE-89' }))).toBe(
+      plain * 1.5
+    );
+  });
+
+  it('does not boost terms hidden inside other words', () => {
+    const plain = priorityOf(at('src/util.py'));
+    for (const message of [
+      'Open source license',
+      'Enforce a timeout',
+      'Unknown author field',
+      'Executable bit set',
+    ])
+      expect(priorityOf(at('src/util.py', { message }))).toBe(plain);
+  });
+
+  it('weighs critical paths up and test or vendored code down', () => {
+    const plain = priorityOf(at('src/util.py'));
+    expect(priorityOf(at('src/auth/login.py'))).toBe(plain * 1.5);
+    expect(priorityOf(at('src/rapid.py'))).toBe(plain);
+    expect(priorityOf(at('tests/test_login.py'))).toBe(plain * 0.5);
+  });
+});
+
+describe('remediationQueue', () => {
+  it('puts open work first, highest priority first, and skips info', () => {
+    const low = at('src/a.py', { severity: 'low' });
+    const critical = at('src/a.py', { severity: 'critical' });
+    const fixed = at('src/a.py', { severity: 'critical', status: 'fixed' });
+    const info = at('src/a.py', { severity: 'info' });
+    const queue = remediationQueue([fixed, low, info, critical]);
+    expect(queue.map((q) => q.finding)).toEqual([critical, low, fixed]);
+  });
+});
@@ -0,0 +1,106 @@
+import { Injectable, computed, inject } from '@angular/core';
+
+import type {
+  Finding,
+  RemediationStatus,
+  Severity,
+} from '../models/finding.model';
+import { FindingsService } from './findings.service';
+
+const SEVERITY_WEIGHT: Record<Severity, number> = {
+  critical: 100,
+  high: 60,
+  medium: 30,
+  low: 10,
+  info: 0,
+  unknown: 20,
+};
+
+// rule ids / tags / CWEs that usually mean "reachable by an attacker";
+// terms are whole words ("sql_injection", "xss.reflected"), so "source",
+// "force" or "author" don't count
+const EXPLOITABLE =
+  /(?<![a-z0-9])(injections?|sqli|xss|rce|commands?|exec(ute|ution)?|deserializ(e|ation|ing)|ssrf|traversal|taint(ed)?|secrets?|credentials?|auth(n|z|entication|orization)?)(?![a-z0-9])|\bCWE-(78|79|89|94|502|918|22|798)\b/i;
+
+// paths where a bug hurts most, and paths where it hardly matters;
+// critical terms are whole path words ("api/", "auth.ts", "user_db.py"), so
+// "rapid", "feedback" or "author" don't count
+const CRITICAL_PATH =
+  /(^|[/._-])(auth|login|session|crypto|payment|billing|admin|api|db|sql|secret|token|deploy|pipeline)s?([/._-]|$)/i;
+const LOW_PATH =
+  /(^|\/)(tests?|spec|__tests__|docs?|examples?|fixtures?|vendor|node_modules)(\/|$)|\.(test|spec)\./i;
+
+export const REMEDIATION_STATUSES: Array<{
+  value: RemediationStatus;
+  label: string;
+}> = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'accepted_risk', label: 'Accepted risk' },
+];
+
+export function statusOf(f: Finding): RemediationStatus {
+  return f.status ?? 'open';
+}
+
+export function isDone(f: Finding): boolean {
+  const s = statusOf(f);
+  return s === 'fixed' || s === 'accepted_risk';
+}
+
+/** Priority = severity × exploitability × file criticality (higher first) */
+export function priorityOf(f: Finding): number {
+  const sev = SEVERITY_WEIGHT[f.severity] ?? SEVERITY_WEIGHT.unknown;
+
+  const text = [
+    f.ruleId,
+    f.message,
+    ...(f.tags ?? []),
+    ...(('cwe' in f && f.cwe) || []),
+  ].join(' ');
+  const exploit = EXPLOITABLE.test(text) ? 1.5 : 1;
+
+  const file = f.location?.file ?? '';
+  const crit = LOW_PATH.test(file) ? 0.5 : CRITICAL_PATH.test(file) ? 1.5 : 1;
+
+  return Math.round(sev * exploit * crit);
+}
+
+/** Everything actionable, open work first, then by priority */
+export function remediationQueue(
+  list: Finding[]
+): Array<{ finding: Finding; priority: number }> {
+  return list
+    .filter((f) => f.severity !== 'info')
+    .map((f) => ({ finding: f, priority: priorityOf(f) }))
+    .sort(
+      (a, b) =>
+        Number(isDone(a.finding)) - Number(isDone(b.finding)) ||
+        b.priority - a.priority
+    );
+}
+
+@Injectable({ providedIn: 'root' })
+export class RemediationService {
+  private store = inject(FindingsService);
+
+  // everything actionable across tools, best candidates first
+  readonly queue = computed(() => remediationQueue(this.store.active()));
+
+  readonly openCount = computed(
+    () => this.queue().filter((q) => !isDone(q.finding)).length
+  );
+
+  setStatus(ids: Iterable<string>, status: RemediationStatus) {
+    this.store.patchMany(ids, { status });
+  }
+
+  assign(ids: Iterable<string>, assignee: string) {
+    this.store.patchMany(ids, { assignee: assignee.trim() || undefined });
+  }
+
+  setDueDate(ids: Iterable<string>, dueDate: string) {
+    this.store.patchMany(ids, { dueDate: dueDate || undefined });
+  }
+}
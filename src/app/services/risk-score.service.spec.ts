@@ -0,0 +1,87 @@
+import type { Finding, Severity } from '../models/finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { computeRisk, DEFAULT_RISK_WEIGHTS } from './risk-score.service';
+
+const scored = (
+  tool: string,
+  severity: Severity,
+  extra: Partial<Finding> = {}
+): Finding => finding({ tool, severity, ...extra });
+
+const vanta = (done: number, total: number): Finding =>
+  ({
+    ...finding({ tool: 'vanta', severity: 'info' }),
+    controlsDone: done,
+    controlsTotal: total,
+  }) as Finding;
+
+describe('computeRisk', () => {
+  it('scores nothing when there are no findings', () => {
+    expect(computeRisk([])).toEqual({
+      score: 0,
+      code: null,
+      compliance: null,
+      pipeline: null,
+    });
+  });
+
+  it('saturates code points on the code scale', () => {
+    // one critical = 10 points; 100 * (1 - e^(-10/40)) ≈ 22
+    const risk = computeRisk([scored('semgrep', 'critical')]);
+    expect(risk.code).toBe(22);
+    expect(risk.pipeline).toBeNull();
+    expect(risk.score).toBe(22);
+  });
+
+  it('counts dependency findings towards code risk', () => {
+    const code = computeRisk([scored('semgrep', 'high')]).code;
+    expect(computeRisk([scored('npm-audit', 'high')]).code).toBe(code);
+  });
+
+  it('ignores triaged findings until the triage expires', () => {
+    const triage = {
+      state: 'accepted_risk' as const,
+      justification: 'behind VPN',
+      author: 'me',
+      createdAt: '2025-01-01T00:00:00Z',
+    };
+    expect(
+      computeRisk([scored('semgrep', 'critical', { triage })]).code
+    ).toBeNull();
+    expect(
+      computeRisk([
+        scored('semgrep', 'critical', {
+          triage: { ...triage, expiresAt: '2000-01-01' },
+        }),
+      ]).code
+    ).toBe(22);
+  });
+
+  it('averages compliance gaps across frameworks', () => {
+    const risk = computeRisk([vanta(8, 10), vanta(5, 10)]);
+    expect(risk.compliance).toBe(35);
+    expect(risk.score).toBe(35);
+  });
+
+  it('weights the headline score over the areas with data', () => {
+    const risk = computeRisk([
+      scored('semgrep', 'critical'), // code 22.1
+      scored('harness', 'high'), // pipeline 39.3
+    ]);
+    const { code, pipeline } = DEFAULT_RISK_WEIGHTS.categories;
+    const expected =
+      (100 * (1 - Math.exp(-10 / 40)) * code +
+        100 * (1 - Math.exp(-5 / 10)) * pipeline) /
+      (code + pipeline);
+    expect(risk.score).toBe(Math.round(expected));
+    expect(risk.compliance).toBeNull();
+  });
+
+  it('uses custom severity weights and unknown as the fallback', () => {
+    const weights = {
+      ...DEFAULT_RISK_WEIGHTS,
+      severity: { ...DEFAULT_RISK_WEIGHTS.severity, low: 40 },
+    };
+    expect(computeRisk([scored('semgrep', 'low')], weights).code).toBe(63);
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+
+import {
+  categoryOf,
+  isSuppressed,
+  type Finding,
+  type Severity,
+} from '../models/finding.model';
+import { complianceProgress } from '../models/vanta.mapper';
+import { FindingsService } from './findings.service';
+
+const WEIGHTS_KEY = 'aisec.riskWeights';
+
+export interface RiskWeights {
+  // risk points contributed by one finding of each severity
+  severity: Record<Severity, number>;
+  // points at which code / pipeline risk reaches ~63 (saturating curve)
+  codeScale: number;
+  pipelineScale: number;
+  // how much each area counts towards the headline score
+  categories: { code: number; compliance: number; pipeline: number };
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  severity: {
+    critical: 10,
+    high: 5,
+    medium: 2,
+    low: 0.5,
+    info: 0,
+    unknown: 1,
+  },
+  codeScale: 40,
+  pipelineScale: 10,
+  categories: { code: 0.6, compliance: 0.25, pipeline: 0.15 },
+};
+
+/** 0-100 per area and overall; higher = riskier. null = no data for that area */
+export interface RiskBreakdown {
+  score: number;
+  code: number | null;
+  compliance: number | null;
+  pipeline: number | null;
+}
+
+/** Map accumulated points onto 0-100 without a hard ceiling */
+function saturate(points: number, scale: number): number {
+  return scale > 0 ? 100 * (1 - Math.exp(-points / scale)) : 0;
+}
+
+/** Pure scoring model: findings across all tools → weighted risk */
+export function computeRisk(
+  findings: Finding[],
+  weights: RiskWeights = DEFAULT_RISK_WEIGHTS
+): RiskBreakdown {
+  let codePts = 0;
+  let pipePts = 0;
+  let hasCode = false;
+  let hasPipe = false;
+  const gaps: number[] = [];
+
+  for (const f of findings) {
+    if (isSuppressed(f)) continue; // triaged findings carry no risk
+    const cat = categoryOf(f.tool);
+    const pts = weights.severity[f.severity] ?? weights.severity.unknown;
+    // vulnerable dependencies ship with the application: same bucket as code
+    if (cat === 'code' || cat === 'dependency') {
+      hasCode = true;
+      codePts += pts;
+    } else if (cat === 'pipeline') {
+      hasPipe = true;
+      pipePts += pts;
+    } else {
+      const pct = complianceProgress(f)?.percent ?? null;
+      if (pct !== null) gaps.push(100 - Math.min(100, Math.max(0, pct)));
+    }
+  }
+
+  const code = hasCode ? saturate(codePts, weights.codeScale) : null;
+  const pipeline = hasPipe ? saturate(pipePts, weights.pipelineScale) : null;
+  const compliance = gaps.length
+    ? gaps.reduce((a, b) => a + b, 0) / gaps.length
+    : null;
+
+  // weighted mean over the areas we actually have data for
+  const parts: Array<[number | null, number]> = [
+    [code, weights.categories.code],
+    [compliance, weights.categories.compliance],
+    [pipeline, weights.categories.pipeline],
+  ];
+  let sum = 0;
+  let wsum = 0;
+  for (const [v, w] of parts) {
+    if (v === null || w <= 0) continue;
+    sum += v * w;
+    wsum += w;
+  }
+
+  const round = (v: number | null) => (v === null ? null : Math.round(v));
+  return {
+    score: wsum ? Math.round(sum / wsum) : 0,
+    code: round(code),
+    compliance: round(compliance),
+    pipeline: round(pipeline),
+  };
+}
+
+@Injectable({ providedIn: 'root' })
+export class RiskScoreService {
+  private store = inject(FindingsService);
+
+  readonly weights = signal<RiskWeights>(this.loadWeights());
+
+  // live score for the active findings
+  readonly current = computed(() =>
+    computeRisk(this.store.all(), this.weights())
+  );
+
+  // scores of the active repo's other stored sessions, filled in the background
+  private readonly stored = signal<Map<string, number>>(new Map());
+
+  // session id → score as of the session's last write, under those weights
+  private cache = new Map<
+    string,
+    { updatedAt: string; weights: RiskWeights; score: number }
+  >();
+  // bumped per history load; an older load never overwrites a newer one
+  private generation = 0;
+
+  // score per stored session of the active repo, oldest first
+  readonly trend = computed(() => {
+    const active = this.store.activeSession();
+    if (!active) return [];
+    const stored = this.stored();
+    const live = this.current().score;
+    const mine = this.store.sessions().filter((s) => s.repo === active.repo);
+    // the active session may not be listed until its first write lands
+    if (!mine.some((s) => s.id === active.id))
+      mine.push({ ...active, count: 0 });
+    return mine
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .flatMap((s) => {
+        const score = s.id === active.id ? live : stored.get(s.id);
+        return score === undefined ? [] : [{ at: s.createdAt, score }];
+      });
+  });
+
+  constructor() {
+    // only stored sessions are loaded here; the live score needs no reload
+    effect(() => {
+      const active = this.store.activeSession();
+      const weights = this.weights();
+      const others = this.store
+        .sessions()
+        .filter((s) => s.repo === active?.repo && s.id !== active?.id);
+      const generation = ++this.generation;
+
+      Promise.all(
+        others.map(async (s) => {
+          const updatedAt = s.updatedAt ?? s.createdAt;
+          const hit = this.cache.get(s.id);
+          if (hit?.updatedAt === updatedAt && hit.weights === weights)
+            return [s.id, hit.score] as const;
+          const findings = await this.store.sessionFindings(s.id);
+          const score = computeRisk(findings, weights).score;
+          this.cache.set(s.id, { updatedAt, weights, score });
+          return [s.id, score] as const;
+        })
+      )
+        .then((scores) => {
+          if (generation === this.generation) this.stored.set(new Map(scores));
+        })
+        .catch((e) => console.error('❌ Risk trend failed:', e));
+    });
+  }
+
+  setWeights(weights: RiskWeights) {
+    this.weights.set(weights);
+    localStorage.setItem(WEIGHTS_KEY, JSON.stringify(weights));
+  }
+
+  resetWeights() {
+    this.setWeights(DEFAULT_RISK_WEIGHTS);
+  }
+
+  private loadWeights(): RiskWeights {
+    try {
+      const saved = JSON.parse(localStorage.getItem(WEIGHTS_KEY) || 'null');
+      return saved ? { ...DEFAULT_RISK_WEIGHTS, ...saved } : DEFAULT_RISK_WEIGHTS;
+    } catch {
+      return DEFAULT_RISK_WEIGHTS;
+    }
+  }
+}
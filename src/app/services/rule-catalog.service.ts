@@ -0,0 +1,19 @@
+import { Injectable, computed, inject } from '@angular/core';
+
+import { buildRuleCatalog } from '../models/rule.catalog';
+import { FindingsService } from './findings.service';
+
+@Injectable({ providedIn: 'root' })
+export class RuleCatalogService {
+  private store = inject(FindingsService);
+
+  // the open scan in full; every other stored scan by the rules it listed
+  readonly catalog = computed(() => {
+    const activeId = this.store.activeSession()?.id;
+    const history = this.store
+      .sessions()
+      .filter((s) => s.id !== activeId)
+      .map((s) => s.rules ?? []);
+    return buildRuleCatalog(this.store.all(), history);
+  });
+}
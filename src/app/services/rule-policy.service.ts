@@ -0,0 +1,47 @@
+import { Injectable, signal } from '@angular/core';
+
+import type { ToolKind } from '../models/finding.model';
+import {
+  ruleKey,
+  type RuleOverride,
+  type RulePolicy,
+} from '../models/rule.policy';
+
+const POLICY_KEY = 'aisec.rulePolicy';
+
+type RuleRef = { tool: ToolKind; ruleId: string };
+
+/** Per-rule disable / severity overrides, applied to future scans only */
+@Injectable({ providedIn: 'root' })
+export class RulePolicyService {
+  readonly policy = signal<RulePolicy>(this.load());
+
+  /** Merge an override; an empty override removes the rule from the policy */
+  set(rule: RuleRef, override: RuleOverride) {
+    const key = ruleKey(rule);
+    this.policy.update((p) => {
+      const next = { ...p, [key]: { ...p[key], ...override } };
+      const o = next[key];
+      if (!o.disabled && !o.severity) delete next[key];
+      return next;
+    });
+    this.save();
+  }
+
+  clear(rule: RuleRef) {
+    this.policy.update(({ [ruleKey(rule)]: _, ...rest }) => rest);
+    this.save();
+  }
+
+  private load(): RulePolicy {
+    try {
+      return JSON.parse(localStorage.getItem(POLICY_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private save() {
+    localStorage.setItem(POLICY_KEY, JSON.stringify(this.policy()));
+  }
+}
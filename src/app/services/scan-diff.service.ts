@@ -0,0 +1,72 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+
+import type { Finding } from '../models/finding.model';
+import type {
+  ScanSessionMeta,
+  ScanSessionSummary,
+} from '../models/scan-session.model';
+import { diffFindings, FindingDiff } from '../models/finding.diff';
+import { FindingsService } from './findings.service';
+
+@Injectable({ providedIn: 'root' })
+export class ScanDiffService {
+  private store = inject(FindingsService);
+
+  // the stored scan of the active repo that came right before the active one
+  readonly previous = signal<{
+    meta: ScanSessionSummary;
+    findings: Finding[];
+  } | null>(null);
+
+  // active session vs. previous one (null when there is nothing to compare)
+  readonly sinceLast = computed<FindingDiff | null>(() => {
+    const prev = this.previous();
+    return prev ? diffFindings(prev.findings, this.store.all()) : null;
+  });
+
+  // ids of active findings that did not exist in the previous scan
+  readonly newIds = computed(
+    () => new Set((this.sinceLast()?.added ?? []).map((f) => f.id))
+  );
+
+  constructor() {
+    // reload the comparison baseline whenever the active session (or history) changes
+    effect(
+      () => {
+        const active = this.store.activeSession();
+        const prev = active ? this.previousOf(active) : undefined;
+        if (!prev) {
+          this.previous.set(null);
+          return;
+        }
+        if (untracked(() => this.previous()?.meta.id) === prev.id) return;
+        this.store
+          .sessionFindings(prev.id)
+          .then((findings) => this.previous.set({ meta: prev, findings }))
+          .catch((e) => console.error('❌ Failed to load previous scan:', e));
+      },
+      { allowSignalWrites: true }
+    );
+  }
+
+  /** Stored sessions of one repo, newest first */
+  sessionsFor(repo: string): ScanSessionSummary[] {
+    return this.store.sessions().filter((s) => s.repo === repo);
+  }
+
+  /** Session of the same repo stored right before the given one */
+  previousOf(meta: ScanSessionMeta): ScanSessionSummary | undefined {
+    return this.sessionsFor(meta.repo).find(
+      (s) => s.createdAt < meta.createdAt
+    );
+  }
+
+  /** Diff two stored sessions (base = older, head = newer) */
+  async compare(baseId: string, headId: string): Promise<FindingDiff> {
+    const [base, head] = await Promise.all([
+      this.store.sessionFindings(baseId),
+      this.store.sessionFindings(headId),
+    ]);
+    return diffFindings(base, head);
+  }
+}
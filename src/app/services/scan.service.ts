@@ -17,15 +17,51 @@ import {
   isSarif,
   mapSemgrepSarifToFindings,
 } from '../models/semgrep.sarif.mapper';
-import type { Finding, ToolKind } from '../models/finding.model';
+import { isSemgrepRun, mapSarifToFindings } from '../models/sarif.mapper';
+import { isVantaExport, mapVantaToFindings } from '../models/vanta.mapper';
+import {
+  isHarnessExecution,
+  isHarnessPipelineYaml,
+  mapHarnessToFindings,
+} from '../models/harness.mapper';
+import {
+  isGithubWorkflow,
+  mapGithubWorkflowToFindings,
+} from '../models/github.mapper';
+import { isGitlabCi, mapGitlabCiToFindings } from '../models/gitlab.mapper';
+import { isNpmAudit, mapNpmAuditToFindings } from '../models/npm.audit.mapper';
+import { isOsvScannerJson, mapOsvToFindings } from '../models/osv.mapper';
+import {
+  isCycloneDx,
+  mapCycloneDxToFindings,
+} from '../models/cyclonedx.mapper';
+import { realFingerprints } from '../models/finding.identity';
+import { normalizeFindings } from '../models/finding.normalize';
+import { applyIgnore, filteredCount } from '../models/finding.ignore';
+import type { RulePolicy } from '../models/rule.policy';
+import {
+  isSemgrepJson,
+  mapSemgrepJsonToFindings,
+} from '../models/semgrep.json.mapper';
+import {
+  registerToolKind,
+  type Finding,
+  type ToolCategory,
+  type ToolKind,
+} from '../models/finding.model';
+import type { ScanSessionMeta } from '../models/scan-session.model';
 import { FindingsService } from './findings.service';
 import { BedrockService } from './bedrock.service';
+import { RulePolicyService } from './rule-policy.service';
+import { SeverityPolicyService } from './severity-policy.service';
+import { IgnoreConfigService } from './ignore-config.service';
 
 /* -----------------------------
    Scanner Adapter Abstraction
 --------------------------------*/
-interface ScannerAdapter {
+export interface ScannerAdapter {
   tool: ToolKind;
+  category: ToolCategory;
 
   // endpoints (can read from environment or be hardcoded per tool)
   startUrl: string;
@@ -35,8 +71,14 @@ interface ScannerAdapter {
   // how to detect the result filename from logs
   resultFilePattern: RegExp;
 
+  // does a raw payload (e.g. an uploaded file) belong to this tool?
+  accepts(payload: unknown): boolean;
+
   // optional: convert the tool’s raw result JSON into your Finding[]
-  mapResultToFindings(payload: unknown, ctx: { repo?: string }): Finding[];
+  mapResultToFindings(
+    payload: unknown,
+    ctx: { repo?: string; createdAt?: string; rules?: RulePolicy }
+  ): Finding[];
 }
 
 /* -----------------------------
@@ -44,18 +86,36 @@ interface ScannerAdapter {
 --------------------------------*/
 const SemgrepAdapter: ScannerAdapter = {
   tool: 'semgrep',
+  category: 'code',
   startUrl: environment.lambdaEndpoints.startSemgrepScanUrl,
   logsUrl: environment.lambdaEndpoints.semgrepScannerLogsUrl,
   resultUrl: environment.lambdaEndpoints.fetchResultUrl,
   resultFilePattern:
     /semgrep-results-[a-zA-Z0-9._-]+-[a-zA-Z0-9._-]+-\d{8}T\d{6}Z\.json/i,
 
+  // native `semgrep --json`, or SARIF made only of Semgrep runs
+  // (mixed logs go to the generic SARIF adapter, which splits them per run)
+  accepts(payload: any): boolean {
+    return (
+      isSemgrepJson(payload) ||
+      (isSarif(payload) &&
+        payload.runs
+          .filter((r: any) => Array.isArray(r?.results))
+          .every(isSemgrepRun))
+    );
+  },
+
   mapResultToFindings(payload: any, ctx): Finding[] {
     // If it looks like SARIF, map it deterministically
     if (isSarif(payload)) {
       return mapSemgrepSarifToFindings(payload, ctx);
     }
 
+    // Native `semgrep --json` output
+    if (isSemgrepJson(payload)) {
+      return mapSemgrepJsonToFindings(payload, ctx);
+    }
+
     // Else, try to coerce a flattened array you may already return
     if (Array.isArray(payload)) {
       return payload.map((r: any, i: number) => ({
@@ -75,7 +135,7 @@ const SemgrepAdapter: ScannerAdapter = {
             r.location?.snippet ??
             r.locations?.[0]?.physicalLocation?.region?.snippet?.text,
         },
-        fingerprints: r.fingerprints,
+        fingerprints: realFingerprints(r.fingerprints),
         raw: r,
       })) as Finding[];
     }
@@ -89,6 +149,7 @@ const SemgrepAdapter: ScannerAdapter = {
 --------------------------------*/
 const HarnessAdapter: ScannerAdapter = {
   tool: 'harness',
+  category: 'pipeline',
   startUrl: environment.lambdaEndpoints.startHarnessPipelineURL,
   // Reuse shared log/result endpoints if your infra is shared:
   logsUrl:
@@ -101,86 +162,178 @@ const HarnessAdapter: ScannerAdapter = {
   resultFilePattern:
     /harness-results-[a-zA-Z0-9._-]+-[a-zA-Z0-9._-]+-\d{8}T\d{6}Z\.json/i,
 
-  /** Minimal example: promote a couple of CI smells to Finding[] */
-  mapResultToFindings(payload: any, ctx): Finding[] {
-    const out: Finding[] = [];
-    const createdAt = new Date().toISOString();
+  // execution JSON, or a pipeline YAML picked from disk
+  accepts: (payload) =>
+    isHarnessExecution(payload) || isHarnessPipelineYaml(payload),
 
-    const summary = payload?.data?.pipelineExecutionSummary;
-    if (!summary) return out; // nothing we understand
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapHarnessToFindings(payload, ctx);
+  },
+};
 
-    // 1) Image tags: flag ":latest"
-    const imageDetails: Array<{ imageName?: string; imageTag?: string }> =
-      summary?.moduleInfo?.ci?.imageDetailsList || [];
-    for (const img of imageDetails) {
-      if (!img?.imageName) continue;
-      const tag = (img.imageTag || '').trim();
-      if (tag.toLowerCase() === 'latest') {
-        out.push({
-          id: `harness-img-${img.imageName}-latest`,
-          tool: 'harness',
-          ruleId: 'HARNESS-CI-IMAGE-TAG-LATEST',
-          title: 'Mutable image tag in pipeline',
-          message:
-            'Pipeline uses :latest image tag, which is not immutable. Pin to a digest or version tag.',
-          severity: 'medium',
-          location: {
-            file: 'pipelines/build.yaml', // best-effort placeholder
-            line: undefined,
-            snippet: `${img.imageName}:${img.imageTag}`,
-          },
-          createdAt,
-          raw: img,
-        });
-      }
-    }
+/* -----------------------------
+   GitHub Actions / GitLab CI Adapters (workflow files from the repo)
+--------------------------------*/
+const GithubActionsAdapter: ScannerAdapter = {
+  tool: 'github-actions',
+  category: 'pipeline',
+  // rules run locally on the YAML; no scanner to start
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /github-actions-results-.*\.json/i,
 
-    // 2) Overall stage status heuristic (optional)
-    const stageMap = summary?.layoutNodeMap || {};
-    Object.values(stageMap as any).forEach((node: any) => {
-      // Example: surface "IgnoreFailed" as a low-sev note
-      const status = (node?.status || '').toString();
-      if (status === 'IgnoreFailed') {
-        out.push({
-          id: `harness-stage-ignore-${
-            node?.nodeUuid || node?.nodeIdentifier || 'stage'
-          }`,
-          tool: 'harness',
-          ruleId: 'HARNESS-CI-STAGE-IGNOREFAILED',
-          title: 'Stage configured to IgnoreFailed',
-          message:
-            'Stage executed with status IgnoreFailed. Consider failing fast to avoid promoting broken artifacts.',
-          severity: 'low',
-          location: {
-            file: 'pipelines/build.yaml',
-            snippet: `${node?.name || 'Stage'}: ${status}`,
-          },
-          createdAt,
-          raw: node,
-        });
-      }
-    });
+  accepts: (payload) => isGithubWorkflow(payload),
 
-    // You can add more rules later: cache disabling, mutable base images, etc.
-    return out;
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapGithubWorkflowToFindings(payload, ctx);
+  },
+};
+
+const GitlabCiAdapter: ScannerAdapter = {
+  tool: 'gitlab-ci',
+  category: 'pipeline',
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /gitlab-ci-results-.*\.json/i,
+
+  accepts: (payload) => isGitlabCi(payload),
+
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapGitlabCiToFindings(payload, ctx);
   },
 };
+
 /* -----------------------------
-   Adapter registry
+   Generic SARIF Adapter (CodeQL, Bandit, Trivy, Checkov, gitleaks, ...)
 --------------------------------*/
-const ADAPTERS: Record<ToolKind, ScannerAdapter> = {
-  semgrep: SemgrepAdapter,
-  vanta: {
-    tool: 'vanta',
-    startUrl: '', // TODO: wire when ready
-    logsUrl: '',
-    resultUrl: '',
-    resultFilePattern: /vanta-results-.*\.json/i,
-    mapResultToFindings: () => [],
+const SarifAdapter: ScannerAdapter = {
+  tool: 'sarif',
+  category: 'code',
+  // no dedicated scanner; results come from the shared result endpoint
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /[a-zA-Z0-9._-]+\.sarif(\.json)?/i,
+
+  accepts: (payload) => isSarif(payload),
+
+  // every run goes to its own mapper: Semgrep runs keep their Semgrep extras
+  mapResultToFindings(payload: any, ctx): Finding[] {
+    return isSarif(payload)
+      ? [
+          ...mapSemgrepSarifToFindings(payload, ctx),
+          ...mapSarifToFindings(payload, ctx),
+        ]
+      : [];
   },
-  harness: HarnessAdapter,
 };
 
+/* -----------------------------
+   Vanta Adapter (framework / control exports)
+--------------------------------*/
+const VantaAdapter: ScannerAdapter = {
+  tool: 'vanta',
+  category: 'compliance',
+  startUrl: '', // TODO: wire when ready
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /vanta-results-.*\.json/i,
+
+  accepts: (payload) => isVantaExport(payload),
+
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapVantaToFindings(payload, ctx);
+  },
+};
+
+/* -----------------------------
+   Dependency Adapters (npm audit, OSV-Scanner, CycloneDX SBOM + VEX)
+--------------------------------*/
+const NpmAuditAdapter: ScannerAdapter = {
+  tool: 'npm-audit',
+  category: 'dependency',
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /npm-audit-results-.*\.json/i,
+
+  accepts: (payload) => isNpmAudit(payload),
+
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapNpmAuditToFindings(payload, ctx);
+  },
+};
+
+const OsvAdapter: ScannerAdapter = {
+  tool: 'osv-scanner',
+  category: 'dependency',
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /osv-(scanner-)?results-.*\.json/i,
+
+  accepts: (payload) => isOsvScannerJson(payload),
+
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapOsvToFindings(payload, ctx);
+  },
+};
+
+const CycloneDxAdapter: ScannerAdapter = {
+  tool: 'cyclonedx',
+  category: 'dependency',
+  startUrl: '',
+  logsUrl: '',
+  resultUrl: environment.lambdaEndpoints.fetchResultUrl,
+  resultFilePattern: /[a-zA-Z0-9._-]+\.(cdx|bom|vex)\.json/i,
+
+  accepts: (payload) => isCycloneDx(payload),
+
+  mapResultToFindings(payload: unknown, ctx): Finding[] {
+    return mapCycloneDxToFindings(payload, ctx);
+  },
+};
+
+/* -----------------------------
+   Adapter registry
+--------------------------------*/
+const ADAPTERS: Partial<Record<ToolKind, ScannerAdapter>> = {};
+
+/** Add (or replace) an adapter; its tool becomes visible to every page */
+export function registerAdapter(adapter: ScannerAdapter) {
+  ADAPTERS[adapter.tool] = adapter;
+  registerToolKind(adapter.tool, adapter.category);
+}
+
+/** Look up an adapter by tool, failing loudly for unregistered tools */
+export function adapterFor(tool: ToolKind): ScannerAdapter {
+  const a = ADAPTERS[tool];
+  if (!a) throw new Error(`No scanner adapter registered for ${tool}`);
+  return a;
+}
+
+/** First adapter (in registration order) that recognizes a raw payload */
+export function adapterForPayload(payload: unknown): ScannerAdapter | undefined {
+  return Object.values(ADAPTERS).find((a) => a?.accepts(payload));
+}
+
+/** All registered tools, in registration order */
+export function registeredTools(): ToolKind[] {
+  return Object.keys(ADAPTERS);
+}
+
+registerAdapter(SemgrepAdapter);
+registerAdapter(SarifAdapter);
+registerAdapter(VantaAdapter);
+registerAdapter(HarnessAdapter);
+registerAdapter(GithubActionsAdapter);
+registerAdapter(GitlabCiAdapter);
+registerAdapter(NpmAuditAdapter);
+registerAdapter(OsvAdapter);
+registerAdapter(CycloneDxAdapter);
+
 /* -----------------------------
    Service
 --------------------------------*/
@@ -203,13 +356,30 @@ export interface LogChunk {
   cursor?: string;
 }
 
+export interface ImportResult {
+  file: string;
+  tool?: ToolKind;
+  count: number;
+  filtered?: number; // dropped by ignore globs / baseline
+  error?: string;
+}
+
 @Injectable({ providedIn: 'root' })
 export class ScanService {
   private http = inject(HttpClient);
+  private rulePolicy = inject(RulePolicyService);
+  private severityPolicy = inject(SeverityPolicyService);
+  private ignoreConfig = inject(IgnoreConfigService);
   constructor(
     private findingsStore: FindingsService,
     private bedrock: BedrockService
-  ) {}
+  ) {
+    // pick up where we left off after a reload
+    this.findingsStore
+      .restoreLastSession()
+      .then((meta) => meta && this.activate(meta))
+      .catch((e) => console.error('❌ Failed to restore session:', e));
+  }
 
   readonly scanSession = signal<{
     taskId: string;
@@ -227,7 +397,7 @@ export class ScanService {
 
   /** Start a scan for a tool (works for both semgrep and harness) */
   startScan(input: string, tool: ToolKind): Observable<StartScanResponse> {
-    const a = ADAPTERS[tool];
+    const a = adapterFor(tool);
     let v = String(input || '').trim();
 
     // Normalize repo URL like your working curl example
@@ -275,21 +445,61 @@ export class ScanService {
       );
   }
 
+  // session the running scan writes into; results never go to another one
+  private liveSessionId: string | null = null;
+
+  private isLive(): boolean {
+    return (
+      !!this.liveSessionId &&
+      this.findingsStore.activeSession()?.id === this.liveSessionId
+    );
+  }
+
+  private beginLiveSession(taskId: string, repo: string, tool: ToolKind) {
+    this.liveSessionId = this.findingsStore.beginSession({
+      repo,
+      tool,
+      taskId,
+    }).id;
+  }
+
   /** Mark started so the shell can switch */
   markStarted(res: StartScanResponse, tool: ToolKind) {
+    // tools started together (semgrep + harness) share one stored session;
+    // every other start gets a new one, even over a restored session
+    if (this.scanPhase() !== 'scanning' || !this.isLive())
+      this.beginLiveSession(res.taskId, res.repo, tool);
     this.scanSession.set({ taskId: res.taskId, repo: res.repo, tool });
     this.scanPhase.set('scanning');
   }
 
   clearSession() {
+    this.findingsStore.closeSession();
     this.scanSession.set(null);
     this.scanPhase.set('idle');
     this.resultFile.set(null);
   }
 
+  /** Reopen a stored session from history and make it the active one */
+  async openSession(id: string): Promise<boolean> {
+    const meta = await this.findingsStore.openSession(id);
+    if (meta) this.activate(meta);
+    return !!meta;
+  }
+
+  private activate(meta: ScanSessionMeta) {
+    this.scanSession.set({
+      taskId: meta.taskId,
+      repo: meta.repo,
+      tool: meta.tool,
+    });
+    this.scanPhase.set('completed');
+    this.resultFile.set(null);
+  }
+
   /** Poll logs for a given taskId and tool, detect result file, then fetch it */
   streamLogs(taskId: string, tool: ToolKind) {
-    const a = ADAPTERS[tool];
+    const a = adapterFor(tool);
     let cursor = '';
 
     return interval(1200).pipe(
@@ -321,34 +531,19 @@ export class ScanService {
               next: (res) => {
                 console.log(`[${tool}] ✅ Result Lambda response:`, res);
 
+                // a session opened from history meanwhile stays untouched
+                if (!this.isLive())
+                  this.beginLiveSession(
+                    taskId,
+                    this.scanSession()?.repo ?? '',
+                    tool
+                  );
+
                 // 1) Normalize to Finding[]
-                const ctx = {
+                const { findings: normalized } = this.ingest(a, res, {
                   repo: this.scanSession()?.repo,
                   createdAt: new Date().toISOString(),
-                };
-                let normalized: Finding[] = [];
-                if (tool === 'semgrep') {
-                  normalized = isSarif(res)
-                    ? mapSemgrepSarifToFindings(res, ctx)
-                    : a.mapResultToFindings(res, ctx);
-                } else {
-                  normalized = a.mapResultToFindings(res, ctx);
-                }
-
-                if (!normalized.length) {
-                  console.warn(`[${tool}] ℹ️ No findings after normalization.`);
-                } else {
-                  console.table(
-                    normalized.map((n) => ({
-                      tool: n.tool,
-                      sev: n.severity,
-                      rule: n.ruleId,
-                      file: n.location?.file,
-                      line: n.location?.line,
-                    }))
-                  );
-                  this.findingsStore.add(normalized);
-                }
+                });
 
                 // 2) Enrich with AI (explanations + remediation)
                 console.log(tool, 'enrichment starting', normalized);
@@ -358,7 +553,8 @@ export class ScanService {
                   .then((enriched) => {
                     console.log('🤖 Enriched findings:', enriched);
                     // optional: persist enriched back to the store
-                    this.findingsStore.add(enriched);
+                    // (unless another session was opened in the meantime)
+                    if (this.isLive()) this.findingsStore.add(enriched);
 
                     console.log(this.findingsStore.all());
                   })
@@ -377,13 +573,116 @@ export class ScanService {
     );
   }
 
+  /** Normalize a raw result through its adapter and load it into the store */
+  private ingest(
+    a: ScannerAdapter,
+    payload: unknown,
+    ctx: { repo?: string; createdAt?: string }
+  ): { findings: Finding[]; filtered: number } {
+    // one normalization step for every adapter: identity, severity, local policy
+    const all = normalizeFindings(
+      a.mapResultToFindings(payload, { ...ctx, rules: this.rulePolicy.policy() }),
+      { severity: this.severityPolicy.rules() }
+    );
+
+    // ignored paths and baselined (pre-existing) findings never reach the store
+    const { kept: normalized, stats } = applyIgnore(
+      all,
+      this.ignoreConfig.configFor(ctx.repo)
+    );
+    const filtered = filteredCount(stats);
+    if (filtered) {
+      console.info(`[${a.tool}] 🙈 Filtered ${filtered} findings`, stats);
+      this.findingsStore.recordFiltered(stats);
+    }
+
+    if (!normalized.length) {
+      console.warn(`[${a.tool}] ℹ️ No findings after normalization.`);
+    } else {
+      console.table(
+        normalized.map((n) => ({
+          tool: n.tool,
+          sev: n.severity,
+          rule: n.ruleId,
+          file: n.location?.file,
+          line: n.location?.line,
+        }))
+      );
+      this.findingsStore.add(normalized);
+    }
+    return { findings: normalized, filtered };
+  }
+
+  /**
+   * Import result files from disk (SARIF, Semgrep JSON, Harness execution summary,
+   * pipeline YAML for Harness, GitHub Actions and GitLab CI, npm audit, OSV-Scanner
+   * or CycloneDX SBOM / VEX) without any Lambda endpoint. Opens a local session if
+   * anything was recognized.
+   */
+  async importFiles(files: File[], repo: string): Promise<ImportResult[]> {
+    const createdAt = new Date().toISOString();
+    const out: ImportResult[] = [];
+    const recognized: Array<{ file: string; a: ScannerAdapter; payload: unknown }> =
+      [];
+
+    for (const file of files) {
+      let payload: unknown;
+      const text = await file.text();
+      if (/\.ya?ml$/i.test(file.name)) {
+        // pipeline definitions: rules need the text (and path) for line numbers;
+        // folder picks are rooted at the picked folder, so drop it
+        const path = file.webkitRelativePath.replace(/^[^/]+\//, '');
+        payload = { file: path || file.name, text };
+      } else {
+        try {
+          payload = JSON.parse(text);
+        } catch {
+          out.push({ file: file.name, count: 0, error: 'Not valid JSON' });
+          continue;
+        }
+      }
+
+      const a = adapterForPayload(payload);
+      if (!a) {
+        out.push({ file: file.name, count: 0, error: 'Unrecognized format' });
+        continue;
+      }
+      recognized.push({ file: file.name, a, payload });
+    }
+
+    if (!recognized.length) return out;
+
+    // open the session first so the imported findings are persisted into it
+    const meta = this.findingsStore.beginSession({
+      repo,
+      tool: recognized[0].a.tool,
+      taskId: `local-${createdAt.replace(/[-:.]/g, '')}`,
+    });
+    this.activate(meta);
+
+    for (const { file, a, payload } of recognized) {
+      try {
+        const { findings, filtered } = this.ingest(a, payload, {
+          repo,
+          createdAt,
+        });
+        out.push({ file, tool: a.tool, count: findings.length, filtered });
+      } catch (e: any) {
+        // e.g. YAML the pipeline reader can't follow: say so, not "0 findings"
+        out.push({
+          file,
+          tool: a.tool,
+          count: 0,
+          error: e?.message || 'Import failed',
+        });
+      }
+    }
+    return out;
+  }
+
   /** Start/replace polling and keep it alive even if components unmount */
   // Add a map of subscriptions instead of a single one
-  private logSubs: Record<ToolKind, Subscription | undefined> = {
-    semgrep: undefined,
-    harness: undefined,
-    vanta: undefined,
-  };
+  private logSubs: Partial<Record<ToolKind, Subscription>> = {};
 
   // Start log polling per tool (no longer overwrite each other)
   startLogPolling(taskId: string, tool: ToolKind) {
@@ -424,7 +723,7 @@ export class ScanService {
   
   /** Direct fetch if you already know the file name */
   fetchResult(name: string, tool: ToolKind): Observable<any> {
-    const a = ADAPTERS[tool];
+    const a = adapterFor(tool);
     const params = new HttpParams().set('name', name);
     return this.http.get(a.resultUrl, { params });
   }
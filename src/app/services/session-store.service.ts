@@ -0,0 +1,104 @@
+import { Injectable } from '@angular/core';
+
+import type {
+  ScanSessionRecord,
+  ScanSessionSummary,
+} from '../models/scan-session.model';
+import { ruleSightings } from '../models/rule.catalog';
+import { runsOf } from '../models/pipeline.stats';
+
+const DB_NAME = 'aisec-dashboard';
+const DB_VERSION = 4;
+const SESSIONS = 'sessions';
+// v2: listing history no longer reads findings; v3: summaries list rules seen;
+// v4: summaries carry pipeline runs
+const SUMMARIES = 'summaries';
+
+/** Promise wrapper around a single IDBRequest */
+function req<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function summarize(r: ScanSessionRecord): ScanSessionSummary {
+  const { findings, ...meta } = r;
+  return {
+    ...meta,
+    count: findings.length,
+    rules: ruleSightings(findings),
+    runs: runsOf(findings),
+  };
+}
+
+/** Thin IndexedDB store for scan sessions (one record per session) */
+@Injectable({ providedIn: 'root' })
+export class SessionStoreService {
+  private db?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const r = indexedDB.open(DB_NAME, DB_VERSION);
+      r.onupgradeneeded = () => {
+        const db = r.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          const store = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          store.createIndex('repo', 'repo');
+        }
+        // summaries of an older version lack fields: rebuild them once
+        const tx = r.transaction!;
+        const summaries = db.objectStoreNames.contains(SUMMARIES)
+          ? tx.objectStore(SUMMARIES)
+          : db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+        tx.objectStore(SESSIONS).openCursor().onsuccess = (ev) => {
+          const cursor = (ev.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          summaries.put(summarize(cursor.value));
+          cursor.continue();
+        };
+      };
+      r.onsuccess = () => resolve(r.result);
+      r.onerror = () => reject(r.error);
+    });
+    return this.db;
+  }
+
+  private async stores(
+    mode: IDBTransactionMode
+  ): Promise<{ sessions: IDBObjectStore; summaries: IDBObjectStore }> {
+    const tx = (await this.open()).transaction([SESSIONS, SUMMARIES], mode);
+    return {
+      sessions: tx.objectStore(SESSIONS),
+      summaries: tx.objectStore(SUMMARIES),
+    };
+  }
+
+  /** Save a session; returns the summary the history shows for it */
+  async put(record: ScanSessionRecord): Promise<ScanSessionSummary> {
+    const summary = summarize(record);
+    const { sessions, summaries } = await this.stores('readwrite');
+    await Promise.all([req(sessions.put(record)), req(summaries.put(summary))]);
+    return summary;
+  }
+
+  async get(id: string): Promise<ScanSessionRecord | undefined> {
+    return req<ScanSessionRecord | undefined>(
+      (await this.stores('readonly')).sessions.get(id)
+    );
+  }
+
+  /** All sessions without their findings, newest first */
+  async list(): Promise<ScanSessionSummary[]> {
+    const all = await req<ScanSessionSummary[]>(
+      (await this.stores('readonly')).summaries.getAll()
+    );
+    return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    const { sessions, summaries } = await this.stores('readwrite');
+    await Promise.all([req(sessions.delete(id)), req(summaries.delete(id))]);
+  }
+}
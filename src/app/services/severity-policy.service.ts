@@ -0,0 +1,48 @@
+import { Injectable, signal } from '@angular/core';
+
+import type { SeverityPolicy, SeverityRule } from '../models/severity.policy';
+
+const POLICY_KEY = 'aisec.severityPolicy';
+
+/** Ordered severity remapping rules, applied when findings are ingested */
+@Injectable({ providedIn: 'root' })
+export class SeverityPolicyService {
+  readonly rules = signal<SeverityPolicy>(this.load());
+
+  add(rule: Omit<SeverityRule, 'id'>) {
+    const id = `sev-${Date.now().toString(36)}`;
+    this.rules.update((list) => [...list, { ...rule, id }]);
+    this.save();
+  }
+
+  remove(id: string) {
+    this.rules.update((list) => list.filter((r) => r.id !== id));
+    this.save();
+  }
+
+  /** Move a rule up (-1) or down (+1); later rules see earlier results */
+  move(id: string, by: -1 | 1) {
+    this.rules.update((list) => {
+      const i = list.findIndex((r) => r.id === id);
+      const j = i + by;
+      if (i < 0 || j < 0 || j >= list.length) return list;
+      const next = [...list];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+    this.save();
+  }
+
+  private load(): SeverityPolicy {
+    try {
+      const list = JSON.parse(localStorage.getItem(POLICY_KEY) || '[]');
+      return Array.isArray(list) ? list : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    localStorage.setItem(POLICY_KEY, JSON.stringify(this.rules()));
+  }
+}
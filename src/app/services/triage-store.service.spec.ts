@@ -0,0 +1,65 @@
+import { isSuppressed, type Triage } from '../models/finding.model';
+import { finding } from '../../testing/finding.fixture';
+import { TriageStoreService } from './triage-store.service';
+
+const triage: Triage = {
+  state: 'false_positive',
+  justification: 'only reachable from tests',
+  author: 'me',
+  createdAt: '2025-01-01T00:00:00Z',
+};
+
+const at = (line: number, snippet = 'eval(input)') =>
+  finding({ ruleId: 'js.eval', location: { file: 'a.js', line, snippet } });
+
+describe('TriageStoreService', () => {
+  beforeEach(() => localStorage.removeItem('aisec.triage'));
+  afterEach(() => localStorage.removeItem('aisec.triage'));
+
+  it('carries a decision over to the same code in a later scan', () => {
+    new TriageStoreService().remember(at(10), triage);
+    // a fresh instance reads what the previous page load saved
+    const later = new TriageStoreService();
+    expect(later.lookup(at(42))).toEqual(triage);
+    expect(later.lookup(at(10, 'eval(other)'))).toBeUndefined();
+  });
+
+  it('prefers the scanner fingerprint when there is one', () => {
+    const store = new TriageStoreService();
+    const fingerprints = { 'matchBasedId/v1': 'abc' };
+    store.remember(finding({ fingerprints }), triage);
+    expect(store.lookup(finding({ fingerprints, message: 'moved' }))).toEqual(
+      triage
+    );
+  });
+
+  it('never shares a decision through the "requires login" placeholder', () => {
+    const store = new TriageStoreService();
+    const unlicensed = (message: string) =>
+      finding({
+        message,
+        fingerprints: { 'matchBasedId/v1': 'requires login' },
+        location: { file: 'a.js', snippet: 'requires login' },
+      });
+    store.remember(unlicensed('eval of user input'), triage);
+    expect(store.lookup(unlicensed('eval of user input'))).toEqual(triage);
+    expect(store.lookup(unlicensed('open redirect'))).toBeUndefined();
+  });
+
+  it('forgets a decision', () => {
+    const store = new TriageStoreService();
+    store.remember(at(10), triage);
+    store.forget(at(10));
+    expect(new TriageStoreService().lookup(at(10))).toBeUndefined();
+  });
+});
+
+describe('isSuppressed', () => {
+  it('hides triaged findings until the day after they expire', () => {
+    const until = { ...triage, expiresAt: '2025-06-30' };
+    expect(isSuppressed({ triage }, '2030-01-01')).toBeTrue();
+    expect(isSuppressed({ triage: until }, '2025-06-30')).toBeTrue();
+    expect(isSuppressed({ triage: until }, '2025-07-01')).toBeFalse();
+    expect(isSuppressed({}, '2025-07-01')).toBeFalse();
+  });
+});
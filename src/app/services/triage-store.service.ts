@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+
+import type { Finding, Triage } from '../models/finding.model';
+import { isPlaceholder, matchKeys } from '../models/finding.identity';
+
+const TRIAGE_KEY = 'aisec.triage';
+
+/** Keys a decision is filed under, strongest first; never a placeholder */
+function keysOf(f: Finding): string[] {
+  const { fp, loc } = matchKeys(f);
+  return [fp, loc].filter((k): k is string => !!k && !isPlaceholder(k));
+}
+
+/**
+ * Remembers triage decisions by finding identity (scanner fingerprint and
+ * rule + file + snippet), so a later scan of the same code inherits them.
+ */
+@Injectable({ providedIn: 'root' })
+export class TriageStoreService {
+  private entries: Record<string, Triage> = this.load();
+
+  lookup(f: Finding): Triage | undefined {
+    for (const k of keysOf(f)) if (this.entries[k]) return this.entries[k];
+    return undefined;
+  }
+
+  remember(f: Finding, triage: Triage) {
+    for (const k of keysOf(f)) this.entries[k] = triage;
+    this.save();
+  }
+
+  forget(f: Finding) {
+    for (const k of keysOf(f)) delete this.entries[k];
+    this.save();
+  }
+
+  private load(): Record<string, Triage> {
+    try {
+      const saved = JSON.parse(localStorage.getItem(TRIAGE_KEY) || '{}');
+      // decisions filed under a placeholder before it was recognized as one
+      for (const k of Object.keys(saved)) if (isPlaceholder(k)) delete saved[k];
+      return saved;
+    } catch {
+      return {};
+    }
+  }
+
+  private save() {
+    localStorage.setItem(TRIAGE_KEY, JSON.stringify(this.entries));
+  }
+}
@@ -0,0 +1,36 @@
+import type { Finding } from '../models/finding.model';
+
+/** Badge classes for a severity, shared by every findings list */
+export function badgeClass(sev: string): string {
+  switch (sev) {
+    case 'critical':
+      return 'badge badge--crit';
+    case 'high':
+      return 'badge badge--high';
+    case 'medium':
+      return 'badge badge--med';
+    case 'low':
+      return 'badge badge--low';
+    case 'info':
+      return 'badge badge--info';
+    default:
+      return 'badge';
+  }
+}
+
+/** Chat prompt asking for a fix of a single finding */
+export function fixPrompt(finding: Finding): string {
+  return `
+When replying, please use markdown formatting for headers, please start with heading-2
+
+Please analyze and fix the following vulnerability:
+
+Rule: ${finding.ruleId}
+Severity: ${finding.severity}
+Message: ${finding.message}
+File: ${finding.location?.file}:${finding.location?.line}
+Snippet:
+${finding.location?.snippet}
+
+Generate a secure code fix and explain the changes.`;
+}
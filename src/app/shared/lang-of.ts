@@ -0,0 +1,44 @@
+/** highlight.js language for a file name; undefined lets hljs auto-detect */
+export function langOf(file?: string | null): string | undefined {
+  const ext = (file || '').split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'py':
+      return 'python';
+    case 'ts':
+      return 'typescript';
+    case 'js':
+      return 'javascript';
+    case 'tsx':
+      return 'tsx';
+    case 'jsx':
+      return 'jsx';
+    case 'go':
+      return 'go';
+    case 'rs':
+      return 'rust';
+    case 'rb':
+      return 'ruby';
+    case 'java':
+      return 'java';
+    case 'cs':
+      return 'csharp';
+    case 'c':
+      return 'c';
+    case 'cpp':
+    case 'cc':
+    case 'cxx':
+      return 'cpp';
+    case 'sh':
+    case 'bash':
+      return 'bash';
+    case 'yml':
+    case 'yaml':
+      return 'yaml';
+    case 'json':
+      return 'json';
+    case 'sql':
+      return 'sql';
+    default:
+      return undefined; // let hljs auto-detect
+  }
+}
@@ -0,0 +1,15 @@
+import type { Finding } from '../app/models/finding.model';
+
+let seq = 0;
+
+/** A medium Semgrep finding with a unique id; override whatever a spec needs */
+export function finding(extra: Partial<Finding> = {}): Finding {
+  return {
+    id: `f${++seq}`,
+    tool: 'semgrep',
+    ruleId: 'rule',
+    message: 'msg',
+    severity: 'medium',
+    ...extra,
+  } as Finding;
+}